@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { hasAyahMarkers, splitAtAyahMarkers } from './ayah-markers';
+
+describe('hasAyahMarkers()', () => {
+  it('should find each kind of marker', () => {
+    expect(hasAyahMarkers('قل هو الله أحد ﴿١﴾')).toBe(true);
+    expect(hasAyahMarkers('قل هو الله أحد ۝')).toBe(true);
+    expect(hasAyahMarkers('قل هو الله أحد ١ الله الصمد')).toBe(true);
+    expect(hasAyahMarkers('قل هو الله أحد')).toBe(false);
+  });
+
+  it('should give the same answer when called repeatedly', () => {
+    const text = 'الله الصمد ﴿٢﴾';
+    expect([hasAyahMarkers(text), hasAyahMarkers(text), hasAyahMarkers(text)]).toEqual([true, true, true]);
+  });
+});
+
+describe('splitAtAyahMarkers()', () => {
+  it('should end each segment at the marker after it', () => {
+    const text = 'قل هو الله أحد ﴿١﴾ الله الصمد ۝٢';
+    const segments = splitAtAyahMarkers(text);
+
+    expect(segments.map((s) => [s.text, s.marker?.ayah])).toEqual([
+      ['قل هو الله أحد', 1],
+      ['الله الصمد', 2],
+    ]);
+    for (const segment of segments) {
+      expect(text.slice(segment.start, segment.end)).toBe(segment.text);
+    }
+    expect(text.slice(segments[0].marker!.start, segments[0].marker!.end)).toBe('﴿١﴾');
+  });
+
+  it('should read ASCII, Arabic-Indic and Persian digits', () => {
+    const segments = splitAtAyahMarkers('أ ﴿12﴾ ب ﴿١٢﴾ ج ﴿۱۲﴾ د ﴾١٢﴿');
+    expect(segments.map((s) => s.marker?.ayah)).toEqual([12, 12, 12, 12]);
+  });
+
+  it('should leave an unnumbered marker without an ayah', () => {
+    const [segment] = splitAtAyahMarkers('الله الصمد ۝ لم يلد');
+    expect(segment.text).toBe('الله الصمد');
+    expect(segment.marker).toEqual({ ayah: undefined, start: 11, end: 12 });
+  });
+
+  it('should keep text after the last marker as a segment without one', () => {
+    const segments = splitAtAyahMarkers('الله الصمد ﴿٢﴾ لم يلد');
+    expect(segments[1]).toEqual({ text: 'لم يلد', start: 15, end: 21, marker: undefined });
+  });
+
+  it('should only take a bare number that stands alone', () => {
+    expect(splitAtAyahMarkers('آية١ نص')[0].marker).toBeUndefined();
+    expect(splitAtAyahMarkers('الصمد ٢ لم')[0].marker?.ayah).toBe(2);
+  });
+
+  it('should drop empty segments', () => {
+    const segments = splitAtAyahMarkers('﴿١﴾ الحمد لله ﴿٢﴾ ﴿٣﴾');
+    expect(segments.map((s) => s.text)).toEqual(['الحمد لله']);
+  });
+});
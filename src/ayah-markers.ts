@@ -0,0 +1,87 @@
+/**
+ * Ayah-end markers written inside quotes
+ *
+ * Models copy the mushaf's verse numbering into quotes: ornate brackets
+ * (﴿١﴾), the end-of-ayah sign (۝, with or without a number) or a bare
+ * Arabic-Indic number between words. Normalization strips them all, which
+ * loses the boundaries between verses; this reads them back out.
+ */
+
+import { toAsciiDigits } from './reference-parser';
+import type { TextSpan } from './types';
+
+const DIGITS = '[0-9\u0660-\u0669\u06F0-\u06F9]+';
+const ARABIC_DIGITS = '[\u0660-\u0669\u06F0-\u06F9]+';
+
+// ﴿١﴾ (or ﴾١﴿), ۝ with an optional number, or an Arabic-Indic number standing alone
+const AYAH_MARKER = new RegExp(
+  [
+    `\uFD3F\\s*(${DIGITS})\\s*\uFD3E`,
+    `\uFD3E\\s*(${DIGITS})\\s*\uFD3F`,
+    `\u06DD(?:\\s*(${DIGITS}))?`,
+    `(?<!\\S)(${ARABIC_DIGITS})(?!\\S)`,
+  ].join('|'),
+  'g'
+);
+
+/**
+ * Text between ayah markers, with the marker that ends it
+ */
+export interface AyahSegment extends TextSpan {
+  /** The text, as written */
+  text: string;
+  /** The marker after the text (absent for text after the last marker) */
+  marker?: TextSpan & {
+    /** The number on the marker, if it has one */
+    ayah?: number;
+  };
+}
+
+/**
+ * Whether text has any ayah markers
+ */
+export function hasAyahMarkers(text: string): boolean {
+  return text.search(AYAH_MARKER) !== -1;
+}
+
+/**
+ * Split text at its ayah markers
+ *
+ * Each marker ends the segment before it, as in the mushaf: in
+ * "بسم الله الرحمن الرحيم ﴿١﴾ الحمد لله" the number belongs to
+ * "بسم الله الرحمن الرحيم". Segments are trimmed; empty ones (two
+ * markers in a row) are dropped.
+ *
+ * @example
+ * ```ts
+ * splitAtAyahMarkers('قل هو الله أحد ﴿١﴾ الله الصمد ۝٢');
+ * // [{ text: 'قل هو الله أحد', start: 0, end: 14, marker: { ayah: 1, start: 15, end: 18 } },
+ * //  { text: 'الله الصمد', start: 19, end: 29, marker: { ayah: 2, start: 30, end: 32 } }]
+ * ```
+ */
+export function splitAtAyahMarkers(text: string): AyahSegment[] {
+  const segments: AyahSegment[] = [];
+  let from = 0;
+
+  const push = (end: number, marker?: AyahSegment['marker']) => {
+    const raw = text.slice(from, end);
+    const start = from + (raw.length - raw.trimStart().length);
+    const trimmed = raw.trim();
+    if (trimmed) {
+      segments.push({ text: trimmed, start, end: start + trimmed.length, marker });
+    }
+  };
+
+  for (const match of text.matchAll(AYAH_MARKER)) {
+    const digits = match.slice(1).find((group) => group !== undefined);
+    push(match.index!, {
+      ayah: digits !== undefined ? Number(toAsciiDigits(digits)) : undefined,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+    from = match.index! + match[0].length;
+  }
+  push(text.length);
+
+  return segments;
+}
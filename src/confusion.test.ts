@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONFUSIONS,
+  classifyWordError,
+  weightedEditDistance,
+  weightedSimilarity,
+} from './confusion';
+import { calculateSimilarity } from './normalizer';
+import type { Confusion } from './types';
+
+describe('weightedEditDistance()', () => {
+  it('should charge little for spelling variants', () => {
+    expect(weightedEditDistance('الصلاه', 'الصلاة')).toBeCloseTo(0.2);
+    expect(weightedEditDistance('على', 'علي')).toBeCloseTo(0.2);
+    expect(weightedEditDistance('الرحمن', 'الرحمان')).toBeCloseTo(0.3);
+  });
+
+  it('should charge more for dot and keyboard slips, and in full for other letters', () => {
+    expect(weightedEditDistance('نعمة', 'نعمت')).toBeCloseTo(0.4);
+    expect(weightedEditDistance('الجنة', 'الحنة')).toBeCloseTo(0.5);
+    expect(weightedEditDistance('قلب', 'فلب')).toBeCloseTo(0.5);
+    expect(weightedEditDistance('قلب', 'كلب')).toBe(1);
+    expect(weightedEditDistance('كتاب', 'كتاب')).toBe(0);
+  });
+
+  it('should agree with plain Levenshtein without confusions', () => {
+    const pairs: [string, string][] = [
+      ['الصلاه', 'الصلاة'],
+      ['قل هو الله احد', 'قل هو الله واحد'],
+      ['بسم', ''],
+    ];
+    for (const [a, b] of pairs) {
+      const length = Math.max(a.length, b.length);
+      expect(weightedEditDistance(a, b, [])).toBeCloseTo((1 - calculateSimilarity(a, b)) * length);
+    }
+  });
+
+  it('should take custom costs', () => {
+    const confusions: Confusion[] = [{ from: 'ق', to: 'ك', cost: 0.1, kind: 'orthographic' }];
+
+    expect(weightedEditDistance('قلب', 'كلب', confusions)).toBeCloseTo(0.1);
+    expect(weightedEditDistance('الصلاه', 'الصلاة', confusions)).toBe(1);
+  });
+});
+
+describe('weightedSimilarity()', () => {
+  it('should keep the scale of calculateSimilarity()', () => {
+    expect(weightedSimilarity('بسم', 'بسم')).toBe(1);
+    expect(weightedSimilarity('بسم', '')).toBe(0);
+    expect(weightedSimilarity('قلب', 'كلب')).toBeCloseTo(calculateSimilarity('قلب', 'كلب'));
+  });
+
+  it('should score spelling variants above real misquotes', () => {
+    const verse = 'واقيموا الصلاة واتوا الزكاة';
+    const variant = 'واقيموا الصلاه واتوا الزكاه';
+    const misquote = 'واقيموا الصلاح واتوا الزكام';
+
+    expect(calculateSimilarity(variant, verse)).toBe(calculateSimilarity(misquote, verse));
+    expect(weightedSimilarity(variant, verse)).toBeGreaterThan(weightedSimilarity(misquote, verse));
+  });
+});
+
+describe('classifyWordError()', () => {
+  it('should recognise spelling variants', () => {
+    expect(classifyWordError('الزكاه', 'الزكاة')).toBe('orthographic-variant');
+    expect(classifyWordError('موسي', 'موسى')).toBe('orthographic-variant');
+    expect(classifyWordError('الرحمن', 'الرحمان')).toBe('orthographic-variant');
+    expect(classifyWordError('الصراط', 'السراط')).toBe('orthographic-variant');
+  });
+
+  it('should treat other changes, typos included, as a different word', () => {
+    expect(classifyWordError('واحد', 'احد')).toBe('different-word');
+    expect(classifyWordError('الحنة', 'الجنة')).toBe('different-word');
+    expect(classifyWordError('الكريم', 'الرحيم')).toBe('different-word');
+  });
+
+  it('should list every default confusion with a cost below a full edit', () => {
+    for (const confusion of DEFAULT_CONFUSIONS) {
+      expect(confusion.cost).toBeGreaterThan(0);
+      expect(confusion.cost).toBeLessThan(1);
+    }
+  });
+});
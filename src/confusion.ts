@@ -0,0 +1,211 @@
+/**
+ * Edit distance that knows which Arabic letters are easily confused
+ *
+ * Plain Levenshtein charges the same for ة written as ه as for ق written
+ * as ك, so a quote with harmless spelling variants can score below one
+ * with a wrong word. Here each substitution, insertion or deletion costs
+ * what a table of known confusions says: little for spelling variants,
+ * more for letters told apart only by their dots (the usual OCR error)
+ * or neighbouring keys, and a full edit for anything else.
+ */
+
+import type { Confusion, ConfusionKind, WordErrorKind } from './types';
+
+// Arabic PC keyboard rows, without the لا key
+const KEYBOARD_ROWS = [
+  '\u0636\u0635\u062B\u0642\u0641\u063A\u0639\u0647\u062E\u062D\u062C\u062F', // ض ص ث ق ف غ ع ه خ ح ج د
+  '\u0634\u0633\u064A\u0628\u0644\u0627\u062A\u0646\u0645\u0643\u0637', // ش س ي ب ل ا ت ن م ك ط
+  '\u0626\u0621\u0624\u0631\u0649\u0629\u0648\u0632\u0638', // ئ ء ؤ ر ى ة و ز ظ
+];
+
+function pairs(kind: ConfusionKind, cost: number, groups: string[]): Confusion[] {
+  const confusions: Confusion[] = [];
+  for (const group of groups) {
+    const letters = Array.from(group);
+    for (let i = 0; i < letters.length; i++) {
+      for (let j = i + 1; j < letters.length; j++) {
+        confusions.push({ from: letters[i], to: letters[j], cost, kind });
+      }
+    }
+  }
+  return confusions;
+}
+
+function keyboardNeighbours(cost: number): Confusion[] {
+  return KEYBOARD_ROWS.flatMap((row) => {
+    const keys = Array.from(row);
+    return keys
+      .slice(1)
+      .map((key, i): Confusion => ({ from: keys[i], to: key, cost, kind: 'keyboard' }));
+  });
+}
+
+/**
+ * Confusions used unless a validator is given its own. A pair listed under
+ * several kinds takes its first (cheapest) entry.
+ */
+export const DEFAULT_CONFUSIONS: readonly Confusion[] = [
+  // Spelling variants: tāʾ marbūṭa, alif maqṣūra, hamza seats, Uthmani ص for س
+  ...pairs('orthographic', 0.2, [
+    '\u0629\u0647', // ة ه
+    '\u0649\u064A', // ى ي
+    '\u0649\u0627', // ى ا
+    '\u0627\u0623\u0625\u0622\u0671', // ا أ إ آ ٱ
+    '\u0621\u0623\u0625\u0624\u0626', // ء أ إ ؤ ئ
+    '\u0624\u0648', // ؤ و
+    '\u0626\u064A', // ئ ي
+    '\u0635\u0633', // ص س
+    '\u064A\u06CC', // ي ی
+    '\u0643\u06A9', // ك ک
+  ]),
+  ...pairs('orthographic', 0.4, ['\u0629\u062A']), // ة ت
+  // Letters written with or without an alif or hamza
+  { from: '\u0627', to: '', cost: 0.3, kind: 'orthographic' },
+  { from: '\u0621', to: '', cost: 0.3, kind: 'orthographic' },
+  // Letters that differ only in their dots
+  ...pairs('ocr', 0.5, [
+    '\u0628\u062A\u062B\u0646\u064A', // ب ت ث ن ي
+    '\u062C\u062D\u062E', // ج ح خ
+    '\u062F\u0630', // د ذ
+    '\u0631\u0632', // ر ز
+    '\u0633\u0634', // س ش
+    '\u0635\u0636', // ص ض
+    '\u0637\u0638', // ط ظ
+    '\u0639\u063A', // ع غ
+    '\u0641\u0642', // ف ق
+  ]),
+  ...keyboardNeighbours(0.7),
+];
+
+interface ConfusionEntry {
+  cost: number;
+  kind: ConfusionKind;
+}
+
+const tables = new WeakMap<readonly Confusion[], Map<string, ConfusionEntry>>();
+
+/**
+ * Look-up table for a list of confusions, in both directions
+ */
+function tableFor(confusions: readonly Confusion[]): Map<string, ConfusionEntry> {
+  let table = tables.get(confusions);
+  if (!table) {
+    table = new Map();
+    for (const { from, to, cost, kind } of confusions) {
+      for (const key of [`${from}|${to}`, `${to}|${from}`]) {
+        if (!table.has(key)) table.set(key, { cost, kind });
+      }
+    }
+    tables.set(confusions, table);
+  }
+  return table;
+}
+
+/**
+ * Edit distance where each edit costs `cost(a, b)`; `''` stands for the
+ * missing side of an insertion or deletion
+ */
+function weightedDistance(
+  str1: string,
+  str2: string,
+  cost: (a: string, b: string) => number
+): number {
+  const a = Array.from(str1);
+  const b = Array.from(str2);
+  let previous = [0];
+  for (let j = 1; j <= b.length; j++) previous[j] = previous[j - 1] + cost('', b[j - 1]);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [previous[0] + cost(a[i - 1], '')];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + cost(a[i - 1], ''),
+        current[j - 1] + cost('', b[j - 1]),
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : cost(a[i - 1], b[j - 1]))
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Levenshtein distance with the cost of each edit taken from a table of
+ * confusions (1 for edits the table doesn't list)
+ *
+ * @param str1 - First string
+ * @param str2 - Second string
+ * @param confusions - Edit costs (default: DEFAULT_CONFUSIONS)
+ * @returns Weighted number of edits
+ *
+ * @example
+ * ```ts
+ * weightedEditDistance('الصلاه', 'الصلاة') // returns 0.2
+ * weightedEditDistance('قلب', 'كلب') // returns 1
+ * ```
+ */
+export function weightedEditDistance(
+  str1: string,
+  str2: string,
+  confusions: readonly Confusion[] = DEFAULT_CONFUSIONS
+): number {
+  const table = tableFor(confusions);
+  return weightedDistance(str1, str2, (a, b) => table.get(`${a}|${b}`)?.cost ?? 1);
+}
+
+/**
+ * Similarity between two strings from their weighted edit distance, on the
+ * same scale as calculateSimilarity()
+ *
+ * @returns Similarity score between 0 and 1 (1 = identical)
+ *
+ * @example
+ * ```ts
+ * weightedSimilarity('الصلاه', 'الصلاة') // returns 0.9666...
+ * calculateSimilarity('الصلاه', 'الصلاة') // returns 0.8333...
+ * ```
+ */
+export function weightedSimilarity(
+  str1: string,
+  str2: string,
+  confusions: readonly Confusion[] = DEFAULT_CONFUSIONS
+): number {
+  if (str1 === str2) return 1;
+  if (str1.length === 0 || str2.length === 0) return 0;
+
+  const distance = weightedEditDistance(str1, str2, confusions);
+  const maxLength = Math.max(str1.length, str2.length);
+
+  return Math.max(0, 1 - distance / maxLength);
+}
+
+/**
+ * Tell a spelling variant of a word from a different word
+ *
+ * A word is an orthographic variant when every edit between the two is one
+ * the confusions list as orthographic; OCR and keyboard slips still make a
+ * different word.
+ *
+ * @param input - The word as quoted (normalized)
+ * @param expected - The word of the verse (normalized)
+ * @param confusions - Known confusions (default: DEFAULT_CONFUSIONS)
+ *
+ * @example
+ * ```ts
+ * classifyWordError('الزكاه', 'الزكاة') // returns "orthographic-variant"
+ * classifyWordError('واحد', 'احد') // returns "different-word"
+ * ```
+ */
+export function classifyWordError(
+  input: string,
+  expected: string,
+  confusions: readonly Confusion[] = DEFAULT_CONFUSIONS
+): WordErrorKind {
+  const table = tableFor(confusions);
+  const distance = weightedDistance(input, expected, (a, b) => {
+    const entry = table.get(`${a}|${b}`);
+    return entry?.kind === 'orthographic' ? entry.cost : Infinity;
+  });
+  return distance < Infinity ? 'orthographic-variant' : 'different-word';
+}
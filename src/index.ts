@@ -42,9 +42,78 @@ export {
   LLMProcessor,
   createLLMProcessor,
   quickValidate,
+  applyPatches,
   SYSTEM_PROMPTS,
 } from './llm-integration';
 
+// Tag formats
+export {
+  registerTagFormat,
+  getTagFormat,
+  getTagFormats,
+  patternExtractor,
+} from './tag-formats';
+export type { TagFormat, ExtractedTag } from './tag-formats';
+
+// Correction policies
+export { classifyQuote } from './policy';
+export type {
+  QuoteIssue,
+  PolicyAction,
+  CorrectionPolicy,
+  PolicyDecision,
+} from './policy';
+
+// Structured (JSON mode) output
+export { QURAN_CITATION_SCHEMA } from './structured';
+export type {
+  StructuredSchema,
+  StructuredCitationReport,
+  StructuredOutput,
+} from './structured';
+
+// Streaming LLM output
+export { StreamingLLMProcessor, createStreamProcessor } from './streaming';
+export type {
+  StreamProcessorOptions,
+  StreamEvent,
+  InvalidQuoteAction,
+} from './streaming';
+
+// Rendering
+export { renderHTML, renderMarkdown, getQuoteStatus } from './renderer';
+export type { RenderOptions, QuoteStatus } from './renderer';
+
+// Re-ask loop
+export { buildRepairPrompt, validateWithRetries } from './repair';
+export type {
+  RepairPromptOptions,
+  GenerateContext,
+  RetryAttempt,
+  RetryResult,
+  RetryOptions,
+} from './repair';
+
+// Function-calling tools
+export {
+  QURAN_TOOLS,
+  createToolHandlers,
+  executeToolCall,
+  runToolLoop,
+  toOpenAITools,
+  toAnthropicTools,
+} from './tools';
+export type {
+  QuranToolName,
+  ToolDefinition,
+  ToolCall,
+  ToolHandler,
+  ToolLoopMessage,
+  ToolLoopOptions,
+  ToolLoopResult,
+  ModelTurn,
+} from './tools';
+
 // Normalization utilities
 export {
   normalizeArabic,
@@ -52,28 +121,104 @@ export {
   containsArabic,
   extractArabicSegments,
   calculateSimilarity,
+  calculateWordSimilarity,
+  editDistance,
+  wordEditDistance,
   findDifferences,
+  normalizeWithMap,
+  toOriginalSpan,
 } from './normalizer';
 
-export type { NormalizeOptions } from './normalizer';
+export type { NormalizeOptions, NormalizedText } from './normalizer';
+
+// Confusion-aware similarity
+export {
+  DEFAULT_CONFUSIONS,
+  weightedEditDistance,
+  weightedSimilarity,
+  classifyWordError,
+} from './confusion';
+
+// Transliteration
+export { normalizeTransliteration, transliterationKey } from './transliteration';
+
+// Script conversion
+export { toImlaei, detectScript, toScript } from './script';
+
+// Word-level diff
+export { diffWords } from './word-diff';
+
+// Tashkeel diagnostics
+export { diffTashkeel, hasTashkeel } from './tashkeel';
+
+// Ayah markers
+export { hasAyahMarkers, splitAtAyahMarkers } from './ayah-markers';
+export type { AyahSegment } from './ayah-markers';
+
+// Search
+export { getJuz } from './search';
+
+// Reference parsing
+export {
+  parseQuranReference,
+  parseSingleReference,
+  formatReference,
+  findSurah,
+  QuranReferenceError,
+} from './reference-parser';
+export type { ReferenceParseResult } from './reference-parser';
+
+// Riwaya pack loading
+export { bundledRiwayaLoader, createFetchRiwayaLoader } from './riwaya-loader';
+export type { FetchLike } from './riwaya-loader';
 
 // Types
 export type {
   QuranVerse,
   QuranSurah,
   ValidationResult,
+  VerseSuggestion,
   DetectionResult,
   ValidatorOptions,
   MatchType,
+  PartialMatch,
   FabricationAnalysis,
   WordAnalysis,
+  WordDiff,
+  WordDiffOperation,
+  WordErrorKind,
+  Confusion,
+  ConfusionKind,
+  VerseDiff,
+  TashkeelErrorType,
+  TashkeelError,
+  TashkeelAnalysis,
+  AyahMarker,
+  SearchOptions,
+  SearchResult,
+  TextSpan,
   RiwayaId,
   RiwayaInfo,
   RiwayaMatch,
+  RiwayaVerse,
+  RiwayaLoader,
+  QuranReference,
+  ReferenceErrorCode,
+  ReferenceStyle,
+  ReferenceFormatter,
+  TranslationPack,
+  TranslationInfo,
+  VerseTranslation,
+  TranslationValidation,
+  TranslationMatchStatus,
+  TransliterationValidation,
+  QuranScript,
+  ScriptOption,
 } from './types';
 
 export type {
   ProcessedOutput,
   QuoteAnalysis,
+  CorrectionPatch,
   LLMProcessorOptions,
 } from './llm-integration';
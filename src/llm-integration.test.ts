@@ -3,8 +3,13 @@ import {
   LLMProcessor,
   createLLMProcessor,
   quickValidate,
+  applyPatches,
   SYSTEM_PROMPTS,
 } from './llm-integration';
+import { QuranValidator } from './validator';
+import { getTagFormat, getTagFormats, patternExtractor, registerTagFormat } from './tag-formats';
+import type { TagFormat } from './tag-formats';
+import { QURAN_CITATION_SCHEMA } from './structured';
 
 describe('LLMProcessor', () => {
   const processor = new LLMProcessor();
@@ -47,6 +52,26 @@ describe('LLMProcessor', () => {
       expect(result.quotes.some((q) => q.reference === '1:1')).toBe(true);
     });
 
+    it('should accept tags citing a surah by name', () => {
+      const text = `<quran ref="Al-Ikhlas 1">قُلْ هُوَ ٱللَّهُ أَحَدٌ</quran>`;
+
+      const result = processor.process(text);
+
+      expect(result.quotes[0].isValid).toBe(true);
+      expect(result.quotes[0].reference).toBe('112:1');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should warn about tag references it cannot parse', () => {
+      const text = `<quran ref="Surah Foo 1">قُلْ هُوَ ٱللَّهُ أَحَدٌ</quran>`;
+
+      const result = processor.process(text);
+
+      expect(result.warnings).toContain('Unrecognized verse reference: "Surah Foo 1"');
+      // The quote is still validated against the whole Quran
+      expect(result.quotes[0].reference).toBe('112:1');
+    });
+
     it('should ignore inline references without Arabic text', () => {
       const text = `Explanation about charity (2:215) with no Arabic quote.`;
 
@@ -93,6 +118,19 @@ describe('LLMProcessor', () => {
       expect(result.quotes.some(q => q.reference === '112:1')).toBe(true);
     });
 
+    it('should correct untagged consecutive verses to the full range', () => {
+      const processor = new LLMProcessor();
+      const text = `Consider: قل هو الله أحد الله الصمد and reflect.`;
+
+      const result = processor.process(text);
+
+      const expected = new QuranValidator().getVerseRange(112, 1, 2)!.text;
+      const quote = result.quotes.find((q) => q.reference === '112:1-2');
+      expect(quote).toBeDefined();
+      expect(quote!.corrected).toBe(expected);
+      expect(result.correctedText).toContain(expected);
+    });
+
     it('should not flag non-Quran Arabic text', () => {
       const text = `مرحبا كيف حالك اليوم هذا نص عربي عادي`;
 
@@ -125,6 +163,223 @@ describe('LLMProcessor', () => {
       // Should keep original text structure
       expect(result.correctedText).toContain('بسم ٱلله ٱلرحمٰن ٱلرحيم');
     });
+
+    it('should say which diacritics a corrected quote got wrong', () => {
+      const processor = new LLMProcessor();
+      const text = 'Say: <quran ref="112:1">قُلْ هُوَ اللَهُ أَحَدٌ</quran>';
+      const result = processor.process(text);
+      const { tashkeel } = result.quotes[0];
+
+      expect(result.quotes[0].wasCorrected).toBe(true);
+      expect(tashkeel!.errors.map((e) => e.type)).toEqual(['missing-shadda']);
+      // Positions are in the response, like the quote's own
+      expect(text.slice(tashkeel!.errors[0].inputStart)).toMatch(/^لَ/);
+    });
+  });
+
+  describe('correction patches', () => {
+    const misquote = `<quran ref="1:1">بسم ٱلله ٱلرحمٰن ٱلرحيم</quran>`;
+    const basmala = new QuranValidator().getVerse(1, 1)!.text;
+
+    it('should describe each correction', () => {
+      const text = `Start: ${misquote}`;
+      const result = new LLMProcessor().process(text);
+      const [patch] = result.patches;
+
+      expect(result.patches.length).toBe(1);
+      expect(patch.kind).toBe('text');
+      expect(patch.startIndex).toBe(7);
+      expect(patch.endIndex).toBe(text.length);
+      expect(patch.original).toBe(misquote);
+      expect(patch.replacement).toBe(`<quran ref="1:1">${basmala}</quran>`);
+      expect(patch.reason).toContain('1:1');
+      expect(result.quotes[patch.quoteIndex].reference).toBe('1:1');
+    });
+
+    it('should correct every occurrence of a repeated quote', () => {
+      const text = `${misquote} and again ${misquote}`;
+      const result = new LLMProcessor().process(text);
+
+      expect(result.patches.length).toBe(2);
+      expect(result.correctedText).not.toContain('بسم ٱلله');
+      expect(result.correctedText).toContain(' and again ');
+    });
+
+    it('should report a corrected reference', () => {
+      const result = new LLMProcessor().process(`<quran ref="1:2">${basmala}</quran>`);
+
+      expect(result.patches[0].kind).toBe('reference');
+      expect(result.patches[0].reason).toBe('Quote is 1:1, not 1:2');
+      expect(result.correctedText).toContain('ref="1:1"');
+    });
+
+    it('should not record patches when autoCorrect is disabled', () => {
+      const result = new LLMProcessor({ autoCorrect: false }).process(misquote);
+
+      expect(result.patches).toEqual([]);
+      expect(result.correctedText).toBe(misquote);
+    });
+
+    it('should let a single correction be undone', () => {
+      const text = `${misquote} then <quran ref="1:2">${basmala}</quran>`;
+      const result = new LLMProcessor().process(text);
+
+      expect(applyPatches(text, result.patches)).toBe(result.correctedText);
+
+      const withoutFirst = applyPatches(text, result.patches.slice(1));
+      expect(withoutFirst.startsWith(misquote)).toBe(true);
+      expect(withoutFirst).toContain('ref="1:1"');
+    });
+
+    it('should keep the whitespace after a corrected contextual quote', () => {
+      const text = 'Allah says:  بسم ٱلله ٱلرحمٰن ٱلرحيم\nNext line here.';
+      const result = new LLMProcessor().process(text);
+      const [patch] = result.patches;
+
+      expect(result.quotes[0].detectionMethod).toBe('contextual');
+      expect(patch.original).toBe(text.slice(patch.startIndex, patch.endIndex));
+      expect(result.correctedText).toBe(`Allah says:  ${basmala}\nNext line here.`);
+    });
+
+    it('should keep the whitespace after a corrected untagged quote', () => {
+      const ikhlas = new QuranValidator().getVerse(112, 1)!.text;
+      const text = 'Consider قُلْ هُوَ اللَهُ أَحَدٌ and that is it.';
+      const result = new LLMProcessor().process(text);
+      const [patch] = result.patches;
+
+      expect(result.quotes[0].detectionMethod).toBe('fuzzy');
+      expect(patch.original).toBe(text.slice(patch.startIndex, patch.endIndex));
+      expect(result.correctedText).toBe(`Consider ${ikhlas} and that is it.`);
+    });
+  });
+
+  describe('correction policy', () => {
+    const misquote = `<quran ref="1:1">بسم ٱلله ٱلرحمٰن ٱلرحيم</quran>`;
+    const fabricated = `<quran ref="2:100">هذا نص مزيف لا يوجد في القرآن الكريم أبداً</quran>`;
+    const basmala = new QuranValidator().getVerse(1, 1)!.text;
+
+    it('should report a decision for every quote', () => {
+      const result = new LLMProcessor().process(`${misquote} and ${fabricated}`);
+
+      expect(result.decisions).toEqual([
+        { quoteIndex: 0, issue: 'diacritics', action: 'correct', changed: true, text: basmala },
+        { quoteIndex: 1, issue: 'fabricated', action: 'keep', changed: false },
+      ]);
+      expect(result.blocked).toBe(false);
+    });
+
+    it('should fix diacritics but strip fabricated quotes', () => {
+      const processor = new LLMProcessor({ policy: { fabricated: 'strip' } });
+      const text = `${misquote} and ${fabricated}.`;
+      const result = processor.process(text);
+
+      expect(result.correctedText).toBe(`<quran ref="1:1">${basmala}</quran> and .`);
+      expect(result.patches.map((p) => p.kind)).toEqual(['text', 'removed']);
+      expect(result.decisions[1]).toMatchObject({ action: 'strip', changed: true, text: '' });
+      expect(applyPatches(text, result.patches)).toBe(result.correctedText);
+    });
+
+    it('should redact with the placeholder', () => {
+      const processor = new LLMProcessor({
+        policy: { fabricated: 'redact' },
+        placeholder: (quote) => `[removed ${quote.citedReference}]`,
+      });
+      const result = processor.process(`See ${fabricated}`);
+
+      expect(result.correctedText).toBe('See [removed 2:100]');
+      expect(result.patches[0].kind).toBe('redacted');
+      expect(result.patches[0].reason).toBe('Redacted fabricated quote');
+    });
+
+    it('should keep issues the policy says to keep', () => {
+      const processor = new LLMProcessor({ policy: { diacritics: 'keep' } });
+      const result = processor.process(misquote);
+
+      expect(result.correctedText).toBe(misquote);
+      expect(result.patches).toEqual([]);
+      expect(result.decisions[0]).toMatchObject({ issue: 'diacritics', action: 'keep', changed: false });
+    });
+
+    it('should apply the policy when autoCorrect is disabled', () => {
+      const processor = new LLMProcessor({ autoCorrect: false, policy: { fabricated: 'strip' } });
+      const result = processor.process(`${misquote}${fabricated}`);
+
+      expect(result.correctedText).toBe(misquote);
+    });
+
+    it('should replace a quote with the text of its cited verse', () => {
+      const processor = new LLMProcessor({ policy: { 'wrong-reference': 'replace' } });
+      const result = processor.process(`<quran ref="1:2">${basmala}</quran>`);
+      const verse = new QuranValidator().getVerse(1, 2)!.text;
+
+      expect(result.correctedText).toBe(`<quran ref="1:2">${verse}</quran>`);
+      expect(result.decisions[0]).toMatchObject({
+        issue: 'wrong-reference',
+        action: 'replace',
+        text: verse,
+      });
+    });
+
+    it('should leave a quote alone when a replacement is not possible', () => {
+      const processor = new LLMProcessor({ policy: { 'invalid-reference': 'replace' } });
+      const text = `<quran ref="999:1">${basmala}</quran>`;
+      const result = processor.process(text);
+
+      expect(result.correctedText).toBe(text);
+      expect(result.decisions[0]).toMatchObject({ issue: 'invalid-reference', changed: false });
+    });
+
+    it('should block the whole response', () => {
+      const processor = new LLMProcessor({ policy: { fabricated: 'block' } });
+      const result = processor.process(`Intro. ${misquote} ${fabricated}`);
+
+      expect(result.blocked).toBe(true);
+      expect(result.correctedText).toBe('');
+      expect(result.decisions[1].action).toBe('block');
+      expect(result.warnings.some((w) => w.startsWith('Response blocked'))).toBe(true);
+    });
+  });
+
+  describe('referenceStyle option', () => {
+    it('should write corrected tags in the configured style', () => {
+      const arabicProcessor = new LLMProcessor({ referenceStyle: 'arabic' });
+      const result = arabicProcessor.process('<quran ref="112:1">قل هو الله أحد</quran>');
+
+      expect(result.quotes[0].wasCorrected).toBe(true);
+      expect(result.correctedText).toContain('<quran ref="الإخلاص: ١">');
+    });
+
+    it('should expose the formatted reference on each quote', () => {
+      const academic = new LLMProcessor({ referenceStyle: 'academic' });
+      const result = academic.process('<quran ref="Al-Ikhlas 1">قُلْ هُوَ ٱللَّهُ أَحَدٌ</quran>');
+
+      expect(result.quotes[0].reference).toBe('112:1');
+      expect(result.quotes[0].formattedReference).toBe('Q. 112:1');
+    });
+
+    it('should keep unparseable references as cited', () => {
+      const english = new LLMProcessor({ referenceStyle: 'english' });
+      const result = english.process('<quran ref="999:999">كلام غير موجود في القرآن الكريم</quran>');
+
+      expect(result.quotes[0].formattedReference).toBe('999:999');
+    });
+  });
+
+  describe('translations', () => {
+    it('should attach the translation to valid quotes', () => {
+      const validator = new QuranValidator();
+      validator.registerTranslation({
+        id: 'test-en',
+        name: 'Test English',
+        language: 'en',
+        verses: { [validator.getVerse(112, 1)!.id]: 'Say, He is Allah, the One.' },
+      });
+      const translated = new LLMProcessor({ validator });
+
+      const result = translated.process('<quran ref="112:1">قل هو الله أحد</quran>');
+
+      expect(result.quotes[0].translation?.text).toBe('Say, He is Allah, the One.');
+    });
   });
 
   describe('validateQuote()', () => {
@@ -158,6 +413,175 @@ describe('LLMProcessor', () => {
       expect(prompt).toContain('```quran');
     });
   });
+
+  describe('create()', () => {
+    it('should load the configured riwayat on demand', async () => {
+      const multi = await LLMProcessor.create({ riwayat: ['hafs', 'warsh'] });
+      const result = multi.process('<quran>مَلِكِ يَوْمِ اِ۬لدِّينِۖ</quran>');
+
+      expect(result.quotes[0].isValid).toBe(true);
+    });
+
+    it('should reuse a provided validator', async () => {
+      const validator = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
+      const shared = new LLMProcessor({ validator });
+      const result = shared.process('<quran>مَلِكِ يَوْمِ اِ۬لدِّينِۖ</quran>');
+
+      expect(result.quotes[0].isValid).toBe(true);
+    });
+  });
+});
+
+describe('custom tag formats', () => {
+  const basmala = new QuranValidator().getVerse(1, 1)!.text;
+
+  registerTagFormat({
+    name: 'test-braces',
+    systemPrompt: 'Quote the Quran as {{quran:SURAH:AYAH}}ARABIC_TEXT{{/quran}}',
+    extract: patternExtractor(/\{\{quran:([^}\n]+)\}\}([\s\S]*?)\{\{\/quran\}\}/),
+    format: (reference, text) => `{{quran:${reference}}}${text}{{/quran}}`,
+    delimiters: { open: '{{quran:', close: '{{/quran}}' },
+  });
+
+  it('should list built-in formats first', () => {
+    expect(getTagFormats().slice(0, 4)).toEqual(['xml', 'markdown', 'bracket', 'json']);
+    expect(getTagFormat('xml')?.systemPrompt).toBe(SYSTEM_PROMPTS.xml);
+  });
+
+  it('should read the citations SYSTEM_PROMPTS.json asks for', () => {
+    const processor = new LLMProcessor({ tagFormat: 'json' });
+    const response = JSON.stringify({
+      answer: 'The Quran opens with the basmala.',
+      citations: [{ ref: '1:2', arabic: 'بسم ٱلله ٱلرحمٰن ٱلرحيم' }],
+    });
+    const result = processor.process(response);
+
+    expect(processor.getSystemPrompt()).toBe(SYSTEM_PROMPTS.json);
+    expect(result.quotes.map((q) => [q.detectionMethod, q.reference])).toEqual([['tagged', '1:1']]);
+    expect(JSON.parse(result.correctedText)).toEqual({
+      answer: 'The Quran opens with the basmala.',
+      citations: [{ ref: '1:1', arabic: basmala }],
+    });
+  });
+
+  it('should extract, validate and rewrite quotes in a registered format', () => {
+    const processor = new LLMProcessor({ tagFormat: 'test-braces' });
+    const result = processor.process('See {{quran:1:2}}بسم ٱلله ٱلرحمٰن ٱلرحيم{{/quran}}.');
+
+    expect(result.quotes[0].detectionMethod).toBe('tagged');
+    expect(result.quotes[0].reference).toBe('1:1');
+    expect(result.correctedText).toBe(`See {{quran:1:1}}${basmala}{{/quran}}.`);
+    expect(processor.getSystemPrompt()).toContain('{{quran:');
+  });
+
+  it('should accept a format object without registering it', () => {
+    const json: TagFormat = {
+      name: 'json-span',
+      systemPrompt: 'Quote the Quran as {"quran":"SURAH:AYAH","text":"ARABIC_TEXT"}',
+      extract: patternExtractor(/\{"quran":"([^"]+)","text":"([^"]*)"\}/),
+      format: (reference, text) => JSON.stringify({ quran: reference, text }),
+      delimiters: { open: '{"quran"', close: '"}' },
+    };
+    const result = new LLMProcessor({ tagFormat: json }).process(
+      '{"quran":"1:1","text":"بسم ٱلله ٱلرحمٰن ٱلرحيم"}'
+    );
+
+    expect(result.correctedText).toBe(JSON.stringify({ quran: '1:1', text: basmala }));
+    expect(getTagFormat('json-span')).toBeUndefined();
+  });
+
+  it('should reject unknown and duplicate formats', () => {
+    expect(() => new LLMProcessor({ tagFormat: 'nope' })).toThrow('Unknown tag format: nope');
+    expect(() => registerTagFormat({ ...getTagFormat('xml')! })).toThrow('already registered');
+  });
+});
+
+describe('processStructured()', () => {
+  const validator = new QuranValidator();
+  const processor = new LLMProcessor({ validator });
+  const basmala = validator.getVerse(1, 1)!.text;
+  const ikhlas = validator.getVerseRange(112, 1, 2)!.text;
+
+  it('should correct citations and report each path', () => {
+    const response = {
+      answer: 'The opening verse.',
+      citations: [
+        { ref: '1:1', arabic: 'بسم ٱلله ٱلرحمٰن ٱلرحيم' },
+        { ref: '112:1-2', arabic: ikhlas },
+      ],
+    };
+
+    const result = processor.processStructured(response);
+
+    expect(result.data.citations[0].arabic).toBe(basmala);
+    expect(result.data.citations[1].arabic).toBe(ikhlas);
+    expect(result.data.answer).toBe('The opening verse.');
+    expect(result.report.map((r) => r.path)).toEqual(['citations[0]', 'citations[1]']);
+    expect(result.report[0].wasCorrected).toBe(true);
+    expect(result.report[1].wasCorrected).toBe(false);
+    expect(result.allValid).toBe(false);
+    // The input is left untouched
+    expect(response.citations[0].arabic).toBe('بسم ٱلله ٱلرحمٰن ٱلرحيم');
+  });
+
+  it('should fix the reference of an authentic quote cited under the wrong verse', () => {
+    const result = processor.processStructured({ citations: [{ ref: '2:255', arabic: basmala }] });
+
+    expect(result.report[0].isValid).toBe(true);
+    expect(result.report[0].correctedReference).toBe('1:1');
+    expect(result.report[0].correctedText).toBeUndefined();
+    expect(result.data.citations[0].ref).toBe('1:1');
+  });
+
+  it('should report fabricated citations without changing them', () => {
+    const fabricated = 'هذا نص مزيف لا يوجد في القرآن الكريم أبداً';
+    const result = processor.processStructured({ citations: [{ ref: '2:100', arabic: fabricated }] });
+
+    expect(result.report[0].isValid).toBe(false);
+    expect(result.report[0].validation.expectedNormalized).toBeDefined();
+    expect(result.data.citations[0].arabic).toBe(fabricated);
+    expect(result.allValid).toBe(false);
+  });
+
+  it('should follow custom paths and field names', () => {
+    const response = {
+      sections: [
+        { verses: [{ reference: 'Al-Fatiha 1', text: basmala }] },
+        { verses: [{ reference: '112:1', text: 'قل هو الله أحد' }] },
+      ],
+    };
+
+    const result = processor.processStructured(response, {
+      citations: ['sections[*].verses[*]'],
+      referenceField: 'reference',
+      textField: 'text',
+    });
+
+    expect(result.report.map((r) => r.path)).toEqual([
+      'sections[0].verses[0]',
+      'sections[1].verses[0]',
+    ]);
+    expect(result.report[0].wasCorrected).toBe(false);
+    expect(result.data.sections[1].verses[0].text).toBe(validator.getVerse(112, 1)!.text);
+  });
+
+  it('should warn about citations missing their fields', () => {
+    const result = processor.processStructured({ citations: [{ ref: '1:1' }] });
+
+    expect(result.report).toEqual([]);
+    expect(result.warnings).toEqual([
+      'Citation at citations[0] needs string "ref" and "arabic" fields',
+    ]);
+  });
+
+  it('should leave data unchanged when autoCorrect is disabled', () => {
+    const result = new LLMProcessor({ validator, autoCorrect: false }).processStructured({
+      citations: [{ ref: '1:1', arabic: 'بسم ٱلله ٱلرحمٰن ٱلرحيم' }],
+    });
+
+    expect(result.report[0].correctedText).toBe(basmala);
+    expect(result.data.citations[0].arabic).toBe('بسم ٱلله ٱلرحمٰن ٱلرحيم');
+  });
 });
 
 describe('SYSTEM_PROMPTS', () => {
@@ -173,6 +597,11 @@ describe('SYSTEM_PROMPTS', () => {
     expect(SYSTEM_PROMPTS.bracket).toContain('[[Q:');
   });
 
+  it('should have JSON prompt matching the citation schema', () => {
+    expect(SYSTEM_PROMPTS.json).toContain('"citations"');
+    expect(QURAN_CITATION_SCHEMA.required).toEqual(['ref', 'arabic']);
+  });
+
   it('should have minimal prompt', () => {
     expect(SYSTEM_PROMPTS.minimal).toContain('parentheses');
   });
@@ -364,6 +793,19 @@ describe('fabricated/invalid text detection', () => {
     expect(result.quotes[0].fabricationAnalysis!.words[3].isFabricated).toBe(true);
   });
 
+  it('should place fabricated words at their position in the response', () => {
+    const text = `As it says: <quran ref="1:1">بسم الله الفلان</quran>`;
+
+    const result = processor.process(text);
+    const words = result.quotes[0].fabricationAnalysis!.words;
+
+    expect(words.map((w) => text.slice(w.startIndex, w.endIndex))).toEqual([
+      'بسم',
+      'الله',
+      'الفلان',
+    ]);
+  });
+
   it('should not include fabrication analysis for valid quotes', () => {
     // Valid verse
     const validText = `<quran ref="112:1">قُلْ هُوَ ٱللَّهُ أَحَدٌ</quran>`;
@@ -498,3 +940,316 @@ describe('tagged quote reference handling (regression tests)', () => {
     expect(result.quotes[0].isValid).toBe(false);
   });
 });
+
+describe('ayah markers in quotes', () => {
+  const processor = new LLMProcessor();
+  const validator = new QuranValidator();
+  const verse = (surah: number, ayah: number) => validator.getVerse(surah, ayah)!.text;
+
+  it('should check the ayah numbers written in a quote', () => {
+    const result = processor.process(`<quran ref="1:1-2">${verse(1, 1)} ﴿١﴾ ${verse(1, 2)} ﴿٢﴾</quran>`);
+    const [quote] = result.quotes;
+
+    expect(quote.isValid).toBe(true);
+    expect(quote.ayahMarkers!.map((m) => m.isCorrect)).toEqual([true, true]);
+    expect(result.decisions[0].issue).toBe('diacritics');
+  });
+
+  it('should treat a wrong ayah number as a wrong reference', () => {
+    const result = processor.process(`<quran ref="1:1-2">${verse(1, 1)} ﴿١﴾ ${verse(1, 2)} ﴿٣﴾</quran>`);
+
+    expect(result.quotes[0].reference).toBe('1:1-2');
+    expect(result.decisions[0].issue).toBe('wrong-reference');
+    expect(result.warnings).toContainEqual(expect.stringContaining('does not end 1:3'));
+  });
+
+  it('should read markers in untagged quotes too', () => {
+    const text = 'Allah says: قل هو الله أحد ١ الله الصمد ٢ and more';
+    const result = processor.process(text);
+    const [quote] = result.quotes;
+
+    expect(quote.reference).toBe('112:1-2');
+    expect(quote.ayahMarkers!.map((m) => m.impliedReference)).toEqual(['112:1', '112:2']);
+    expect(quote.ayahMarkers!.map((m) => text.slice(m.startIndex, m.endIndex))).toEqual(['١', '٢']);
+  });
+
+  it('should place markers at their position in the response', () => {
+    const text = `Read <quran ref="1:1-2">${verse(1, 1)} ﴿١﴾ ${verse(1, 2)} ﴿٢﴾</quran>`;
+    const [quote] = processor.process(text).quotes;
+
+    expect(quote.ayahMarkers!.map((m) => text.slice(m.startIndex, m.endIndex))).toEqual([
+      '﴿١﴾',
+      '﴿٢﴾',
+    ]);
+  });
+});
+
+describe('transliterated quote detection', () => {
+  const validator = new QuranValidator();
+  const processor = new LLMProcessor({ validator, scanTransliterated: true });
+
+  it('should detect verses written in Latin script', () => {
+    const text =
+      'Muslims say Bismillahir rahmanir rahim before eating. ' +
+      'Surah Al-Ikhlas begins: Qul huwa Allahu ahad.';
+    const result = processor.process(text);
+
+    expect(result.quotes.map((q) => [q.original, q.reference, q.detectionMethod])).toEqual([
+      ['Bismillahir rahmanir rahim', '1:1', 'transliterated'],
+      ['Qul huwa Allahu ahad', '112:1', 'transliterated'],
+    ]);
+    expect(result.quotes[1].arabic).toBe(validator.getVerse(112, 1)!.text);
+    expect(text.slice(result.quotes[1].startIndex, result.quotes[1].endIndex)).toBe(
+      'Qul huwa Allahu ahad'
+    );
+    expect(result.correctedText).toBe(text);
+  });
+
+  it('should leave plain English alone', () => {
+    const result = processor.process(
+      'The history of the region is long, with many empires rising and falling over the centuries.'
+    );
+
+    expect(result.quotes).toEqual([]);
+  });
+
+  it('should only scan when enabled', () => {
+    expect(new LLMProcessor({ validator }).process('Qul huwa Allahu ahad.').quotes).toEqual([]);
+  });
+
+  it('should format the reference and attach the translation like other quotes', () => {
+    const translated = new QuranValidator();
+    translated.registerTranslation({
+      id: 'test-en',
+      name: 'Test English',
+      language: 'en',
+      verses: { [translated.getVerse(112, 1)!.id]: 'Say, He is Allah, the One.' },
+    });
+    const result = new LLMProcessor({
+      validator: translated,
+      scanTransliterated: true,
+      referenceStyle: 'english',
+    }).process('He recited: Qul huwa Allahu ahad.');
+
+    expect(result.quotes[0].detectionMethod).toBe('transliterated');
+    expect(result.quotes[0].formattedReference).toBe('Al-Ikhlas 1');
+    expect(result.quotes[0].translation?.text).toBe('Say, He is Allah, the One.');
+  });
+
+  it('should replace transliterations with Arabic when the policy says so', () => {
+    const result = new LLMProcessor({
+      validator,
+      scanTransliterated: true,
+      policy: { untagged: 'replace' },
+    }).process('He recited: Qul huwa Allahu ahad.');
+
+    expect(result.correctedText).toBe(`He recited: ${validator.getVerse(112, 1)!.text}.`);
+  });
+});
+
+describe('script option', () => {
+  const validator = new QuranValidator();
+  const ikhlasImlaei = 'قُلْ هُوَ اللَّهُ أَحَدٌ';
+  const nfc = (text: string) => text.normalize('NFC');
+
+  it('should correct quotes into Uthmani script by default', () => {
+    const result = new LLMProcessor({ validator }).process(
+      '<quran ref="112:1">قل هو الله أحد</quran>'
+    );
+
+    expect(result.quotes[0].corrected).toBe(validator.getVerse(112, 1)!.text);
+  });
+
+  it('should correct quotes into Imlaei script', () => {
+    const processor = new LLMProcessor({ validator, script: 'imlaei' });
+    const result = processor.process('<quran ref="112:1">قل هو الله أحد</quran>');
+
+    expect(nfc(result.quotes[0].corrected)).toBe(ikhlasImlaei);
+    expect(nfc(result.correctedText)).toBe(`<quran ref="112:1">${ikhlasImlaei}</quran>`);
+  });
+
+  it('should treat a quote already correct in either script as exact', () => {
+    const processor = new LLMProcessor({ validator, script: 'imlaei' });
+    const corrected = processor.process('<quran ref="112:1">قل هو الله أحد</quran>').quotes[0]
+      .corrected;
+    const imlaei = processor.process(`<quran ref="112:1">${corrected}</quran>`);
+    const uthmani = processor.process(
+      `<quran ref="112:1">${validator.getVerse(112, 1)!.text}</quran>`
+    );
+
+    expect(imlaei.quotes[0].wasCorrected).toBe(false);
+    expect(uthmani.quotes[0].wasCorrected).toBe(false);
+  });
+
+  it('should accept its own Imlaei corrections of verses with a dropped dagger alif', () => {
+    const corrected = new LLMProcessor({ validator, script: 'imlaei' }).process(
+      '<quran ref="2:2">ذالك الكتاب لا ريب فيه هدى للمتقين</quran>'
+    ).quotes[0].corrected;
+
+    expect(nfc(corrected)).toBe('ذَلِكَ الْكِتَابُ لَا رَيْبَ فِيهِ هُدًى لِلْمُتَّقِينَ');
+    const result = new LLMProcessor({ validator }).process(`<quran ref="2:2">${corrected}</quran>`);
+    expect(result.quotes[0].isValid).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should keep Imlaei input Imlaei with preserve-input', () => {
+    const processor = new LLMProcessor({ validator, script: 'preserve-input' });
+    const result = processor.process('<quran ref="1:1">بسم الله الرحمن الرحيم</quran>');
+
+    expect(result.quotes[0].isValid).toBe(true);
+    expect(nfc(result.quotes[0].corrected)).toBe('بِسْمِ اللَّهِ الرَّحْمَنِ الرَّحِيمِ');
+  });
+
+  it('should follow the script of each quote with preserve-input', () => {
+    const processor = new LLMProcessor({ validator, script: 'preserve-input' });
+    const result = processor.process(
+      '<quran ref="112:1">قل هو الله أحد</quran> and ' +
+        '<quran ref="1:2">ٱلْحَمْدُ لِلَّهِ رب العالمين</quran>'
+    );
+
+    expect(nfc(result.quotes[0].corrected)).toBe(ikhlasImlaei);
+    expect(result.quotes[1].corrected).toBe(validator.getVerse(1, 2)!.text);
+  });
+
+  it('should apply the script to corrections of untagged quotes', () => {
+    const result = new LLMProcessor({ validator, script: 'imlaei' }).process(
+      'Allah says: قل هو الله أحد'
+    );
+
+    expect(nfc(result.correctedText)).toBe('Allah says: قُلْ هُوَ اللَّهُ أَحَدٌ');
+  });
+});
+
+describe('translated quote validation', () => {
+  const validator = new QuranValidator();
+  const id = (surah: number, ayah: number) => validator.getVerse(surah, ayah)!.id;
+  validator.registerTranslation({
+    id: 'test-en',
+    name: 'Test English',
+    language: 'en',
+    verses: {
+      [id(2, 255)]:
+        'Allah - there is no deity except Him, the Ever-Living, the Sustainer of existence. ' +
+        'Neither drowsiness overtakes Him nor sleep.',
+      [id(2, 256)]:
+        'There shall be no compulsion in the religion. The right course has become clear from the wrong.',
+      [id(112, 1)]: 'Say, He is Allah, the One.',
+      [id(112, 2)]: 'Allah, the Eternal Refuge.',
+    },
+  });
+  const processor = new LLMProcessor({ validator, validateTranslations: true });
+
+  it('should accept a translation that matches the cited verse', () => {
+    const text =
+      'The Throne Verse (2:255) Allah - there is no deity except Him, the Ever-Living, ' +
+      'the Sustainer of existence.';
+
+    const result = processor.process(text);
+    const quote = result.quotes[0];
+
+    expect(quote.detectionMethod).toBe('translation');
+    expect(quote.isValid).toBe(true);
+    expect(quote.reference).toBe('2:255');
+    expect(quote.translationValidation?.status).toBe('matched');
+    expect(result.allValid).toBe(true);
+  });
+
+  it('should not read numbers in brackets in ordinary prose as references', () => {
+    const text =
+      'Knead the dough slowly (12). Then bake it for an hour (2020). ' +
+      'Serve it warm with tea (1 7), and enjoy it with the whole family.';
+
+    const result = processor.process(text);
+
+    expect(result.quotes).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.allValid).toBe(true);
+  });
+
+  it('should not start a translation with the punctuation after its reference', () => {
+    const result = processor.process(
+      'See (2:256). There shall be no compulsion in the religion. The right course has become clear from the wrong.'
+    );
+
+    expect(result.quotes[0].original).toBe(
+      'There shall be no compulsion in the religion. The right course has become clear from the wrong.'
+    );
+  });
+
+  it('should find quoted translations before the reference', () => {
+    const result = processor.process('He said "There shall be no compulsion in the religion" (2:256).');
+
+    expect(result.quotes[0].translationValidation?.status).toBe('matched');
+    expect(result.quotes[0].original).toBe('There shall be no compulsion in the religion');
+  });
+
+  it('should stop unquoted translations before trailing commentary', () => {
+    const text =
+      '(2:256) There shall be no compulsion in the religion. ' +
+      'Scholars have discussed this verse at great length over many centuries.';
+
+    const result = processor.process(text);
+
+    expect(result.quotes[0].isValid).toBe(true);
+    expect(result.quotes[0].original).toBe('There shall be no compulsion in the religion.');
+  });
+
+  it('should flag and fix a translation attached to the wrong verse', () => {
+    const result = processor.process('Quran 2:256: "There is no deity except Him, the Ever-Living"');
+    const quote = result.quotes[0];
+
+    expect(quote.translationValidation?.status).toBe('wrong-reference');
+    expect(quote.translationValidation?.actualReference).toBe('2:255');
+    expect(quote.reference).toBe('2:255');
+    expect(quote.wasCorrected).toBe(true);
+    expect(result.correctedText).toContain('Quran 2:255:');
+    expect(result.warnings.some((w) => w.includes('matches 2:255'))).toBe(true);
+  });
+
+  it('should fix the reference next to the quote, not an earlier mention', () => {
+    const text = 'Compare Quran 2:256 with Quran 2:256: "There is no deity except Him, the Ever-Living"';
+    const result = processor.process(text);
+
+    expect(result.correctedText).toBe(
+      'Compare Quran 2:256 with Quran 2:255: "There is no deity except Him, the Ever-Living"'
+    );
+    expect(result.patches[0].kind).toBe('reference');
+    expect(result.patches[0].original).toBe('Quran 2:256');
+  });
+
+  it('should flag translations that match no verse', () => {
+    const result = processor.process(
+      '(2:255) Whoever plants a tree shall be rewarded with palaces of gold.'
+    );
+    const quote = result.quotes[0];
+
+    expect(quote.isValid).toBe(false);
+    expect(quote.translationValidation?.status).toBe('unmatched');
+    expect(result.allValid).toBe(false);
+    expect(result.warnings.some((w) => w.includes('does not match any known translation'))).toBe(
+      true
+    );
+  });
+
+  it('should ignore references without a translated quote', () => {
+    const result = processor.process('See (2:255) for more.');
+
+    expect(result.quotes).toEqual([]);
+  });
+
+  it('should be off by default', () => {
+    const result = new LLMProcessor({ validator }).process(
+      '(2:255) Whoever plants a tree shall be rewarded with palaces of gold.'
+    );
+
+    expect(result.quotes).toEqual([]);
+  });
+
+  it('should warn when no translation pack is registered', () => {
+    const result = new LLMProcessor({ validateTranslations: true }).process('(2:255) Some text here.');
+
+    expect(result.warnings).toContain(
+      'Translation validation is enabled but no translation pack is registered'
+    );
+  });
+});
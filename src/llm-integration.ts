@@ -8,8 +8,33 @@
  */
 
 import { QuranValidator } from './validator';
-import { normalizeArabic } from './normalizer';
-import type { FabricationAnalysis, RiwayaId } from './types';
+import { normalizeArabic, containsArabic } from './normalizer';
+import { formatReference, parseSingleReference, toAsciiDigits } from './reference-parser';
+import { resolveTagFormat } from './tag-formats';
+import { classifyQuote, resolvePolicy } from './policy';
+import { toScript } from './script';
+import { hasTashkeel } from './tashkeel';
+import { hasAyahMarkers } from './ayah-markers';
+import { cloneJson, isRecord, resolvePath } from './structured';
+import type { StructuredCitationReport, StructuredOutput, StructuredSchema } from './structured';
+import type { TagFormat } from './tag-formats';
+import type { CorrectionPolicy, PolicyAction, PolicyDecision, QuoteIssue } from './policy';
+import type {
+  AyahMarker,
+  FabricationAnalysis,
+  QuranReference,
+  ReferenceFormatter,
+  ReferenceStyle,
+  RiwayaId,
+  ScriptOption,
+  TashkeelAnalysis,
+  TranslationValidation,
+  TransliterationValidation,
+  ValidationResult,
+  VerseTranslation,
+} from './types';
+
+export { SYSTEM_PROMPTS } from './tag-formats';
 
 /**
  * Result of processing LLM output for Quran validation
@@ -21,10 +46,36 @@ export interface ProcessedOutput {
   allValid: boolean;
   /** Details about each detected quote */
   quotes: QuoteAnalysis[];
+  /** Corrections applied to the input to produce correctedText, in text order */
+  patches: CorrectionPatch[];
+  /** What the correction policy did with each quote, in the order of quotes */
+  decisions: PolicyDecision[];
+  /** Whether the policy blocked the response; correctedText is then empty */
+  blocked: boolean;
   /** Warnings about potential issues */
   warnings: string[];
 }
 
+/**
+ * A single correction, as a replacement of a span of the original text
+ */
+export interface CorrectionPatch {
+  /** Start of the replaced span in the original text */
+  startIndex: number;
+  /** End of the replaced span in the original text (exclusive) */
+  endIndex: number;
+  /** Text of the span before correction */
+  original: string;
+  /** Text the span was replaced with */
+  replacement: string;
+  /** What was corrected, or whether the quote was removed or redacted by the policy */
+  kind: 'text' | 'reference' | 'text-and-reference' | 'removed' | 'redacted';
+  /** Why it was corrected */
+  reason: string;
+  /** Index of the corrected quote in ProcessedOutput.quotes */
+  quoteIndex: number;
+}
+
 /**
  * Analysis of a single Quran quote
  */
@@ -37,8 +88,12 @@ export interface QuoteAnalysis {
   isValid: boolean;
   /** Reference if identified (e.g., "2:255") */
   reference?: string;
+  /** Reference as cited in the text, before any correction (tagged and translated quotes) */
+  citedReference?: string;
+  /** Reference rendered in the processor's referenceStyle (e.g., "البقرة: ٢٥٥") */
+  formattedReference?: string;
   /** How this quote was detected */
-  detectionMethod: 'tagged' | 'contextual' | 'fuzzy';
+  detectionMethod: 'tagged' | 'contextual' | 'fuzzy' | 'translation' | 'transliterated';
   /** Position in original text */
   startIndex: number;
   endIndex: number;
@@ -48,8 +103,18 @@ export interface QuoteAnalysis {
   normalizedInput?: string;
   /** Expected normalized text when validation fails */
   expectedNormalized?: string;
-  /** Word-level fabrication analysis (only for invalid quotes) */
+  /** Word-level fabrication analysis, with word positions in the processed text (only for invalid quotes) */
   fabricationAnalysis?: FabricationAnalysis;
+  /** Letter-by-letter tashkeel comparison, with input positions in the processed text (only for vowelled quotes corrected to their verse) */
+  tashkeel?: TashkeelAnalysis;
+  /** Ayah-end markers written in the quote, with positions in the processed text (only for Arabic quotes that have markers) */
+  ayahMarkers?: AyahMarker[];
+  /** Translation of the verse(s), when the validator has a translation pack registered (only for valid quotes) */
+  translation?: VerseTranslation;
+  /** How a translated quote compares with the known translations (only for 'translation' quotes) */
+  translationValidation?: TranslationValidation;
+  /** Canonical Arabic text of the verse (only for 'transliterated' quotes) */
+  arabic?: string;
 }
 
 /**
@@ -60,10 +125,31 @@ export interface LLMProcessorOptions {
   autoCorrect?: boolean;
   /** Include untagged Arabic text in scan (default: true) */
   scanUntagged?: boolean;
-  /** Tag format to look for (default: 'xml') */
-  tagFormat?: 'xml' | 'markdown' | 'bracket';
+  /** Tag format to look for: a registered name ('xml', 'markdown', 'bracket', ...) or a format object (default: 'xml') */
+  tagFormat?: string | TagFormat;
   /** Which riwayat to load for validation (default: ['hafs']) */
   riwayat?: RiwayaId[];
+  /** Validator to use instead of creating one (e.g. from QuranValidator.create()) */
+  validator?: QuranValidator;
+  /** Citation style for corrected tags and formattedReference (default: 'numeric') */
+  referenceStyle?: ReferenceStyle | ReferenceFormatter;
+  /** Check translated quotes next to references against the validator's translation packs (default: false) */
+  validateTranslations?: boolean;
+  /** Detect whole verses written in Latin script, e.g. "Qul huwa Allahu ahad" (default: false) */
+  scanTransliterated?: boolean;
+  /**
+   * Action for each kind of quote issue, overriding the defaults: with
+   * autoCorrect, correct everything correctable and keep fabricated quotes;
+   * without it, keep everything
+   */
+  policy?: CorrectionPolicy;
+  /** Text that replaces a redacted quote (default: '[quote removed]') */
+  placeholder?: string | ((quote: QuoteAnalysis) => string);
+  /**
+   * Script of corrected text: 'uthmani', 'imlaei', or 'preserve-input' for
+   * the script each quote was written in (default: 'uthmani')
+   */
+  script?: ScriptOption;
 }
 
 /**
@@ -79,100 +165,154 @@ const QURAN_CONTEXT_PATTERNS = [
   /\[[\w\-]+:\d+(?:-\d+)?\]/g,
 ];
 
+// Inline references after Arabic text, e.g. "text (1:1)" or "text (1:1-3)"
+const INLINE_REF_PATTERN =
+  /([\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF][\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF\s]*)\s*\((\d+:\d+(?:-\d+)?)\)/g;
+
 /**
- * System prompts for LLMs to properly format Quran quotes
+ * A reference in brackets, e.g. "(2:255)" or "[Al-Baqarah 255]", or a
+ * prefixed one such as "Quran 2:255" (bare numbers could be times)
  */
-export const SYSTEM_PROMPTS = {
-  /**
-   * XML-style tagging (recommended)
-   */
-  xml: `When quoting verses from the Quran, you MUST use this exact format:
-<quran ref="SURAH:AYAH">ARABIC_TEXT</quran>
-
-For multiple consecutive verses, use a range:
-<quran ref="SURAH:START-END">ARABIC_TEXT</quran>
-
-Examples:
-<quran ref="1:1">بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ</quran>
-<quran ref="112:1-4">قُلْ هُوَ ٱللَّهُ أَحَدٌ ٱللَّهُ ٱلصَّمَدُ لَمْ يَلِدْ وَلَمْ يُولَدْ وَلَمْ يَكُن لَّهُۥ كُفُوًا أَحَدٌۢ</quran>
+const REFERENCE_TOKEN =
+  /[(\[]\s*([^()[\]\n]{1,40}?)\s*[)\]]|\b(?:Q\.?|Qur'?an|S[uū]rah?)\s+(\d{1,3}:\d{1,3}(?:-\d{1,3})?)(?!\d|:\d)/gi;
+
+// Bracketed text that can be a citation: "2:255", or a surah name and a
+// number such as "Al-Baqarah 255"; footnote numbers and years are not
+const CITATION_LIKE = /^(?:\d{1,3}\s*:\s*\d{1,3}(?:\s*-\s*\d{1,3})?|\p{L}.*\d)$/u;
+
+// A quoted translation right before or after a reference
+const QUOTED_BEFORE = /["“]([^"“”\n]+)["”]\s*[,:\-–—]?\s*$/;
+const QUOTED_AFTER = /^\s*[,:\-–—]?\s*["“]([^"“”\n]+)["”]/;
+// Unquoted text following a reference, up to the end of the line
+const TEXT_AFTER = /^[ \t]*[,:\-–—]?[ \t]*([^\n]+)/;
+
+const MIN_TRANSLATED_WORDS = 4;
+const MAX_TRANSLATED_SENTENCES = 5;
+
+// A run of Latin-script text between punctuation, including chat-spelling digits
+const LATIN_SEGMENT =
+  /[A-Za-z\u00C0-\u024F\u1E00-\u1EFF\u02BB-\u02BF'’‘`\d-](?:[A-Za-z\u00C0-\u024F\u1E00-\u1EFF\u02BB-\u02BF'’‘`\d -]*[A-Za-z\u00C0-\u024F\u1E00-\u1EFF\u02BB-\u02BF'’‘`\d])?/g;
+
+// English words that are never part of a transliterated verse; they split a clause into candidates
+const ENGLISH_WORDS = new Set([
+  'and', 'are', 'as', 'at', 'be', 'been', 'before', 'but', 'by', 'for', 'from', 'had',
+  'has', 'have', 'he', 'her', 'his', 'is', 'it', 'its', 'not', 'of', 'on', 'or', 'our',
+  'says', 'she', 'that', 'the', 'their', 'they', 'this', 'to', 'was', 'we', 'were',
+  'what', 'which', 'who', 'with', 'you', 'your',
+]);
+
+const MIN_TRANSLITERATED_WORDS = 2;
+// Shorter skeletons (e.g. "rhmn" for "ar-Rahman") are names, not quotes
+const MIN_TRANSLITERATION_KEY = 6;
+// Words of lead-in or commentary tried for removal around a transliterated quote
+const MAX_TRANSLITERATION_TRIM = 6;
 
-Rules:
-- Always include the reference (surah:ayah or surah:start-end for ranges)
-- Use the exact Arabic text with full diacritics if possible
-- Never paraphrase or partially quote without indication
-- If unsure of exact wording, say "approximately" before the quote`,
-
-  /**
-   * Markdown-style tagging
-   */
-  markdown: `When quoting verses from the Quran, use this format:
-\`\`\`quran ref="SURAH:AYAH"
-ARABIC_TEXT
-\`\`\`
-
-For verse ranges, use:
-\`\`\`quran ref="SURAH:START-END"
-ARABIC_TEXT
-\`\`\`
-
-Example:
-\`\`\`quran ref="112:1-4"
-قُلْ هُوَ ٱللَّهُ أَحَدٌ ٱللَّهُ ٱلصَّمَدُ لَمْ يَلِدْ وَلَمْ يُولَدْ وَلَمْ يَكُن لَّهُۥ كُفُوًا أَحَدٌۢ
-\`\`\``,
-
-  /**
-   * Bracket-style tagging (simpler)
-   */
-  bracket: `When quoting Quran verses, use: [[Q:SURAH:AYAH|ARABIC_TEXT]]
-For verse ranges: [[Q:SURAH:START-END|ARABIC_TEXT]]
-
-Example: [[Q:1:1|بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ]]
-Example range: [[Q:112:1-4|قُلْ هُوَ ٱللَّهُ أَحَدٌ ٱللَّهُ ٱلصَّمَدُ لَمْ يَلِدْ وَلَمْ يُولَدْ وَلَمْ يَكُن لَّهُۥ كُفُوًا أَحَدٌۢ]]`,
+/**
+ * A non-Arabic quote found next to a reference
+ */
+interface TranslatedQuote {
+  text: string;
+  /** The reference as written */
+  reference: string;
+  /** The reference including its brackets */
+  referenceToken: string;
+  /** Position of referenceToken in the text */
+  referenceIndex: number;
+  startIndex: number;
+  endIndex: number;
+}
 
-  /**
-   * Minimal instruction (for models that don't follow complex formats)
-   */
-  minimal: `Always cite Quran verses with their reference number in parentheses immediately after, like: "بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ (1:1)" or for ranges "... (112:1-4)"`,
-};
+/**
+ * Get the authentic text for a successful validation, joining all verses
+ * when the input spanned a range of consecutive ayat
+ *
+ * @param input - The quote being corrected, for the 'preserve-input' script
+ */
+function canonicalText(
+  validation: ValidationResult,
+  script: ScriptOption,
+  input: string
+): string | undefined {
+  const text = validation.verseMatches
+    ? validation.verseMatches.map((m) => m.matchedVerse!.text).join(' ')
+    : validation.matchedVerse?.text;
+  return text === undefined ? undefined : toScript(text, script, input);
+}
 
 /**
- * Regex patterns for extracting tagged quotes
- * Supports both single verses (1:1) and verse ranges (1:1-7, 107:1-3)
+ * Copy of a quote with the positions found within it (fabricated words,
+ * tashkeel errors, ayah markers) moved by `offset`
+ *
+ * The quote's own startIndex/endIndex are left as they are.
  */
-const TAG_PATTERNS = {
-  xml: /<quran\s+ref=["'](\d+:\d+(?:-\d+)?)["']>([\s\S]*?)<\/quran>/gi,
-  markdown: /```quran\s+ref=["'](\d+:\d+(?:-\d+)?)["']\n([\s\S]*?)\n```/gi,
-  bracket: /\[\[Q:(\d+:\d+(?:-\d+)?)\|([\s\S]*?)\]\]/gi,
-  // Also match inline references like "text (1:1)" or "text (1:1-3)"
-  inlineRef:
-    /([\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF][\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF\s]*)\s*\((\d+:\d+(?:-\d+)?)\)/g,
-};
+export function shiftQuotePositions(quote: QuoteAnalysis, offset: number): QuoteAnalysis {
+  const shifted = { ...quote };
+  if (quote.fabricationAnalysis) {
+    shifted.fabricationAnalysis = {
+      ...quote.fabricationAnalysis,
+      words: quote.fabricationAnalysis.words.map((word) => ({
+        ...word,
+        startIndex: word.startIndex + offset,
+        endIndex: word.endIndex + offset,
+      })),
+    };
+  }
+  if (quote.tashkeel) {
+    shifted.tashkeel = {
+      ...quote.tashkeel,
+      errors: quote.tashkeel.errors.map((error) => ({
+        ...error,
+        inputStart: error.inputStart + offset,
+        inputEnd: error.inputEnd + offset,
+      })),
+    };
+  }
+  if (quote.ayahMarkers) {
+    shifted.ayahMarkers = quote.ayahMarkers.map((marker) => ({
+      ...marker,
+      startIndex: marker.startIndex + offset,
+      endIndex: marker.endIndex + offset,
+    }));
+  }
+  return shifted;
+}
 
 /**
- * Parse a verse reference, supporting both single verses and ranges
- * @param ref - Reference string like "1:1" or "2:255-257"
- * @returns Parsed reference with surah, startAyah, and optional endAyah
+ * Apply correction patches to the text they were computed from, in one pass
+ *
+ * Patches are positioned in the original text, so any subset can be applied,
+ * e.g. to undo a single correction.
+ *
+ * @param text - The original text
+ * @param patches - Non-overlapping patches, in any order
+ * @returns The text with every patch applied
+ * @throws Error if two patches overlap
+ *
+ * @example
+ * ```ts
+ * const result = processor.process(llmResponse);
+ * const [undone, ...kept] = result.patches;
+ * const withoutFirst = applyPatches(llmResponse, kept);
+ * ```
  */
-function parseReference(ref: string): {
-  surah: number;
-  startAyah: number;
-  endAyah?: number;
-  isRange: boolean;
-} | null {
-  // Match patterns like "1:1" or "2:255-257"
-  const match = ref.match(/^(\d+):(\d+)(?:-(\d+))?$/);
-  if (!match) return null;
-
-  const surah = parseInt(match[1], 10);
-  const startAyah = parseInt(match[2], 10);
-  const endAyah = match[3] ? parseInt(match[3], 10) : undefined;
+export function applyPatches(
+  text: string,
+  patches: Pick<CorrectionPatch, 'startIndex' | 'endIndex' | 'replacement'>[]
+): string {
+  const sorted = [...patches].sort((a, b) => a.startIndex - b.startIndex);
+  const parts: string[] = [];
+  let position = 0;
+
+  for (const patch of sorted) {
+    if (patch.startIndex < position) {
+      throw new Error(`Overlapping patches at index ${patch.startIndex}`);
+    }
+    parts.push(text.slice(position, patch.startIndex), patch.replacement);
+    position = patch.endIndex;
+  }
+  parts.push(text.slice(position));
 
-  return {
-    surah,
-    startAyah,
-    endAyah,
-    isRange: endAyah !== undefined,
-  };
+  return parts.join('');
 }
 
 /**
@@ -200,25 +340,58 @@ function parseReference(ref: string): {
  */
 export class LLMProcessor {
   private validator: QuranValidator;
-  private options: Required<LLMProcessorOptions>;
+  private options: Required<
+    Omit<LLMProcessorOptions, 'validator' | 'tagFormat' | 'policy' | 'placeholder'>
+  >;
+  private tagFormat: TagFormat;
+  private policy: Record<QuoteIssue, PolicyAction>;
+  private placeholder: string | ((quote: QuoteAnalysis) => string);
 
   constructor(options: LLMProcessorOptions = {}) {
-    this.validator = new QuranValidator(
-      options.riwayat ? { riwayat: options.riwayat } : undefined
-    );
+    this.validator =
+      options.validator ??
+      new QuranValidator(options.riwayat ? { riwayat: options.riwayat } : undefined);
     this.options = {
       autoCorrect: options.autoCorrect ?? true,
       scanUntagged: options.scanUntagged ?? true,
-      tagFormat: options.tagFormat ?? 'xml',
       riwayat: options.riwayat ?? ['hafs'],
+      referenceStyle: options.referenceStyle ?? 'numeric',
+      validateTranslations: options.validateTranslations ?? false,
+      scanTransliterated: options.scanTransliterated ?? false,
+      script: options.script ?? 'uthmani',
     };
+    this.tagFormat = resolveTagFormat(options.tagFormat);
+    this.policy = resolvePolicy(this.options.autoCorrect, options.policy);
+    this.placeholder = options.placeholder ?? '[quote removed]';
+  }
+
+  /**
+   * Create a processor, loading any riwaya packs in `options.riwayat` on demand
+   *
+   * @example
+   * ```ts
+   * const processor = await LLMProcessor.create({ riwayat: ['hafs', 'warsh'] });
+   * ```
+   */
+  static async create(options: LLMProcessorOptions = {}): Promise<LLMProcessor> {
+    const validator =
+      options.validator ??
+      (await QuranValidator.create(options.riwayat ? { riwayat: options.riwayat } : undefined));
+    return new LLMProcessor({ ...options, validator });
   }
 
   /**
    * Get the recommended system prompt for the configured tag format
    */
   getSystemPrompt(): string {
-    return SYSTEM_PROMPTS[this.options.tagFormat];
+    return this.tagFormat.systemPrompt;
+  }
+
+  /**
+   * Get the validator this processor checks quotes against
+   */
+  getValidator(): QuranValidator {
+    return this.validator;
   }
 
   /**
@@ -230,26 +403,38 @@ export class LLMProcessor {
   process(text: string): ProcessedOutput {
     const quotes: QuoteAnalysis[] = [];
     const warnings: string[] = [];
-    let correctedText = text;
+    const patches: CorrectionPatch[] = [];
+    // Possible correction of each quote, applied if the policy says so
+    const corrections = new Map<number, CorrectionPatch>();
 
     // Step 1: Extract and validate tagged quotes
     const taggedQuotes = this.extractTaggedQuotes(text);
     for (const tagged of taggedQuotes) {
-      const analysis = this.analyzeQuote(
-        tagged.text,
-        tagged.reference,
-        tagged.startIndex,
-        tagged.endIndex,
-        'tagged'
-      );
+      if (!parseSingleReference(tagged.reference)) {
+        warnings.push(`Unrecognized verse reference: "${tagged.reference}"`);
+      }
+
+      const analysis: QuoteAnalysis = {
+        ...this.analyzeQuote(
+          tagged.text,
+          tagged.reference,
+          tagged.startIndex,
+          tagged.endIndex,
+          'tagged'
+        ),
+        citedReference: tagged.reference,
+      };
       quotes.push(analysis);
 
-      if (this.options.autoCorrect && analysis.wasCorrected) {
-        correctedText = this.replaceInText(
-          correctedText,
-          tagged.fullMatch,
-          this.formatCorrectedTag(analysis)
-        );
+      if (analysis.wasCorrected) {
+        corrections.set(quotes.length - 1, {
+          ...this.describeCorrection(analysis, tagged.reference),
+          startIndex: tagged.startIndex,
+          endIndex: tagged.endIndex,
+          original: tagged.fullMatch,
+          replacement: this.formatCorrectedTag(analysis),
+          quoteIndex: quotes.length - 1,
+        });
       }
     }
 
@@ -267,12 +452,15 @@ export class LLMProcessor {
       if (analysis.isValid) {
         quotes.push(analysis);
 
-        if (this.options.autoCorrect && analysis.wasCorrected) {
-          correctedText = this.replaceInText(
-            correctedText,
-            contextual.text,
-            analysis.corrected
-          );
+        if (analysis.wasCorrected) {
+          corrections.set(quotes.length - 1, {
+            ...this.describeCorrection(analysis),
+            startIndex: contextual.startIndex,
+            endIndex: contextual.endIndex,
+            original: contextual.text,
+            replacement: analysis.corrected,
+            quoteIndex: quotes.length - 1,
+          });
         }
       }
     }
@@ -297,24 +485,112 @@ export class LLMProcessor {
               `(${analysis.reference})`
           );
 
-          if (this.options.autoCorrect && analysis.wasCorrected) {
-            correctedText = this.replaceInText(
-              correctedText,
-              untagged.text,
-              analysis.corrected
+          if (analysis.wasCorrected) {
+            corrections.set(quotes.length - 1, {
+              ...this.describeCorrection(analysis),
+              startIndex: untagged.startIndex,
+              endIndex: untagged.endIndex,
+              original: untagged.text,
+              replacement: analysis.corrected,
+              quoteIndex: quotes.length - 1,
+            });
+          }
+        }
+      }
+    }
+
+    // Step 4: Check translated quotes cited next to a reference
+    if (this.options.validateTranslations) {
+      if (this.validator.getTranslations().length === 0) {
+        warnings.push('Translation validation is enabled but no translation pack is registered');
+      } else {
+        for (const translated of this.extractTranslatedQuotes(text, quotes)) {
+          const analysis = this.analyzeTranslatedQuote(translated);
+          quotes.push(analysis);
+
+          const check = analysis.translationValidation!;
+          if (check.status === 'wrong-reference') {
+            warnings.push(
+              `Translated quote cited as ${check.reference} matches ${check.actualReference}: ` +
+                `"${translated.text.slice(0, 50)}..."`
+            );
+            corrections.set(quotes.length - 1, {
+              kind: 'reference',
+              reason: `Translated quote matches ${check.actualReference}, not ${check.reference}`,
+              startIndex: translated.referenceIndex,
+              endIndex: translated.referenceIndex + translated.referenceToken.length,
+              original: translated.referenceToken,
+              replacement: translated.referenceToken.replace(
+                translated.reference,
+                this.formatQuoteReference(check.actualReference!)
+              ),
+              quoteIndex: quotes.length - 1,
+            });
+          } else if (check.status === 'unmatched') {
+            warnings.push(
+              `Translated quote does not match any known translation of ${check.reference}: ` +
+                `"${translated.text.slice(0, 50)}..."`
             );
           }
         }
       }
     }
 
+    // Step 5: Scan for verses written in Latin script
+    if (this.options.scanTransliterated) {
+      for (const transliterated of this.extractTransliteratedQuotes(text, quotes)) {
+        quotes.push(transliterated);
+      }
+    }
+
+    for (const [index, quote] of quotes.entries()) {
+      if (quote.reference) {
+        quote.formattedReference = this.formatQuoteReference(quote.reference);
+        if (quote.isValid) {
+          quote.translation = this.validator.getReferenceTranslation(quote.reference);
+        }
+        if (quote.isValid && quote.wasCorrected && hasTashkeel(quote.original)) {
+          quote.tashkeel = this.validator.analyzeTashkeel(quote.original, quote.reference);
+        }
+      }
+
+      // A number inside the quote is a reference too, and can be wrong on its own
+      if (quote.detectionMethod !== 'translation' && hasAyahMarkers(quote.original)) {
+        const reference = quote.isValid ? quote.reference : quote.citedReference;
+        quote.ayahMarkers = this.validator.checkAyahMarkers(quote.original, reference);
+        for (const marker of quote.ayahMarkers) {
+          if (marker.isCorrect || !marker.actualReference) continue;
+          warnings.push(
+            `Ayah marker in quote does not end ${marker.impliedReference ?? 'a verse'}: ` +
+              `the text before it is from ${marker.actualReference}`
+          );
+        }
+      }
+
+      // Positions were found within the quote; move them to positions in the response
+      const span = text.slice(quote.startIndex, quote.endIndex);
+      const offset = quote.startIndex + Math.max(span.indexOf(quote.original), 0);
+      quotes[index] = shiftQuotePositions(quote, offset);
+    }
+
+    // Step 6: Act on each quote as the policy says
+    const decisions = quotes.map((quote, quoteIndex) =>
+      this.decide(text, quote, quoteIndex, corrections.get(quoteIndex), patches, warnings)
+    );
+    const blocked = decisions.some((d) => d.action === 'block');
+
     // Determine overall validity
     const allValid = quotes.every((q) => q.isValid && !q.wasCorrected);
 
+    patches.sort((a, b) => a.startIndex - b.startIndex);
+
     return {
-      correctedText,
+      correctedText: blocked ? '' : applyPatches(text, patches),
       allValid,
       quotes,
+      patches,
+      decisions,
+      blocked,
       warnings,
     };
   }
@@ -333,27 +609,136 @@ export class LLMProcessor {
     }
 
     // If expected reference provided, check it matches
-    if (expectedRef && validation.reference !== expectedRef) {
+    const expected = expectedRef && (parseSingleReference(expectedRef)?.reference ?? expectedRef);
+    if (expected && validation.reference !== expected) {
       return {
         isValid: false,
-        correctText: validation.matchedVerse?.text,
+        correctText: canonicalText(validation, this.options.script, text),
         actualRef: validation.reference,
       };
     }
 
     // Check if text needs correction
-    const needsCorrection =
-      validation.matchType !== 'exact' && validation.matchedVerse;
+    const correctText =
+      validation.matchType !== 'exact'
+        ? canonicalText(validation, this.options.script, text)
+        : undefined;
 
     return {
       isValid: true,
-      correctText: needsCorrection ? validation.matchedVerse?.text : undefined,
+      correctText: correctText !== text.trim() ? correctText : undefined,
       actualRef: validation.reference,
     };
   }
 
+  /**
+   * Validate and correct Quran citations inside a structured (JSON) response
+   *
+   * @param data - Parsed JSON response
+   * @param schema - Where citations live and which fields they use
+   * @returns A corrected copy of the data and a report for each citation
+   *
+   * @example
+   * ```ts
+   * const response = JSON.parse(llmResponse);
+   * // { answer: "...", citations: [{ ref: "1:1", arabic: "بسم ٱلله ٱلرحمٰن ٱلرحيم" }] }
+   *
+   * const result = processor.processStructured(response);
+   * result.data.citations[0].arabic; // "بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ"
+   * result.report[0].path;           // "citations[0]"
+   *
+   * // Custom layout
+   * processor.processStructured(response, {
+   *   citations: ['sections[*].verses[*]'],
+   *   referenceField: 'reference',
+   *   textField: 'text',
+   * });
+   * ```
+   */
+  processStructured<T>(data: T, schema: StructuredSchema = {}): StructuredOutput<T> {
+    const {
+      citations = ['citations[*]'],
+      referenceField = 'ref',
+      textField = 'arabic',
+    } = schema;
+
+    const output = cloneJson(data);
+    const report: StructuredCitationReport[] = [];
+    const warnings: string[] = [];
+
+    for (const pattern of citations) {
+      for (const { path, value } of resolvePath(output, pattern)) {
+        if (
+          !isRecord(value) ||
+          typeof value[referenceField] !== 'string' ||
+          typeof value[textField] !== 'string'
+        ) {
+          warnings.push(`Citation at ${path} needs string "${referenceField}" and "${textField}" fields`);
+          continue;
+        }
+
+        const entry = this.analyzeCitation(path, value[referenceField], value[textField]);
+        report.push(entry);
+
+        if (this.options.autoCorrect && entry.wasCorrected) {
+          if (entry.correctedReference) value[referenceField] = entry.correctedReference;
+          if (entry.correctedText) value[textField] = entry.correctedText;
+        }
+      }
+    }
+
+    return {
+      data: output,
+      allValid: report.every((r) => r.isValid && !r.wasCorrected),
+      report,
+      warnings,
+    };
+  }
+
   // Private methods
 
+  private analyzeCitation(path: string, reference: string, text: string): StructuredCitationReport {
+    const validation = this.validator.validateAgainst(text, reference);
+
+    if (validation.isValid) {
+      const parsed = parseSingleReference(validation.reference!)!;
+      const uthmani = parsed.isRange
+        ? this.validator.getVerseRange(parsed.surah, parsed.startAyah, parsed.endAyah!)?.text
+        : validation.matchedVerse?.text;
+      const expected = uthmani && this.inScript(uthmani, text);
+      const wasCorrected =
+        expected !== undefined && ![uthmani, expected].includes(text.trim());
+
+      return {
+        path,
+        reference,
+        text,
+        isValid: true,
+        wasCorrected,
+        correctedText: wasCorrected ? expected : undefined,
+        validation,
+      };
+    }
+
+    // The text may be authentic but cited under the wrong reference
+    const actual = this.validator.validate(text);
+    if (actual.isValid && actual.reference) {
+      const correctedText = canonicalText(actual, this.options.script, text);
+      return {
+        path,
+        reference,
+        text,
+        isValid: true,
+        wasCorrected: true,
+        correctedReference: this.formatQuoteReference(actual.reference),
+        correctedText: correctedText !== text.trim() ? correctedText : undefined,
+        validation: actual,
+      };
+    }
+
+    return { path, reference, text, isValid: false, wasCorrected: false, validation };
+  }
+
   private extractTaggedQuotes(
     text: string
   ): { text: string; reference: string; startIndex: number; endIndex: number; fullMatch: string }[] {
@@ -365,25 +750,17 @@ export class LLMProcessor {
       fullMatch: string;
     }[] = [];
 
-    const pattern = TAG_PATTERNS[this.options.tagFormat];
-    let match;
-
-    // Reset regex state
-    pattern.lastIndex = 0;
-
-    while ((match = pattern.exec(text)) !== null) {
+    for (const tag of this.tagFormat.extract(text)) {
       results.push({
-        reference: match[1],
-        text: match[2].trim(),
-        startIndex: match.index,
-        endIndex: match.index + match[0].length,
-        fullMatch: match[0],
+        ...tag,
+        fullMatch: text.slice(tag.startIndex, tag.endIndex),
       });
     }
 
     // Also check for inline references
-    TAG_PATTERNS.inlineRef.lastIndex = 0;
-    while ((match = TAG_PATTERNS.inlineRef.exec(text)) !== null) {
+    let match;
+    INLINE_REF_PATTERN.lastIndex = 0;
+    while ((match = INLINE_REF_PATTERN.exec(text)) !== null) {
       // Skip if this overlaps with an already found tagged quote
       const overlaps = results.some(
         (r) => match!.index >= r.startIndex && match!.index < r.endIndex
@@ -423,9 +800,14 @@ export class LLMProcessor {
           /^[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF\s]+/
         );
 
-        if (arabicMatch && arabicMatch[0].trim().length >= 10) {
-          const startIndex = match.index + match[0].length;
-          const endIndex = startIndex + arabicMatch[0].length;
+        const quote = arabicMatch?.[0].trim();
+        if (arabicMatch && quote && quote.length >= 10) {
+          // Span the trimmed quote, so a correction keeps the whitespace around it
+          const startIndex =
+            match.index +
+            match[0].length +
+            (arabicMatch[0].length - arabicMatch[0].trimStart().length);
+          const endIndex = startIndex + quote.length;
 
           // Skip if overlaps with already found quotes
           const overlaps = alreadyFound.some(
@@ -436,7 +818,7 @@ export class LLMProcessor {
 
           if (!overlaps) {
             results.push({
-              text: arabicMatch[0].trim(),
+              text: quote,
               startIndex,
               endIndex,
             });
@@ -465,26 +847,214 @@ export class LLMProcessor {
       // Skip short segments
       if (segment.length < 15) continue;
 
+      // Span the trimmed segment, so a correction keeps the whitespace after it
+      const startIndex = match.index + (match[0].length - match[0].trimStart().length);
+      const endIndex = startIndex + segment.length;
+
       // Skip if overlaps with already found quotes
       const overlaps = alreadyFound.some(
         (r) =>
-          (match!.index >= r.startIndex && match!.index < r.endIndex) ||
-          (match!.index + match![0].length > r.startIndex &&
-            match!.index + match![0].length <= r.endIndex)
+          (startIndex >= r.startIndex && startIndex < r.endIndex) ||
+          (endIndex > r.startIndex && endIndex <= r.endIndex)
       );
 
       if (!overlaps) {
-        results.push({
-          text: segment,
-          startIndex: match.index,
-          endIndex: match.index + match[0].length,
-        });
+        results.push({ text: segment, startIndex, endIndex });
       }
     }
 
     return results;
   }
 
+  /**
+   * Find whole verses written in Latin script
+   *
+   * Each clause of Latin text, split further at common English words, is
+   * matched as a whole and with up to a few words trimmed from either end.
+   * The closest match wins (the longer one on ties), and the text on either
+   * side of it is scanned again.
+   */
+  private extractTransliteratedQuotes(
+    text: string,
+    alreadyFound: { startIndex: number; endIndex: number }[]
+  ): QuoteAnalysis[] {
+    const results: QuoteAnalysis[] = [];
+
+    for (const segment of text.matchAll(LATIN_SEGMENT)) {
+      const start = segment.index!;
+      const end = start + segment[0].length;
+      if (alreadyFound.some((r) => start < r.endIndex && end > r.startIndex)) continue;
+
+      let words: { start: number; end: number }[] = [];
+      for (const word of segment[0].matchAll(/[^\s-]+/g)) {
+        if (ENGLISH_WORDS.has(word[0].toLowerCase())) {
+          this.matchTransliteratedWords(text, words, results);
+          words = [];
+        } else {
+          words.push({ start: start + word.index!, end: start + word.index! + word[0].length });
+        }
+      }
+      this.matchTransliteratedWords(text, words, results);
+    }
+
+    return results.sort((a, b) => a.startIndex - b.startIndex);
+  }
+
+  private matchTransliteratedWords(
+    text: string,
+    words: { start: number; end: number }[],
+    results: QuoteAnalysis[]
+  ): void {
+    if (words.length < MIN_TRANSLITERATED_WORDS) return;
+
+    const windows: { from: number; to: number }[] = [];
+    for (let lead = 0; lead <= MAX_TRANSLITERATION_TRIM; lead++) {
+      for (let tail = 0; tail <= MAX_TRANSLITERATION_TRIM; tail++) {
+        const to = words.length - tail;
+        if (to - lead >= MIN_TRANSLITERATED_WORDS) windows.push({ from: lead, to });
+      }
+    }
+    windows.sort((a, b) => b.to - b.from - (a.to - a.from) || a.from - b.from);
+
+    let best: { from: number; to: number; match: TransliterationValidation } | undefined;
+    for (const { from, to } of windows) {
+      const original = text.slice(words[from].start, words[to - 1].end);
+      const match = this.validator.validateTransliteration(original);
+      if (!match.isValid || match.normalizedInput.length < MIN_TRANSLITERATION_KEY) continue;
+      if (!best || match.similarity > best.match.similarity) best = { from, to, match };
+      if (match.similarity === 1) break;
+    }
+
+    if (best) {
+      const { from, to, match } = best;
+      const startIndex = words[from].start;
+      const endIndex = words[to - 1].end;
+      const original = text.slice(startIndex, endIndex);
+      results.push({
+        original,
+        corrected: original,
+        isValid: true,
+        reference: match.reference,
+        detectionMethod: 'transliterated',
+        startIndex,
+        endIndex,
+        wasCorrected: false,
+        normalizedInput: match.normalizedInput,
+        arabic: this.inScript(match.matchedVerse!.text, ''),
+      });
+      this.matchTransliteratedWords(text, words.slice(0, from), results);
+      this.matchTransliteratedWords(text, words.slice(to), results);
+    }
+  }
+
+  /**
+   * Find non-Arabic text quoted next to a reference, e.g.
+   * `(2:255) Allah - there is no deity except Him...` or `"..." (2:255)`
+   */
+  private extractTranslatedQuotes(
+    text: string,
+    alreadyFound: { startIndex: number; endIndex: number }[]
+  ): TranslatedQuote[] {
+    const results: TranslatedQuote[] = [];
+    const references = Array.from(text.matchAll(REFERENCE_TOKEN))
+      .map((match) => ({
+        token: match[0],
+        reference: (match[1] ?? match[2]).trim(),
+        start: match.index!,
+        end: match.index! + match[0].length,
+      }))
+      .filter(
+        (ref) =>
+          CITATION_LIKE.test(toAsciiDigits(ref.reference)) && parseSingleReference(ref.reference)
+      );
+
+    // End of the text claimed by the previous translated quote
+    let consumed = 0;
+
+    references.forEach((ref, i) => {
+      const overlaps = alreadyFound.some((r) => ref.start < r.endIndex && ref.end > r.startIndex);
+      if (overlaps) return;
+
+      const before = text.slice(0, ref.start);
+      const nextStart = i + 1 < references.length ? references[i + 1].start : text.length;
+      const after = text.slice(ref.end, nextStart);
+
+      let quote: { text: string; start: number; end: number } | undefined;
+      const quotedBefore = before.match(QUOTED_BEFORE);
+      const quotedAfter = after.match(QUOTED_AFTER);
+      const plainAfter = after.match(TEXT_AFTER);
+
+      if (quotedBefore && quotedBefore.index! >= consumed) {
+        const start = quotedBefore.index!;
+        quote = { text: quotedBefore[1], start, end: ref.start };
+      } else if (quotedAfter) {
+        quote = { text: quotedAfter[1], start: ref.start, end: ref.end + quotedAfter[0].length };
+      } else if (plainAfter) {
+        quote = {
+          text: this.pickTranslatedText(plainAfter[1].trim(), ref.reference),
+          start: ref.start,
+          end: ref.end + plainAfter[0].length,
+        };
+      }
+
+      if (!quote || containsArabic(quote.text)) return;
+      if (quote.text.split(/\s+/).length < MIN_TRANSLATED_WORDS) return;
+
+      consumed = Math.max(quote.end, ref.end);
+      results.push({
+        text: quote.text.trim(),
+        reference: ref.reference,
+        referenceToken: ref.token,
+        referenceIndex: ref.start,
+        startIndex: Math.min(quote.start, ref.start),
+        endIndex: Math.max(quote.end, ref.end),
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Unquoted text after a reference often runs on into commentary. Keep
+   * the longest run of leading sentences that matches the cited verse, or
+   * failing that, the run that best matches any verse.
+   */
+  private pickTranslatedText(text: string, reference: string): string {
+    // The sentence the reference closed may end right after it: "(2:255). Allah..."
+    text = text.replace(/^[\p{P}\s]+/u, '');
+    const sentences = text.split(/(?<=[.!?])\s+/).slice(0, MAX_TRANSLATED_SENTENCES);
+    let best: { text: string; score: number } | undefined;
+
+    for (let count = sentences.length; count > 0; count--) {
+      const candidate = sentences.slice(0, count).join(' ');
+      const check = this.validator.validateTranslation(candidate, reference);
+      if (check.isValid) return candidate;
+
+      const score = Math.max(check.similarity, check.actualSimilarity ?? 0);
+      if (!best || score > best.score) best = { text: candidate, score };
+    }
+
+    return best?.text ?? text;
+  }
+
+  private analyzeTranslatedQuote(translated: TranslatedQuote): QuoteAnalysis {
+    const check = this.validator.validateTranslation(translated.text, translated.reference);
+    const isWrongReference = check.status === 'wrong-reference';
+
+    return {
+      original: translated.text,
+      corrected: translated.text,
+      isValid: check.isValid || isWrongReference,
+      reference: isWrongReference ? check.actualReference : check.reference,
+      citedReference: translated.reference,
+      detectionMethod: 'translation',
+      startIndex: translated.startIndex,
+      endIndex: translated.endIndex,
+      wasCorrected: isWrongReference,
+      translationValidation: check,
+    };
+  }
+
   private analyzeQuote(
     text: string,
     expectedRef: string | undefined,
@@ -496,11 +1066,10 @@ export class LLMProcessor {
 
     // Check if this is a verse range reference
     if (expectedRef) {
-      const parsed = parseReference(expectedRef);
-      if (parsed?.isRange && parsed.endAyah) {
+      const parsed = parseSingleReference(expectedRef);
+      if (parsed?.isRange) {
         return this.analyzeRangeQuote(
           text,
-          expectedRef,
           parsed,
           startIndex,
           endIndex,
@@ -514,7 +1083,8 @@ export class LLMProcessor {
 
         if (expectedVerse) {
           const normalizedExpected = normalizeArabic(expectedVerse.text);
-          const isExact = text.trim() === expectedVerse.text;
+          const expectedText = this.inScript(expectedVerse.text, text);
+          const isExact = [expectedVerse.text, expectedText].includes(text.trim());
           const isNormalizedMatch = normalizedInput === normalizedExpected;
 
           if (isExact) {
@@ -522,7 +1092,7 @@ export class LLMProcessor {
               original: text,
               corrected: text,
               isValid: true,
-              reference: expectedRef,
+              reference: parsed.reference,
               detectionMethod,
               startIndex,
               endIndex,
@@ -534,9 +1104,9 @@ export class LLMProcessor {
           if (isNormalizedMatch) {
             return {
               original: text,
-              corrected: expectedVerse.text,
+              corrected: expectedText,
               isValid: true,
-              reference: expectedRef,
+              reference: parsed.reference,
               detectionMethod,
               startIndex,
               endIndex,
@@ -550,7 +1120,7 @@ export class LLMProcessor {
           if (globalValidation.isValid && globalValidation.reference) {
             return {
               original: text,
-              corrected: globalValidation.matchedVerse?.text || text,
+              corrected: canonicalText(globalValidation, this.options.script, text) || text,
               isValid: true,
               reference: globalValidation.reference,
               detectionMethod,
@@ -566,7 +1136,7 @@ export class LLMProcessor {
             original: text,
             corrected: text,
             isValid: false,
-            reference: expectedRef,
+            reference: parsed.reference,
             detectionMethod,
             startIndex,
             endIndex,
@@ -582,7 +1152,7 @@ export class LLMProcessor {
         if (globalValidation.isValid && globalValidation.reference) {
           return {
             original: text,
-            corrected: globalValidation.matchedVerse?.text || text,
+            corrected: canonicalText(globalValidation, this.options.script, text) || text,
             isValid: true,
             reference: globalValidation.reference,
             detectionMethod,
@@ -597,7 +1167,7 @@ export class LLMProcessor {
           original: text,
           corrected: text,
           isValid: false,
-          reference: expectedRef,
+          reference: parsed.reference,
           detectionMethod,
           startIndex,
           endIndex,
@@ -608,7 +1178,7 @@ export class LLMProcessor {
       }
     }
 
-    // No expected reference - search the entire Quran for a match
+    // No usable expected reference - search the entire Quran for a match
     const validation = this.validator.validate(text);
 
     let isValid = validation.isValid;
@@ -620,15 +1190,15 @@ export class LLMProcessor {
       validation.matchType !== 'exact' &&
       validation.matchedVerse
     ) {
-      corrected = validation.matchedVerse.text;
-      wasCorrected = true;
+      corrected = canonicalText(validation, this.options.script, text)!;
+      wasCorrected = corrected !== text.trim();
     }
 
     const result: QuoteAnalysis = {
       original: text,
       corrected,
       isValid,
-      reference: validation.reference,
+      reference: validation.reference ?? expectedRef,
       detectionMethod,
       startIndex,
       endIndex,
@@ -649,8 +1219,7 @@ export class LLMProcessor {
    */
   private analyzeRangeQuote(
     text: string,
-    expectedRef: string,
-    parsed: { surah: number; startAyah: number; endAyah?: number },
+    parsed: QuranReference,
     startIndex: number,
     endIndex: number,
     detectionMethod: 'tagged' | 'contextual' | 'fuzzy'
@@ -666,7 +1235,7 @@ export class LLMProcessor {
         original: text,
         corrected: text,
         isValid: false,
-        reference: expectedRef,
+        reference: parsed.reference,
         detectionMethod,
         startIndex,
         endIndex,
@@ -677,7 +1246,8 @@ export class LLMProcessor {
     }
 
     const normalizedRange = normalizeArabic(range.text);
-    const isExact = text.trim() === range.text;
+    const expectedText = this.inScript(range.text, text);
+    const isExact = [range.text, expectedText].includes(text.trim());
     const isNormalizedMatch = normalizedInput === normalizedRange;
 
     if (isExact) {
@@ -685,7 +1255,7 @@ export class LLMProcessor {
         original: text,
         corrected: text,
         isValid: true,
-        reference: expectedRef,
+        reference: parsed.reference,
         detectionMethod,
         startIndex,
         endIndex,
@@ -697,9 +1267,9 @@ export class LLMProcessor {
     if (isNormalizedMatch) {
       return {
         original: text,
-        corrected: range.text,
+        corrected: expectedText,
         isValid: true,
-        reference: expectedRef,
+        reference: parsed.reference,
         detectionMethod,
         startIndex,
         endIndex,
@@ -713,7 +1283,7 @@ export class LLMProcessor {
       original: text,
       corrected: text,
       isValid: false,
-      reference: expectedRef,
+      reference: parsed.reference,
       detectionMethod,
       startIndex,
       endIndex,
@@ -724,25 +1294,203 @@ export class LLMProcessor {
     };
   }
 
+  /**
+   * Render verse text in the configured script
+   *
+   * @param input - The quote being corrected, for the 'preserve-input' script
+   */
+  private inScript(uthmani: string, input: string): string {
+    return toScript(uthmani, this.options.script, input);
+  }
+
   private formatCorrectedTag(analysis: QuoteAnalysis): string {
-    switch (this.options.tagFormat) {
-      case 'xml':
-        return `<quran ref="${analysis.reference}">${analysis.corrected}</quran>`;
-      case 'markdown':
-        return `\`\`\`quran ref="${analysis.reference}"\n${analysis.corrected}\n\`\`\``;
-      case 'bracket':
-        return `[[Q:${analysis.reference}|${analysis.corrected}]]`;
-      default:
-        return `${analysis.corrected} (${analysis.reference})`;
+    const reference = this.formatQuoteReference(analysis.reference ?? '');
+    return this.tagFormat.format(reference, analysis.corrected);
+  }
+
+  /**
+   * Render a reference in the configured style, leaving references that
+   * don't name a real verse as they were cited
+   */
+  private formatQuoteReference(reference: string): string {
+    const parsed = parseSingleReference(reference);
+    return parsed ? formatReference(parsed, this.options.referenceStyle) : reference;
+  }
+
+  /**
+   * Say what a correction of an Arabic quote changed and why
+   *
+   * @param citedReference - The reference the quote was tagged with, if any
+   */
+  private describeCorrection(
+    analysis: QuoteAnalysis,
+    citedReference?: string
+  ): Pick<CorrectionPatch, 'kind' | 'reason'> {
+    const cited = citedReference && (parseSingleReference(citedReference)?.reference ?? citedReference);
+    const referenceChanged = cited !== undefined && cited !== analysis.reference;
+    const textChanged = analysis.corrected !== analysis.original;
+
+    if (referenceChanged) {
+      return {
+        kind: textChanged ? 'text-and-reference' : 'reference',
+        reason: `Quote is ${analysis.reference}, not ${cited}`,
+      };
     }
+    return {
+      kind: 'text',
+      reason: `Quote text restored to the exact wording of ${analysis.reference}`,
+    };
   }
 
-  private replaceInText(
+  /**
+   * Classify a quote and carry out the policy's action for it
+   *
+   * @param correction - The processor's correction of the quote, if it has one
+   */
+  private decide(
+    text: string,
+    quote: QuoteAnalysis,
+    quoteIndex: number,
+    correction: CorrectionPatch | undefined,
+    patches: CorrectionPatch[],
+    warnings: string[]
+  ): PolicyDecision {
+    const issue = classifyQuote(quote);
+    const action = this.policy[issue];
+    const decision: PolicyDecision = { quoteIndex, issue, action, changed: false };
+    const span = text.slice(quote.startIndex, quote.endIndex);
+
+    let patch: CorrectionPatch | undefined;
+    let newText: string | undefined;
+
+    switch (action) {
+      case 'correct':
+        patch = correction;
+        // A translated quote's correction only touches its reference
+        newText = quote.detectionMethod === 'translation' ? undefined : quote.corrected;
+        break;
+      case 'replace': {
+        const replacement = this.replacementOf(text, quote, quoteIndex, issue);
+        if (replacement) {
+          ({ patch, text: newText } = replacement);
+        }
+        break;
+      }
+      case 'strip':
+        newText = '';
+        patch = {
+          kind: 'removed',
+          reason: `Removed ${issue} quote`,
+          startIndex: quote.startIndex,
+          endIndex: quote.endIndex,
+          original: span,
+          replacement: newText,
+          quoteIndex,
+        };
+        break;
+      case 'redact':
+        newText =
+          typeof this.placeholder === 'function' ? this.placeholder(quote) : this.placeholder;
+        patch = {
+          kind: 'redacted',
+          reason: `Redacted ${issue} quote`,
+          startIndex: quote.startIndex,
+          endIndex: quote.endIndex,
+          original: span,
+          replacement: newText,
+          quoteIndex,
+        };
+        break;
+      case 'block':
+        warnings.push(`Response blocked: ${issue} quote "${quote.original.slice(0, 50)}"`);
+        break;
+    }
+
+    if (patch && patch.replacement !== patch.original && this.addPatch(patches, warnings, patch)) {
+      decision.changed = true;
+      if (newText !== undefined) decision.text = newText;
+    }
+    return decision;
+  }
+
+  /**
+   * Patch replacing a quote with the text of the verse it cites (or, if it
+   * cites none, the verse it was matched to)
+   */
+  private replacementOf(
     text: string,
-    original: string,
-    replacement: string
-  ): string {
-    return text.replace(original, replacement);
+    quote: QuoteAnalysis,
+    quoteIndex: number,
+    issue: QuoteIssue
+  ): { patch: CorrectionPatch; text: string } | undefined {
+    const parsed = parseSingleReference(quote.citedReference ?? quote.reference ?? '');
+    if (!parsed) return undefined;
+
+    const reference = parsed.reference;
+    const reason = `Replaced ${issue} quote with the text of ${reference}`;
+
+    if (quote.detectionMethod === 'translation') {
+      const translation = this.validator.getReferenceTranslation(reference)?.text;
+      const offset = text.slice(quote.startIndex, quote.endIndex).indexOf(quote.original);
+      if (!translation || offset === -1) return undefined;
+
+      const startIndex = quote.startIndex + offset;
+      return {
+        text: translation,
+        patch: {
+          kind: 'text',
+          reason,
+          startIndex,
+          endIndex: startIndex + quote.original.length,
+          original: quote.original,
+          replacement: translation,
+          quoteIndex,
+        },
+      };
+    }
+
+    const range = this.validator.getVerseRange(
+      parsed.surah,
+      parsed.startAyah,
+      parsed.endAyah ?? parsed.startAyah
+    );
+    if (!range) return undefined;
+    const canonical = this.inScript(range.text, quote.original);
+
+    return {
+      text: canonical,
+      patch: {
+        kind: 'text',
+        reason,
+        startIndex: quote.startIndex,
+        endIndex: quote.endIndex,
+        original: text.slice(quote.startIndex, quote.endIndex),
+        replacement:
+          quote.detectionMethod === 'tagged'
+            ? this.tagFormat.format(this.formatQuoteReference(reference), canonical)
+            : canonical,
+        quoteIndex,
+      },
+    };
+  }
+
+  /**
+   * Record a patch unless it overlaps one already recorded
+   */
+  private addPatch(
+    patches: CorrectionPatch[],
+    warnings: string[],
+    patch: CorrectionPatch
+  ): boolean {
+    const overlaps = patches.some(
+      (p) => patch.startIndex < p.endIndex && patch.endIndex > p.startIndex
+    );
+    if (overlaps) {
+      warnings.push(`Skipped a correction that overlaps another: "${patch.original.slice(0, 50)}"`);
+      return false;
+    }
+    patches.push(patch);
+    return true;
   }
 }
 
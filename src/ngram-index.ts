@@ -0,0 +1,90 @@
+/**
+ * Character n-gram inverted index
+ *
+ * Used to shortlist verses that look similar to a query without running
+ * an edit-distance comparison against the whole corpus.
+ */
+
+/**
+ * A shortlisted document with its n-gram overlap score
+ */
+export interface NgramCandidate {
+  /** Index of the document in the array passed to the constructor */
+  index: number;
+  /** Dice coefficient over distinct n-grams (0-1) */
+  score: number;
+}
+
+/**
+ * Split text into its distinct character n-grams.
+ * The text is padded with spaces so word boundaries count as context.
+ */
+function distinctNgrams(text: string, n: number): Set<string> {
+  const padded = ` ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + n <= padded.length; i++) {
+    grams.add(padded.slice(i, i + n));
+  }
+  return grams;
+}
+
+export class NgramIndex {
+  private postings: Map<string, number[]>;
+  private gramCounts: Uint32Array;
+  private n: number;
+
+  /**
+   * @param documents - Normalized texts to index
+   * @param n - N-gram length (default: 3)
+   */
+  constructor(documents: string[], n: number = 3) {
+    this.n = n;
+    this.postings = new Map();
+    this.gramCounts = new Uint32Array(documents.length);
+
+    documents.forEach((doc, index) => {
+      const grams = distinctNgrams(doc, n);
+      this.gramCounts[index] = grams.size;
+      for (const gram of grams) {
+        const list = this.postings.get(gram);
+        if (list) {
+          list.push(index);
+        } else {
+          this.postings.set(gram, [index]);
+        }
+      }
+    });
+  }
+
+  /**
+   * Find the documents sharing the most n-grams with the query
+   *
+   * @param query - Normalized query text
+   * @param limit - Maximum number of candidates to return
+   * @returns Candidates sorted by descending score
+   */
+  search(query: string, limit: number): NgramCandidate[] {
+    const grams = distinctNgrams(query, this.n);
+    if (grams.size === 0 || limit <= 0) return [];
+
+    const shared = new Uint32Array(this.gramCounts.length);
+    const touched: number[] = [];
+
+    for (const gram of grams) {
+      const list = this.postings.get(gram);
+      if (!list) continue;
+      for (const index of list) {
+        if (shared[index] === 0) touched.push(index);
+        shared[index]++;
+      }
+    }
+
+    return touched
+      .map((index) => ({
+        index,
+        score: (2 * shared[index]) / (grams.size + this.gramCounts[index]),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
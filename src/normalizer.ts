@@ -1,4 +1,5 @@
 import { normalize, type NormalizeOptions } from 'arabic-text-normalizer';
+import type { TextSpan } from './types';
 
 // Re-export the library's options type
 export type { NormalizeOptions };
@@ -35,6 +36,164 @@ export function normalizeArabic(
   return normalize(result, options);
 }
 
+/**
+ * Normalized text with the position each character came from
+ */
+export interface NormalizedText {
+  /** The normalized text, identical to normalizeArabic() with the same options */
+  text: string;
+  /**
+   * Index in `original` of the character each character of `text` came
+   * from, plus a final entry for the end of the text
+   */
+  map: number[];
+  /** The text before normalization */
+  original: string;
+}
+
+// Steps of arabic-text-normalizer's normalize(), in its order, with the option enabling each
+const NORMALIZE_STEPS: [(options: Required<NormalizeOptions>) => boolean, RegExp, string][] = [
+  [(o) => o.diacritics, /[\u064B-\u065F]/g, ''],
+  [(o) => o.diacritics, /[\u0622\u0671\u0672\u0673]/g, '\u0627'], // آ ٱ → ا
+  [(o) => o.diacritics, /\u0627\u0670/g, '\u0627'],
+  [(o) => o.diacritics, /\u0670/g, '\u0627'],
+  [(o) => o.diacritics, /[\u06CC\u06D2]/g, '\u064A'], // ی ے → ي
+  [(o) => o.diacritics, /\u06A9/g, '\u0643'], // ک → ك
+  [(o) => o.markers || o.smallLetters, /[\u06D6-\u06ED]/g, ''],
+  [(o) => o.verseNumbers, /[\uFD3E\uFD3F\u0660-\u0669\u06F0-\u06F9]/g, ''],
+  [(o) => o.tatweel, /\u0640/g, ''],
+  [(o) => o.punctuation, /[.,;:!?…\u060C\u061B\u061F]/g, ''],
+  [(o) => o.stripHamza, /[\u0621\u0623\u0625\u0626]/g, ''],
+  [(o) => o.stripHamza, /\u0649/g, '\u064A'], // ى → ي
+  [(o) => o.stripHamza, /\u0648\u0627?\u0629/g, '\u0627\u0629'], // وا?ة → اة
+  [(o) => o.stripHamza, /\u064A\u064A/g, '\u064A'], // يي → ي
+  [(o) => o.stripHamza, /\u0628\u0635\u0637/g, '\u0628\u0633\u0637'], // بصط → بسط
+  [(o) => o.stripHamza, /\u0635\u064A\u0637\u0631/g, '\u0633\u064A\u0637\u0631'], // صيطر → سيطر
+  [(o) => o.stripHamza, /\u0627\u0644\u0644/g, '\u0627\u0644'], // الل → ال
+  [(o) => o.collapseWhitespace, /\s+/g, ' '],
+];
+
+const DEFAULT_NORMALIZE_OPTIONS: Required<NormalizeOptions> = {
+  diacritics: true,
+  markers: true,
+  verseNumbers: true,
+  tatweel: true,
+  smallLetters: true,
+  punctuation: true,
+  collapseWhitespace: true,
+  stripHamza: false,
+};
+
+/**
+ * Normalize Arabic text like normalizeArabic(), keeping track of where
+ * each normalized character came from
+ *
+ * Use it to show positions found in normalized text (a mismatch, a
+ * fabricated word, a difference) in the text as it was written.
+ *
+ * @param text - The Arabic text to normalize
+ * @param options - Normalization options, as for normalizeArabic()
+ * @returns The normalized text and its map back to `text`
+ *
+ * @example
+ * ```ts
+ * const normalized = normalizeWithMap('قُلْ هُوَ ٱللَّهُ');
+ * normalized.text; // "قل هو الله"
+ * normalized.map[3]; // 5 - "هو" starts at index 5 of the original
+ * toOriginalSpan(normalized, 3, 5); // { start: 5, end: 9 } - "هُوَ"
+ * ```
+ */
+export function normalizeWithMap(text: string, options?: NormalizeOptions): NormalizedText {
+  const opts = { ...DEFAULT_NORMALIZE_OPTIONS, ...options };
+  let mapped = decomposeWithMap(text);
+
+  mapped = replaceWithMap(mapped, BIDI_CONTROLS, '');
+  for (const [enabled, pattern, replacement] of NORMALIZE_STEPS) {
+    if (enabled(opts)) mapped = replaceWithMap(mapped, pattern, replacement);
+  }
+
+  if (opts.collapseWhitespace) {
+    const start = mapped.text.length - mapped.text.trimStart().length;
+    const end = mapped.text.trimEnd().length;
+    mapped = {
+      text: mapped.text.slice(start, end),
+      map: [...mapped.map.slice(start, end), mapped.map[end]],
+    };
+  }
+
+  return { ...mapped, original: text };
+}
+
+/**
+ * NFKC-normalize text one base character and its marks at a time, so
+ * composed and expanded characters keep their position
+ */
+function decomposeWithMap(text: string): Pick<NormalizedText, 'text' | 'map'> {
+  let result = '';
+  const map: number[] = [];
+
+  for (const cluster of text.matchAll(/\P{M}\p{M}*|\p{M}+/gu)) {
+    const index = cluster.index!;
+    const normalized = cluster[0].normalize('NFKC');
+    result += normalized;
+    if (normalized === cluster[0]) {
+      for (let i = 0; i < normalized.length; i++) map.push(index + i);
+    } else {
+      for (let i = 0; i < normalized.length; i++) map.push(index);
+    }
+  }
+  map.push(text.length);
+
+  return { text: result, map };
+}
+
+/**
+ * String.replace() that carries the position map along: replacement
+ * characters take the positions of the characters they replace
+ */
+function replaceWithMap(
+  mapped: Pick<NormalizedText, 'text' | 'map'>,
+  pattern: RegExp,
+  replacement: string
+): Pick<NormalizedText, 'text' | 'map'> {
+  let text = '';
+  const map: number[] = [];
+  let position = 0;
+
+  for (const match of mapped.text.matchAll(pattern)) {
+    const index = match.index!;
+    text += mapped.text.slice(position, index) + replacement;
+    map.push(...mapped.map.slice(position, index));
+    for (let i = 0; i < replacement.length; i++) {
+      map.push(mapped.map[index + Math.min(i, match[0].length - 1)]);
+    }
+    position = index + match[0].length;
+  }
+  text += mapped.text.slice(position);
+  map.push(...mapped.map.slice(position));
+
+  return { text, map };
+}
+
+/**
+ * Find the part of the original text that a range of normalized text came from
+ *
+ * The span includes the diacritics and tatweel that belong to its last letter.
+ *
+ * @param normalized - Result of normalizeWithMap()
+ * @param start - Start of the range in `normalized.text`
+ * @param end - End of the range in `normalized.text` (exclusive)
+ */
+export function toOriginalSpan(normalized: NormalizedText, start: number, end: number): TextSpan {
+  const { map, original } = normalized;
+  const spanStart = map[start];
+  if (end <= start) return { start: spanStart, end: spanStart };
+
+  let spanEnd = map[end - 1] + 1;
+  while (spanEnd < original.length && /[\p{M}\u0640]/u.test(original[spanEnd])) spanEnd++;
+  return { start: spanStart, end: spanEnd };
+}
+
 /**
  * Remove only diacritics (tashkeel) from Arabic text
  *
@@ -107,62 +266,259 @@ export function extractArabicSegments(
  *
  * @param str1 - First string
  * @param str2 - Second string
+ * @param minSimilarity - Lowest similarity the caller cares about; below it
+ *   the comparison stops early and returns 0 (default: 0, always exact)
  * @returns Similarity score between 0 and 1 (1 = identical)
  */
-export function calculateSimilarity(str1: string, str2: string): number {
-  if (str1 === str2) return 1;
-  if (str1.length === 0 || str2.length === 0) return 0;
+export function calculateSimilarity(str1: string, str2: string, minSimilarity = 0): number {
+  return similarity(str1, str2, minSimilarity);
+}
+
+/**
+ * Calculate similarity between two texts by their words: one minus the
+ * word edits over the longer text's word count
+ *
+ * @param str1 - First text
+ * @param str2 - Second text
+ * @param minSimilarity - Lowest similarity the caller cares about; below it
+ *   the comparison stops early and returns 0 (default: 0, always exact)
+ * @returns Similarity score between 0 and 1 (1 = same words)
+ *
+ * @example
+ * ```ts
+ * calculateWordSimilarity("قل هو الله واحد", "قل هو الله أحد") // returns 0.75
+ * ```
+ */
+export function calculateWordSimilarity(str1: string, str2: string, minSimilarity = 0): number {
+  return similarity(splitWords(str1), splitWords(str2), minSimilarity);
+}
+
+function similarity(a: ArrayLike<string>, b: ArrayLike<string>, minSimilarity: number): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const maxLength = Math.max(a.length, b.length);
+  // Largest distance that still reaches minSimilarity (the epsilon absorbs rounding)
+  const maxDistance = Math.floor((1 - minSimilarity) * maxLength + 1e-9);
+  const distance = levenshteinDistance(a, b, maxDistance);
+
+  return distance > maxDistance ? 0 : 1 - distance / maxLength;
+}
+
+/**
+ * Count the character insertions, deletions and substitutions needed to
+ * turn one string into another
+ *
+ * @param str1 - First string
+ * @param str2 - Second string
+ * @param maxDistance - Stop once the distance is known to exceed this, and
+ *   return a number above it (default: no limit)
+ * @returns Number of character edits
+ *
+ * @example
+ * ```ts
+ * editDistance("الرحمن", "الرحيم") // returns 2
+ * ```
+ */
+export function editDistance(str1: string, str2: string, maxDistance = Infinity): number {
+  return levenshteinDistance(str1, str2, maxDistance);
+}
 
-  const distance = levenshteinDistance(str1, str2);
-  const maxLength = Math.max(str1.length, str2.length);
+/**
+ * Count the word insertions, deletions and substitutions needed to turn
+ * one text into another
+ *
+ * @param str1 - First text
+ * @param str2 - Second text
+ * @param maxDistance - Stop once the distance is known to exceed this, and
+ *   return a number above it (default: no limit)
+ * @returns Number of word-level edits
+ *
+ * @example
+ * ```ts
+ * wordEditDistance("بسم الله الرحمن", "بسم الله الرحيم") // returns 1
+ * ```
+ */
+export function wordEditDistance(str1: string, str2: string, maxDistance = Infinity): number {
+  return levenshteinDistance(splitWords(str1), splitWords(str2), maxDistance);
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
 
-  return 1 - distance / maxLength;
+/**
+ * Levenshtein distance, with the shorter sequence as the pattern
+ *
+ * A limit narrower than the pattern uses the banded matrix, which can
+ * give up early; otherwise Myers' bit-parallel algorithm is faster.
+ */
+function levenshteinDistance(
+  str1: ArrayLike<string>,
+  str2: ArrayLike<string>,
+  maxDistance = Infinity
+): number {
+  const [pattern, text] = str1.length <= str2.length ? [str1, str2] : [str2, str1];
+  const m = pattern.length;
+  const n = text.length;
+
+  if (n - m > maxDistance) return n - m;
+  if (m === 0) return n;
+
+  return 2 * maxDistance + 1 < m
+    ? bandedDistance(pattern, text, maxDistance)
+    : myersDistance(pattern, text, maxDistance);
 }
 
-function levenshteinDistance(str1: string, str2: string): number {
-  const m = str1.length;
-  const n = str2.length;
+/**
+ * Levenshtein distance computed only within `maxDistance` of the diagonal
+ *
+ * Cells further off the diagonal can't lie on a path of at most
+ * `maxDistance` edits, so each row costs O(maxDistance), and once every
+ * cell of a row exceeds the limit no path can come back under it.
+ *
+ * @returns The distance, or maxDistance + 1 when it exceeds the limit
+ */
+function bandedDistance(
+  pattern: ArrayLike<string>,
+  text: ArrayLike<string>,
+  maxDistance: number
+): number {
+  const m = pattern.length;
+  const n = text.length;
+  const over = maxDistance + 1;
+  let previous = new Array<number>(n + 1);
+  let current = new Array<number>(n + 1);
+
+  for (let j = 0; j <= Math.min(n, maxDistance); j++) previous[j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    const from = Math.max(1, i - maxDistance);
+    const to = Math.min(n, i + maxDistance);
+    current[from - 1] = from === 1 ? Math.min(i, over) : over;
+    let rowMin = current[from - 1];
 
-  const dp: number[][] = Array(m + 1)
-    .fill(null)
-    .map(() => Array(n + 1).fill(0));
+    for (let j = from; j <= to; j++) {
+      // The row above has no cell this far right of the diagonal
+      const above = j <= i - 1 + maxDistance ? previous[j] : over;
+      const cost = pattern[i - 1] === text[j - 1] ? 0 : 1;
+      const cell = Math.min(above + 1, current[j - 1] + 1, previous[j - 1] + cost, over);
+      current[j] = cell;
+      if (cell < rowMin) rowMin = cell;
+    }
 
-  for (let i = 0; i <= m; i++) {
-    dp[i][0] = i;
+    if (rowMin > maxDistance) return over;
+    [previous, current] = [current, previous];
   }
 
-  for (let j = 0; j <= n; j++) {
-    dp[0][j] = j;
+  return previous[n];
+}
+
+/**
+ * Levenshtein distance by Myers' bit-parallel algorithm
+ *
+ * The pattern is held as bit vectors of 32 rows per block; each element
+ * of the text advances every block in a few word operations, so the cost
+ * is O(⌈m/32⌉·n) time and O(m) memory instead of an m·n matrix. The
+ * bottom row of the matrix changes by at most one per column, so once it
+ * exceeds `maxDistance` by more than the columns left, the scan stops.
+ *
+ * See G. Myers, "A fast bit-vector algorithm for approximate string
+ * matching based on dynamic programming" (1999), with H. Hyyrö's
+ * formulation for blocks.
+ */
+function myersDistance(
+  pattern: ArrayLike<string>,
+  text: ArrayLike<string>,
+  maxDistance: number
+): number {
+  const m = pattern.length;
+  const n = text.length;
+
+  // For each symbol, the rows of the pattern it occurs in
+  const blocks = Math.ceil(m / 32);
+  const peq = new Map<string, Int32Array>();
+  for (let i = 0; i < m; i++) {
+    let bits = peq.get(pattern[i]);
+    if (!bits) {
+      bits = new Int32Array(blocks);
+      peq.set(pattern[i], bits);
+    }
+    bits[i >> 5] |= 1 << (i & 31);
   }
 
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1];
-      } else {
-        dp[i][j] = Math.min(
-          dp[i - 1][j] + 1,
-          dp[i][j - 1] + 1,
-          dp[i - 1][j - 1] + 1
-        );
-      }
+  // Vertical deltas of the current column: +1 (pv) and -1 (mv) bits
+  const pv = new Int32Array(blocks).fill(-1);
+  const mv = new Int32Array(blocks);
+  const none = new Int32Array(blocks);
+  const lastRow = (m - 1) & 31;
+  let score = m;
+
+  for (let j = 0; j < n; j++) {
+    const eqs = peq.get(text[j]) ?? none;
+    // Horizontal delta entering the top of each block; the first row counts up
+    let hin = 1;
+
+    for (let k = 0; k < blocks; k++) {
+      let eq = eqs[k];
+      const p = pv[k];
+      const mm = mv[k];
+
+      const xv = eq | mm;
+      if (hin < 0) eq |= 1;
+      const xh = (((eq & p) + p) ^ p) | eq;
+      let ph = mm | ~(xh | p);
+      let mh = p & xh;
+
+      const top = k === blocks - 1 ? lastRow : 31;
+      const hout = (ph >>> top) & 1 ? 1 : (mh >>> top) & 1 ? -1 : 0;
+
+      ph <<= 1;
+      mh <<= 1;
+      if (hin < 0) mh |= 1;
+      else if (hin > 0) ph |= 1;
+
+      pv[k] = mh | ~(xv | ph);
+      mv[k] = ph & xv;
+      hin = hout;
     }
+
+    score += hin;
+    if (score - (n - j - 1) > maxDistance) return score - (n - j - 1);
   }
 
-  return dp[m][n];
+  return score;
 }
 
 /**
  * Find differences between two strings
  *
- * @param input - The input string
+ * @param input - The input string, or normalized input from normalizeWithMap()
+ *   to also locate each difference in the text as written
  * @param correct - The correct string
- * @returns Array of differences with positions
+ * @returns Array of differences with positions; `span` is the difference's
+ *   place in the original text (only when `input` came from normalizeWithMap())
+ *
+ * @example
+ * ```ts
+ * const input = normalizeWithMap(userText);
+ * for (const diff of findDifferences(input, normalizeArabic(verse.text))) {
+ *   highlight(userText, diff.span!);
+ * }
+ * ```
  */
 export function findDifferences(
-  input: string,
+  input: string | NormalizedText,
   correct: string
-): { input: string; correct: string; position: number }[] {
+): { input: string; correct: string; position: number; span?: TextSpan }[] {
+  if (typeof input !== 'string') {
+    return findDifferences(input.text, correct).map((difference) => {
+      const length = difference.input === '(missing)' ? 0 : difference.input.length;
+      const span = toOriginalSpan(input, difference.position, difference.position + length);
+      return { ...difference, span };
+    });
+  }
+
   const differences: { input: string; correct: string; position: number }[] =
     [];
 
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { LLMProcessor } from './llm-integration';
+import { QuranValidator } from './validator';
+import { classifyQuote, resolvePolicy } from './policy';
+
+describe('classifyQuote()', () => {
+  const validator = new QuranValidator();
+  const processor = new LLMProcessor({ validator });
+  const basmala = validator.getVerse(1, 1)!.text;
+
+  const classify = (text: string) => processor.process(text).quotes.map(classifyQuote);
+
+  it('should classify an exact quote', () => {
+    expect(classify(`<quran ref="1:1">${basmala}</quran>`)).toEqual(['exact']);
+  });
+
+  it('should classify a quote missing its diacritics', () => {
+    expect(classify('<quran ref="1:1">بسم ٱلله ٱلرحمٰن ٱلرحيم</quran>')).toEqual(['diacritics']);
+  });
+
+  it('should classify a quote cited under another verse', () => {
+    expect(classify(`<quran ref="1:2">${basmala}</quran>`)).toEqual(['wrong-reference']);
+  });
+
+  it('should classify a partial verse', () => {
+    expect(classify('<quran ref="1:1">بسم ٱلله ٱلرحمٰن</quran>')).toEqual(['truncated']);
+  });
+
+  it('should classify fabricated text', () => {
+    expect(classify('<quran ref="2:100">هذا نص مزيف لا يوجد في القرآن الكريم أبداً</quran>')).toEqual([
+      'fabricated',
+    ]);
+  });
+
+  it('should classify a reference to a verse that does not exist', () => {
+    expect(classify(`<quran ref="999:1">${basmala}</quran>`)).toEqual(['invalid-reference']);
+  });
+
+  it('should classify an untagged quote', () => {
+    expect(classify(`The opening verse is ${basmala} as you know.`)).toEqual(['untagged']);
+  });
+});
+
+describe('resolvePolicy()', () => {
+  it('should correct everything correctable with autoCorrect', () => {
+    const policy = resolvePolicy(true);
+
+    expect(policy.diacritics).toBe('correct');
+    expect(policy['wrong-reference']).toBe('correct');
+    expect(policy.fabricated).toBe('keep');
+    expect(policy.truncated).toBe('keep');
+  });
+
+  it('should keep everything without autoCorrect', () => {
+    expect(new Set(Object.values(resolvePolicy(false)))).toEqual(new Set(['keep']));
+  });
+
+  it('should let a policy override the defaults', () => {
+    const policy = resolvePolicy(true, { fabricated: 'strip' });
+
+    expect(policy.fabricated).toBe('strip');
+    expect(policy.diacritics).toBe('correct');
+  });
+});
+
+describe('truncated quotes', () => {
+  const validator = new QuranValidator();
+  const excerpt = '<quran ref="1:1">بسم ٱلله ٱلرحمٰن</quran>';
+
+  it('should keep an excerpt by default', () => {
+    const result = new LLMProcessor({ validator }).process(excerpt);
+
+    expect(result.decisions[0]).toEqual({
+      quoteIndex: 0,
+      issue: 'truncated',
+      action: 'keep',
+      changed: false,
+    });
+    expect(result.correctedText).toBe(excerpt);
+  });
+
+  it('should swap in the full verse with replace', () => {
+    const result = new LLMProcessor({ validator, policy: { truncated: 'replace' } }).process(excerpt);
+
+    expect(result.decisions[0].changed).toBe(true);
+    expect(result.correctedText).toBe(`<quran ref="1:1">${validator.getVerse(1, 1)!.text}</quran>`);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Correction policies
+ *
+ * Every quote LLMProcessor finds is classified by what, if anything, is
+ * wrong with it. A policy maps each issue to an action, so callers can for
+ * example fix diacritics silently but remove fabricated verses entirely.
+ */
+
+import { normalizeArabic } from './normalizer';
+import { parseSingleReference } from './reference-parser';
+import type { QuoteAnalysis } from './llm-integration';
+
+/**
+ * What is wrong with a quote
+ *
+ * - `exact`: nothing, the quote is word-for-word correct
+ * - `diacritics`: the right verse, with diacritics or spelling differences
+ * - `wrong-reference`: an authentic quote cited under another verse, or with a wrong ayah number written inside it
+ * - `truncated`: part of the cited verse, presented as the whole
+ * - `fabricated`: text that isn't the cited verse or any other
+ * - `untagged`: an authentic quote the model didn't tag (contextual or fuzzy detection)
+ * - `invalid-reference`: the cited reference doesn't name a real verse
+ */
+export type QuoteIssue =
+  | 'exact'
+  | 'diacritics'
+  | 'wrong-reference'
+  | 'truncated'
+  | 'fabricated'
+  | 'untagged'
+  | 'invalid-reference';
+
+/**
+ * What to do with a quote
+ *
+ * - `keep`: leave it as written
+ * - `correct`: apply the processor's correction, if it has one
+ * - `replace`: substitute the canonical text of the cited verse
+ * - `strip`: remove the quote
+ * - `redact`: replace the quote with a placeholder
+ * - `block`: withhold the whole response
+ */
+export type PolicyAction = 'keep' | 'correct' | 'replace' | 'strip' | 'redact' | 'block';
+
+/**
+ * Action to take for each issue; issues left out use the default policy
+ */
+export type CorrectionPolicy = Partial<Record<QuoteIssue, PolicyAction>>;
+
+/**
+ * What the processor did with one quote
+ */
+export interface PolicyDecision {
+  /** Index of the quote in ProcessedOutput.quotes */
+  quoteIndex: number;
+  issue: QuoteIssue;
+  /** The action the policy chose */
+  action: PolicyAction;
+  /** Whether the action changed the text (e.g. 'correct' with nothing to correct does not) */
+  changed: boolean;
+  /** The quote's text after the action, when it changed ('' when stripped) */
+  text?: string;
+}
+
+/**
+ * Policy equivalent to `autoCorrect: true`
+ *
+ * A truncated quote is kept: an excerpt has no correction of its own, and
+ * `replace` swaps in the full verse for callers who want that.
+ */
+const CORRECTING_POLICY: Record<QuoteIssue, PolicyAction> = {
+  exact: 'keep',
+  diacritics: 'correct',
+  'wrong-reference': 'correct',
+  truncated: 'keep',
+  fabricated: 'keep',
+  untagged: 'correct',
+  'invalid-reference': 'correct',
+};
+
+/**
+ * Policy equivalent to `autoCorrect: false`
+ */
+const REPORTING_POLICY: Record<QuoteIssue, PolicyAction> = {
+  exact: 'keep',
+  diacritics: 'keep',
+  'wrong-reference': 'keep',
+  truncated: 'keep',
+  fabricated: 'keep',
+  untagged: 'keep',
+  'invalid-reference': 'keep',
+};
+
+/**
+ * Complete a policy with the defaults implied by `autoCorrect`
+ */
+export function resolvePolicy(
+  autoCorrect: boolean,
+  policy: CorrectionPolicy = {}
+): Record<QuoteIssue, PolicyAction> {
+  return { ...(autoCorrect ? CORRECTING_POLICY : REPORTING_POLICY), ...policy };
+}
+
+/**
+ * Decide what is wrong with a quote
+ *
+ * @example
+ * ```ts
+ * const { quotes } = processor.process('<quran ref="1:2">بِسْمِ ٱللَّهِ ...</quran>');
+ * classifyQuote(quotes[0]); // "wrong-reference"
+ * ```
+ */
+export function classifyQuote(quote: QuoteAnalysis): QuoteIssue {
+  if (quote.detectionMethod === 'translation') {
+    switch (quote.translationValidation?.status) {
+      case 'wrong-reference':
+        return 'wrong-reference';
+      case 'unmatched':
+        return 'fabricated';
+      default:
+        // Matched, or no translation of the verse to check against
+        return 'exact';
+    }
+  }
+
+  const cited = quote.citedReference && parseSingleReference(quote.citedReference)?.reference;
+  if (quote.citedReference && !cited) return 'invalid-reference';
+
+  if (!quote.isValid) {
+    const isExcerpt =
+      !!quote.normalizedInput && !!quote.expectedNormalized?.includes(quote.normalizedInput);
+    return isExcerpt ? 'truncated' : 'fabricated';
+  }
+
+  if (quote.detectionMethod !== 'tagged') return 'untagged';
+  if (quote.ayahMarkers?.some((marker) => !marker.isCorrect && marker.actualReference)) {
+    return 'wrong-reference';
+  }
+  if (!quote.wasCorrected) return 'exact';
+  if (cited && quote.reference !== cited) return 'wrong-reference';
+
+  const original = normalizeArabic(quote.original);
+  const corrected = normalizeArabic(quote.corrected);
+  return corrected !== original && corrected.includes(original) ? 'truncated' : 'diacritics';
+}
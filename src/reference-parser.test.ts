@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseQuranReference,
+  parseSingleReference,
+  formatReference,
+  findSurah,
+  QuranReferenceError,
+} from './reference-parser';
+
+function refs(input: string): string[] {
+  return parseQuranReference(input).references.map((r) => r.reference);
+}
+
+describe('parseQuranReference()', () => {
+  describe('citation styles', () => {
+    it('should parse numeric references and ranges', () => {
+      expect(refs('2:255')).toEqual(['2:255']);
+      expect(refs('112:1-4')).toEqual(['112:1-4']);
+      expect(refs('2/255')).toEqual(['2:255']);
+    });
+
+    it('should parse Q and Quran prefixes', () => {
+      expect(refs('Q 2:255')).toEqual(['2:255']);
+      expect(refs('Q. 2:255')).toEqual(['2:255']);
+      expect(refs('Quran 2:255')).toEqual(['2:255']);
+      expect(refs("Qur'an 112:1-4")).toEqual(['112:1-4']);
+    });
+
+    it('should parse "Surah N, verse N"', () => {
+      expect(refs('Surah 2, verse 255')).toEqual(['2:255']);
+      expect(refs('Surah Al-Baqarah, ayah 255-257')).toEqual(['2:255-257']);
+    });
+
+    it('should parse English surah names with spelling variants', () => {
+      expect(refs('Al-Baqarah 255')).toEqual(['2:255']);
+      expect(refs('al baqara 255')).toEqual(['2:255']);
+      expect(refs('Surat al-Fatihah 1')).toEqual(['1:1']);
+      expect(refs('Al-Imran 18')).toEqual(['3:18']);
+      expect(refs('Yasin 1')).toEqual(['36:1']);
+    });
+
+    it('should parse Arabic surah names and Arabic-Indic digits', () => {
+      expect(refs('البقرة: ٢٥٥')).toEqual(['2:255']);
+      expect(refs('سورة الإخلاص ١-٤')).toEqual(['112:1-4']);
+      expect(refs('٢:٢٥٥')).toEqual(['2:255']);
+      expect(refs('۲:۲۵۵')).toEqual(['2:255']);
+    });
+
+    it('should ignore surrounding parentheses', () => {
+      expect(refs('(2:255)')).toEqual(['2:255']);
+    });
+  });
+
+  describe('lists', () => {
+    it('should parse comma-separated references', () => {
+      expect(refs('2:255, 3:18')).toEqual(['2:255', '3:18']);
+      expect(refs('البقرة ٢٥٥، آل عمران ١٨')).toEqual(['2:255', '3:18']);
+    });
+
+    it('should read a bare ayah number as the same surah', () => {
+      expect(refs('2:255, 256')).toEqual(['2:255', '2:256']);
+    });
+
+    it('should keep valid references when one entry fails', () => {
+      const result = parseQuranReference('2:255, Foo 3, 3:18');
+
+      expect(result.references.map((r) => r.reference)).toEqual(['2:255', '3:18']);
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].source).toBe('Foo 3');
+    });
+  });
+
+  describe('structured result', () => {
+    it('should return surah, ayah and range fields', () => {
+      const [ref] = parseQuranReference('Al-Ikhlas 1-4').references;
+
+      expect(ref).toEqual({
+        surah: 112,
+        startAyah: 1,
+        endAyah: 4,
+        isRange: true,
+        reference: '112:1-4',
+        source: 'Al-Ikhlas 1-4',
+      });
+    });
+
+    it('should collapse a one-ayah range', () => {
+      const [ref] = parseQuranReference('112:1-1').references;
+
+      expect(ref.isRange).toBe(false);
+      expect(ref.reference).toBe('112:1');
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject text that is not a reference', () => {
+      const { errors } = parseQuranReference('hello');
+
+      expect(errors[0]).toBeInstanceOf(QuranReferenceError);
+      expect(errors[0].code).toBe('INVALID_FORMAT');
+    });
+
+    it('should reject plain numbers with no separator between surah and ayah', () => {
+      for (const input of ['12', '2255', '1 7', '١٢']) {
+        const { references, errors } = parseQuranReference(input);
+
+        expect(references).toEqual([]);
+        expect(errors[0].code).toBe('INVALID_FORMAT');
+      }
+    });
+
+    it('should still accept whitespace after a surah name', () => {
+      expect(parseQuranReference('Al-Baqarah 255').references[0].reference).toBe('2:255');
+      expect(parseQuranReference('البقرة ٢٥٥').references[0].reference).toBe('2:255');
+    });
+
+    it('should reject unknown surahs', () => {
+      expect(parseQuranReference('115:1').errors[0].code).toBe('UNKNOWN_SURAH');
+      expect(parseQuranReference('Al-Foo 1').errors[0].code).toBe('UNKNOWN_SURAH');
+    });
+
+    it('should reject ayat beyond the end of the surah', () => {
+      const { errors } = parseQuranReference('2:287');
+
+      expect(errors[0].code).toBe('AYAH_OUT_OF_RANGE');
+      expect(errors[0].message).toContain('286');
+    });
+
+    it('should reject reversed ranges', () => {
+      expect(parseQuranReference('2:5-3').errors[0].code).toBe('INVALID_RANGE');
+    });
+
+    it('should return nothing for empty input', () => {
+      expect(parseQuranReference('  ')).toEqual({ references: [], errors: [] });
+    });
+  });
+});
+
+describe('parseSingleReference()', () => {
+  it('should return the only reference', () => {
+    expect(parseSingleReference('Surah 2, verse 255')?.reference).toBe('2:255');
+  });
+
+  it('should return undefined for lists and invalid input', () => {
+    expect(parseSingleReference('2:255, 3:18')).toBeUndefined();
+    expect(parseSingleReference('2:999')).toBeUndefined();
+  });
+});
+
+describe('formatReference()', () => {
+  it('should format numeric references by default', () => {
+    expect(formatReference('Al-Baqarah 255')).toBe('2:255');
+  });
+
+  it('should format every built-in style', () => {
+    expect(formatReference('2:255', 'english')).toBe('Al-Baqara 255');
+    expect(formatReference('2:255', 'arabic')).toBe('البقرة: ٢٥٥');
+    expect(formatReference('2:255', 'academic')).toBe('Q. 2:255');
+  });
+
+  it('should format ranges', () => {
+    expect(formatReference('112:1-4', 'english')).toBe('Al-Ikhlas 1-4');
+    expect(formatReference('112:1-4', 'arabic')).toBe('الإخلاص: ١-٤');
+    expect(formatReference('112:1-4', 'academic')).toBe('Q. 112:1-4');
+  });
+
+  it('should accept structured references', () => {
+    expect(formatReference({ surah: 1, startAyah: 7 }, 'english')).toBe('Al-Fatiha 7');
+  });
+
+  it('should accept a custom formatter', () => {
+    const urdu = formatReference('2:255', (ref, surah) => `سورہ ${surah.name}، آیت ${ref.startAyah}`);
+
+    expect(urdu).toBe('سورہ البقرة، آیت 255');
+  });
+
+  it('should round-trip through parseQuranReference', () => {
+    for (const style of ['numeric', 'english', 'arabic', 'academic'] as const) {
+      expect(parseSingleReference(formatReference('3:18-19', style))?.reference).toBe('3:18-19');
+    }
+  });
+
+  it('should throw typed errors for invalid references', () => {
+    expect(() => formatReference('2:300')).toThrow(QuranReferenceError);
+    expect(() => formatReference({ surah: 115, startAyah: 1 })).toThrow('Unknown surah');
+    expect(() => formatReference('2:255, 3:18')).toThrow('single verse reference');
+  });
+});
+
+describe('findSurah()', () => {
+  it('should find surahs by number, English name and Arabic name', () => {
+    expect(findSurah('2')?.englishName).toBe('Al-Baqara');
+    expect(findSurah('An-Nas')?.number).toBe(114);
+    expect(findSurah('الفاتحة')?.number).toBe(1);
+  });
+
+  it('should return undefined for unknown names', () => {
+    expect(findSurah('Nothing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Verse reference parsing and formatting
+ *
+ * The parser understands the citation styles found in LLM output and user input:
+ * - "2:255", "2:255-257", "2/255"
+ * - "Q 2:255", "Q. 2:255", "Quran 2:255"
+ * - "Surah 2, verse 255", "Surah Al-Baqarah, ayah 255"
+ * - "Al-Baqarah 255", "البقرة: ٢٥٥" (English or Arabic surah names)
+ * - Arabic-Indic digits
+ * - comma-separated lists such as "2:255, 3:18" or "2:255, 256"
+ */
+
+import surahsData from '../data/quran-surahs.min.json';
+import { normalizeArabic } from './normalizer';
+import type {
+  QuranReference,
+  QuranSurah,
+  ReferenceErrorCode,
+  ReferenceFormatter,
+  ReferenceStyle,
+} from './types';
+
+/**
+ * A citation that could not be turned into a verse reference
+ */
+export class QuranReferenceError extends Error {
+  /** Why the citation was rejected */
+  readonly code: ReferenceErrorCode;
+  /** The citation text that failed to parse */
+  readonly source: string;
+
+  constructor(code: ReferenceErrorCode, message: string, source: string) {
+    super(message);
+    this.name = 'QuranReferenceError';
+    this.code = code;
+    this.source = source;
+  }
+}
+
+/**
+ * Result of parsing a citation that may list several references
+ */
+export interface ReferenceParseResult {
+  /** References parsed successfully, in input order */
+  references: QuranReference[];
+  /** One error per citation that could not be parsed */
+  errors: QuranReferenceError[];
+}
+
+const SURAHS = surahsData as QuranSurah[];
+
+// Common alternative names that the transliteration folding can't reach
+const SURAH_ALIASES: Record<string, number> = {
+  aalimran: 3,
+  aliimran: 3,
+  imran: 3,
+  baniisrail: 17,
+  mumin: 40,
+  hamimsajda: 41,
+  dahr: 76,
+  lahab: 111,
+  quraish: 106,
+  quraysh: 106,
+};
+
+const ARTICLE = /^(?:al|an|ar|as|ash|at|ath|ad|adh|az|ul)[\s-]+/;
+
+/**
+ * Fold an English surah name so spelling variants meet:
+ * "Al-Baqarah", "al baqara" and "Baqara" all become "baqara"
+ */
+function englishKey(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’'`ʿʾ]/g, '')
+    .trim()
+    .replace(ARTICLE, '')
+    .replace(/[^a-z]/g, '')
+    .replace(/([aeiou])h$/, '$1');
+}
+
+/**
+ * Fold an Arabic surah name: "سورة البقرة", "البقره" and "بقرة" all become "بقره"
+ */
+function arabicKey(name: string): string {
+  return normalizeArabic(name.replace(/[أإآ]/g, 'ا'), { stripHamza: true })
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/^سوره\s+/, '')
+    .replace(/\s+/g, '')
+    .replace(/^ال/, '');
+}
+
+let surahKeys: Map<string, number> | undefined;
+
+function getSurahKeys(): Map<string, number> {
+  if (!surahKeys) {
+    surahKeys = new Map(Object.entries(SURAH_ALIASES));
+    for (const surah of SURAHS) {
+      surahKeys.set(englishKey(surah.englishName), surah.number);
+      surahKeys.set(arabicKey(surah.name), surah.number);
+    }
+  }
+  return surahKeys;
+}
+
+/**
+ * Look up a surah by number, English name or Arabic name
+ *
+ * @param nameOrNumber - e.g. "2", "Al-Baqarah", "البقرة"
+ * @returns Surah metadata, or undefined if no surah matches
+ */
+export function findSurah(nameOrNumber: string): QuranSurah | undefined {
+  const text = toAsciiDigits(nameOrNumber).trim();
+  if (/^\d+$/.test(text)) {
+    return SURAHS[parseInt(text, 10) - 1];
+  }
+
+  const key = /[\u0600-\u06FF]/.test(text) ? arabicKey(text) : englishKey(text);
+  const number = getSurahKeys().get(key);
+  return number ? SURAHS[number - 1] : undefined;
+}
+
+/**
+ * Replace Arabic-Indic and Extended Arabic-Indic (Persian) digits with ASCII digits
+ */
+export function toAsciiDigits(text: string): string {
+  return text.replace(/[\u0660-\u0669\u06F0-\u06F9]/g, (digit) =>
+    String(digit.charCodeAt(0) & 0xf)
+  );
+}
+
+const VERSE_WORD = String.raw`(?:verses?|ayahs?|ayat|aya|vv?\.?|الآيات|الآية|آيات|آية|ايه|اية)`;
+
+const CITATION_PREFIX = /^(?:q\.?|qur['’]?an|koran)(?:\s+|(?=\d))/i;
+const SURAH_WORD = /^(?:s[uū]ra[ht]?\.?|سور[ةه])\s+/i;
+const CITATION = new RegExp(
+  String.raw`^(.+?)(\s*(?::|\/|,?\s*${VERSE_WORD})?\s*)(\d+)(?:\s*-\s*(\d+))?$`,
+  'i'
+);
+const BARE_AYAT = /^(\d+)(?:\s*-\s*(\d+))?$/;
+const STARTS_WITH_VERSE_WORD = new RegExp(String.raw`^${VERSE_WORD}\s*\d`, 'i');
+
+/**
+ * Whether a citation separates its surah from its ayah: ":", "/" or a verse
+ * word always do; whitespace only after a surah name, so that "2255" and
+ * "1 7" are not read as 2:255 and 1:7
+ */
+function hasSeparator(surah: string, separator: string): boolean {
+  if (/\S/.test(separator)) return true;
+  return separator.length > 0 && !/^\d+$/.test(surah.trim());
+}
+
+/**
+ * Split a list of citations on commas and semicolons, keeping
+ * "Surah 2, verse 255" together as one citation
+ */
+function splitCitations(text: string): string[] {
+  const parts: string[] = [];
+  for (const raw of text.split(/[,،;؛]/)) {
+    const part = raw.trim();
+    if (!part) continue;
+    if (parts.length > 0 && STARTS_WITH_VERSE_WORD.test(part)) {
+      parts[parts.length - 1] += `, ${part}`;
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Parse one or more Quran citations into structured references
+ *
+ * Each citation in a comma-separated list is parsed on its own, so one bad
+ * entry doesn't discard the rest. A bare ayah number after a citation
+ * ("2:255, 256") refers to the same surah.
+ *
+ * @param input - Citation text, e.g. "Al-Baqarah 255" or "2:255, 3:18"
+ * @returns Parsed references and one typed error per rejected citation
+ *
+ * @example
+ * ```ts
+ * const { references, errors } = parseQuranReference('Q 2:255, Al-Imran 18');
+ * references.map((r) => r.reference); // ["2:255", "3:18"]
+ *
+ * parseQuranReference('2:300').errors[0].code; // "AYAH_OUT_OF_RANGE"
+ * ```
+ */
+export function parseQuranReference(input: string): ReferenceParseResult {
+  const references: QuranReference[] = [];
+  const errors: QuranReferenceError[] = [];
+
+  const text = toAsciiDigits(input).replace(/[\u2010-\u2015\u2212]/g, '-');
+  let lastSurah: QuranSurah | undefined;
+
+  for (const source of splitCitations(text)) {
+    const citation = source
+      .replace(/^[\s(\[]+|[\s)\].]+$/g, '')
+      .replace(CITATION_PREFIX, '')
+      .replace(SURAH_WORD, '');
+
+    let surah: QuranSurah | undefined;
+    let ayat: (string | undefined)[];
+
+    const bare = citation.match(BARE_AYAT);
+    if (bare && lastSurah) {
+      surah = lastSurah;
+      ayat = bare.slice(1);
+    } else {
+      const match = citation.match(CITATION);
+      if (!match || !hasSeparator(match[1], match[2])) {
+        errors.push(
+          new QuranReferenceError('INVALID_FORMAT', `Not a verse reference: "${source}"`, source)
+        );
+        continue;
+      }
+      surah = findSurah(match[1]);
+      if (!surah) {
+        errors.push(
+          new QuranReferenceError('UNKNOWN_SURAH', `Unknown surah: "${match[1].trim()}"`, source)
+        );
+        continue;
+      }
+      ayat = match.slice(3);
+    }
+
+    const reference = toReference(surah, ayat[0]!, ayat[1], source);
+    if (reference instanceof QuranReferenceError) {
+      errors.push(reference);
+    } else {
+      references.push(reference);
+      lastSurah = surah;
+    }
+  }
+
+  return { references, errors };
+}
+
+/**
+ * Parse a citation that must name exactly one verse or verse range
+ *
+ * @param input - Citation text, e.g. "Surah 2, verse 255"
+ * @returns The reference, or undefined if the input is invalid or lists several
+ */
+export function parseSingleReference(input: string): QuranReference | undefined {
+  const { references, errors } = parseQuranReference(input);
+  return references.length === 1 && errors.length === 0 ? references[0] : undefined;
+}
+
+function toReference(
+  surah: QuranSurah,
+  start: string,
+  end: string | undefined,
+  source: string
+): QuranReference | QuranReferenceError {
+  const startAyah = parseInt(start, 10);
+  let endAyah = end !== undefined ? parseInt(end, 10) : undefined;
+
+  if (endAyah !== undefined && endAyah < startAyah) {
+    return new QuranReferenceError(
+      'INVALID_RANGE',
+      `Range ends before it starts: "${source}"`,
+      source
+    );
+  }
+  if (endAyah === startAyah) endAyah = undefined;
+
+  const lastAyah = endAyah ?? startAyah;
+  if (startAyah < 1 || lastAyah > surah.versesCount) {
+    return new QuranReferenceError(
+      'AYAH_OUT_OF_RANGE',
+      `Surah ${surah.number} (${surah.englishName}) has ${surah.versesCount} ayat: "${source}"`,
+      source
+    );
+  }
+
+  return {
+    surah: surah.number,
+    startAyah,
+    endAyah,
+    isRange: endAyah !== undefined,
+    reference:
+      endAyah !== undefined
+        ? `${surah.number}:${startAyah}-${endAyah}`
+        : `${surah.number}:${startAyah}`,
+    source,
+  };
+}
+
+/**
+ * Write a number with Arabic-Indic digits
+ */
+function toArabicDigits(value: number): string {
+  return String(value).replace(/\d/g, (digit) => String.fromCharCode(0x0660 + Number(digit)));
+}
+
+function ayahSpan(reference: QuranReference, digits: (n: number) => string = String): string {
+  return reference.endAyah !== undefined
+    ? `${digits(reference.startAyah)}-${digits(reference.endAyah)}`
+    : digits(reference.startAyah);
+}
+
+const REFERENCE_STYLES: Record<ReferenceStyle, ReferenceFormatter> = {
+  numeric: (reference) => reference.reference,
+  english: (reference, surah) => `${surah.englishName} ${ayahSpan(reference)}`,
+  arabic: (reference, surah) => `${surah.name}: ${ayahSpan(reference, toArabicDigits)}`,
+  academic: (reference) => `Q. ${reference.reference}`,
+};
+
+/**
+ * Render a verse reference in a citation style
+ *
+ * @param reference - A citation string in any form parseQuranReference accepts,
+ *   or a structured reference
+ * @param style - Built-in style name or a custom formatter (default: 'numeric')
+ * @returns The formatted citation
+ * @throws QuranReferenceError if the reference doesn't name exactly one verse or range
+ *
+ * @example
+ * ```ts
+ * formatReference('2:255', 'english');  // "Al-Baqara 255"
+ * formatReference('2:255', 'arabic');   // "البقرة: ٢٥٥"
+ * formatReference('2:255', 'academic'); // "Q. 2:255"
+ * formatReference({ surah: 112, startAyah: 1, endAyah: 4 }, 'english'); // "Al-Ikhlas 1-4"
+ * ```
+ */
+export function formatReference(
+  reference: string | Pick<QuranReference, 'surah' | 'startAyah' | 'endAyah'>,
+  style: ReferenceStyle | ReferenceFormatter = 'numeric'
+): string {
+  let parsed: QuranReference | QuranReferenceError;
+
+  if (typeof reference === 'string') {
+    const result = parseQuranReference(reference);
+    parsed =
+      result.errors[0] ??
+      (result.references.length === 1
+        ? result.references[0]
+        : new QuranReferenceError(
+            'INVALID_FORMAT',
+            `Expected a single verse reference: "${reference}"`,
+            reference
+          ));
+  } else {
+    const { surah, startAyah, endAyah } = reference;
+    const source =
+      endAyah !== undefined ? `${surah}:${startAyah}-${endAyah}` : `${surah}:${startAyah}`;
+    const surahInfo = SURAHS[surah - 1];
+    parsed = surahInfo
+      ? toReference(surahInfo, String(startAyah), endAyah?.toString(), source)
+      : new QuranReferenceError('UNKNOWN_SURAH', `Unknown surah: "${surah}"`, source);
+  }
+
+  if (parsed instanceof QuranReferenceError) {
+    throw parsed;
+  }
+
+  const formatter = typeof style === 'function' ? style : REFERENCE_STYLES[style];
+  return formatter(parsed, SURAHS[parsed.surah - 1]);
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { renderHTML, renderMarkdown, getQuoteStatus } from './renderer';
+import { LLMProcessor } from './llm-integration';
+import { QuranValidator } from './validator';
+
+const validator = new QuranValidator();
+const processor = new LLMProcessor({ validator });
+const basmala = validator.getVerse(1, 1)!.text;
+const fabricatedText = 'هذا نص مزيف لا يوجد في القرآن الكريم أبداً';
+
+describe('renderHTML()', () => {
+  it('should wrap each quote in a status span with an RTL text and reference link', () => {
+    const html = renderHTML(processor.process(`Read <quran ref="1:1">${basmala}</quran> daily.`));
+
+    expect(html).toBe(
+      '<div class="qv-output" dir="auto">Read ' +
+        '<span class="qv-quote qv-quote--valid" data-status="valid" data-reference="1:1">' +
+        `<span class="qv-quote__text" dir="rtl" lang="ar">${basmala}</span> ` +
+        '<a class="qv-quote__ref" href="https://quran.com/1/1">(1:1)</a></span>' +
+        ' daily.</div>'
+    );
+  });
+
+  it('should show corrected text and footnote the correction', () => {
+    const html = renderHTML(processor.process('<quran ref="1:2">بسم ٱلله ٱلرحمٰن ٱلرحيم</quran>'), {
+      footnotes: true,
+    });
+
+    expect(html).toContain('qv-quote--corrected');
+    expect(html).toContain(`dir="rtl" lang="ar">${basmala}</span>`);
+    expect(html).toContain('<sup class="qv-quote__note"><a href="#qv-note-1">1</a></sup>');
+    expect(html).toContain('<li id="qv-note-1" class="qv-footnote">Quote is 1:1, not 1:2: ');
+    expect(html).toContain('<del dir="auto">بسم ٱلله ٱلرحمٰن ٱلرحيم</del>');
+  });
+
+  it('should mark fabricated words of invalid quotes', () => {
+    const result = processor.process(`<quran ref="2:100">${fabricatedText}</quran>`);
+    const html = renderHTML(result);
+
+    expect(getQuoteStatus(result.quotes[0])).toBe('invalid');
+    expect(html).toContain('qv-quote--invalid');
+    expect(html).toMatch(/<mark class="qv-word qv-word--fabricated">[^<]+<\/mark>/);
+    expect(renderHTML(result, { showDiff: false })).not.toContain('<mark');
+  });
+
+  it('should escape text outside and inside quotes', () => {
+    const html = renderHTML(
+      processor.process(`<script>alert("x")</script> <quran ref="1:1">${basmala}</quran>`)
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+  });
+
+  it('should drop unsafe and customise reference links and class names', () => {
+    const result = processor.process(`<quran ref="1:1">${basmala}</quran>`);
+
+    expect(renderHTML(result, { referenceUrl: () => 'javascript:alert(1)' })).not.toContain('href');
+    expect(
+      renderHTML(result, {
+        classPrefix: 'verse',
+        referenceUrl: (ref) => `/quran/${ref.surah}/${ref.startAyah}`,
+      })
+    ).toContain('<a class="verse-quote__ref" href="/quran/1/1">(1:1)</a>');
+  });
+
+  it('should leave out stripped quotes and show redacted ones as placeholders', () => {
+    const text = `A <quran ref="2:100">${fabricatedText}</quran> B <quran ref="2:101">${fabricatedText}</quran>`;
+    let result = new LLMProcessor({ validator, policy: { fabricated: 'strip' } }).process(text);
+
+    expect(renderHTML(result)).toBe('<div class="qv-output" dir="auto">A  B </div>');
+
+    result = new LLMProcessor({ validator, policy: { fabricated: 'redact' } }).process(text);
+    expect(renderHTML(result)).toContain(
+      '<span class="qv-quote qv-quote--redacted" data-status="redacted">[quote removed]</span>'
+    );
+    expect(renderMarkdown(result)).toBe('A *\\[quote removed\\]* B *\\[quote removed\\]*');
+  });
+
+  it('should keep transliterated quotes in Latin script with their reference', () => {
+    const result = new LLMProcessor({ validator, scanTransliterated: true }).process(
+      'Recite: Qul huwa Allahu ahad.'
+    );
+
+    expect(renderHTML(result)).toBe(
+      '<div class="qv-output" dir="auto">Recite: ' +
+        '<span class="qv-quote qv-quote--valid" data-status="valid" data-reference="112:1">' +
+        'Qul huwa Allahu ahad <a class="qv-quote__ref" href="https://quran.com/112/1">(112:1)</a>' +
+        '</span>.</div>'
+    );
+  });
+
+  it('should render a blocked response as a notice', () => {
+    const result = new LLMProcessor({ validator, policy: { fabricated: 'block' } }).process(
+      `Read <quran ref="1:1">بسم ٱلله ٱلرحمٰن ٱلرحيم</quran> and <quran ref="2:100">${fabricatedText}</quran>`
+    );
+
+    expect(result.blocked).toBe(true);
+    expect(renderHTML(result)).toBe(
+      '<div class="qv-output qv-output--blocked" dir="auto">[response blocked]</div>'
+    );
+    expect(renderMarkdown(result, { blockedNotice: 'Withheld <unverified>' })).toBe(
+      '*Withheld \\<unverified\\>*'
+    );
+  });
+
+  it('should accept the processed text explicitly', () => {
+    const text = `<quran ref="1:1">${basmala}</quran>`;
+    const result = processor.process(text);
+
+    expect(renderHTML(result, { source: text })).toBe(renderHTML(result));
+  });
+});
+
+describe('renderMarkdown()', () => {
+  it('should isolate RTL quotes and link references', () => {
+    const markdown = renderMarkdown(processor.process(`Read <quran ref="1:1">${basmala}</quran>.`));
+
+    expect(markdown).toBe(`Read \u2067${basmala}\u2069 ([1:1](https://quran.com/1/1)).`);
+  });
+
+  it('should strike fabricated words and warn about invalid quotes', () => {
+    const markdown = renderMarkdown(processor.process(`<quran ref="2:100">${fabricatedText}</quran>`));
+
+    expect(markdown).toMatch(/~~[^~]+~~/);
+    expect(markdown).toContain('⚠️ *unverified*');
+  });
+
+  it('should escape HTML in the model text', () => {
+    const markdown = renderMarkdown(
+      processor.process(`**Note** <img src=x onerror=alert(1)> & <quran ref="1:1">${basmala}</quran>`)
+    );
+
+    expect(markdown).toBe(
+      `**Note** &lt;img src=x onerror=alert(1)&gt; &amp; \u2067${basmala}\u2069 ([1:1](https://quran.com/1/1))`
+    );
+  });
+
+  it('should escape HTML in transliterated quotes', () => {
+    const result = new LLMProcessor({ validator, scanTransliterated: true }).process(
+      '<b>Recite:</b> Qul huwa Allahu ahad.'
+    );
+
+    expect(renderMarkdown(result)).toBe(
+      '&lt;b&gt;Recite:&lt;/b&gt; Qul huwa Allahu ahad ([112:1](https://quran.com/112/1)).'
+    );
+  });
+
+  it('should add footnotes for corrections', () => {
+    const markdown = renderMarkdown(
+      processor.process('<quran ref="1:1">بسم ٱلله ٱلرحمٰن ٱلرحيم</quran>'),
+      { footnotes: true }
+    );
+
+    expect(markdown).toContain(`\u2069 ([1:1](https://quran.com/1/1))[^1]`);
+    expect(markdown).toContain('\n\n[^1]: Quote text restored to the exact wording of 1:1: ~~');
+  });
+});
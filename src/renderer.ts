@@ -0,0 +1,407 @@
+/**
+ * Annotated rendering of processed LLM output
+ *
+ * Turns a ProcessedOutput into sanitized HTML or Markdown: each quote is
+ * marked with its status, set right-to-left, linked to its verse, with
+ * fabricated words highlighted and optional footnotes for corrections.
+ * Quotes the correction policy stripped are left out and redacted ones
+ * show their placeholder. Styling is left to CSS through class hooks.
+ */
+
+import { parseSingleReference } from './reference-parser';
+import { tokenizeWords } from './word-diff';
+import type { CorrectionPatch, ProcessedOutput, QuoteAnalysis } from './llm-integration';
+import type { PolicyDecision } from './policy';
+import type { QuranReference } from './types';
+
+/**
+ * Options for renderHTML() and renderMarkdown()
+ */
+export interface RenderOptions {
+  /** Prefix of every CSS class and element id (default: 'qv') */
+  classPrefix?: string;
+  /**
+   * Link target for a verse reference (default: quran.com). Return undefined
+   * for no link. Only http(s), relative and fragment URLs are used.
+   */
+  referenceUrl?: (reference: QuranReference) => string | undefined;
+  /** List each correction in a footnote (default: false) */
+  footnotes?: boolean;
+  /** Highlight fabricated words in invalid quotes (default: true) */
+  showDiff?: boolean;
+  /** The text that was processed (default: rebuilt from correctedText and patches) */
+  source?: string;
+  /** Notice shown instead of a blocked response (default: '[response blocked]') */
+  blockedNotice?: string;
+}
+
+/**
+ * Display status of a quote, also used as its CSS modifier
+ */
+export type QuoteStatus = 'valid' | 'corrected' | 'invalid';
+
+/**
+ * Status of a quote for display: invalid, corrected, or valid as written
+ */
+export function getQuoteStatus(quote: QuoteAnalysis): QuoteStatus {
+  if (!quote.isValid) return 'invalid';
+  return quote.wasCorrected ? 'corrected' : 'valid';
+}
+
+function defaultReferenceUrl(reference: QuranReference): string {
+  return reference.endAyah !== undefined
+    ? `https://quran.com/${reference.surah}/${reference.startAyah}-${reference.endAyah}`
+    : `https://quran.com/${reference.surah}/${reference.startAyah}`;
+}
+
+const SAFE_URL = /^(?:https?:\/\/|\/|\.{0,2}\/|#)/i;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Markdown renderers pass inline HTML through; keep the model's Markdown but not its markup
+function escapeMarkdownHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()<>#+!|~]/g, '\\$&');
+}
+
+const DEFAULT_BLOCKED_NOTICE = '[response blocked]';
+
+// Unicode isolates keep right-to-left quotes from reordering the surrounding text
+const RLI = '\u2067';
+const PDI = '\u2069';
+
+/**
+ * Rebuild the processed text from the corrected text and its patches
+ */
+function rebuildSource(processed: ProcessedOutput): string {
+  const parts: string[] = [];
+  let original = 0;
+  let corrected = 0;
+
+  for (const patch of processed.patches) {
+    const unchanged = patch.startIndex - original;
+    parts.push(processed.correctedText.slice(corrected, corrected + unchanged), patch.original);
+    corrected += unchanged + patch.replacement.length;
+    original = patch.endIndex;
+  }
+  parts.push(processed.correctedText.slice(corrected));
+
+  return parts.join('');
+}
+
+/**
+ * A quote prepared for rendering
+ */
+interface RenderedQuote {
+  quote: QuoteAnalysis;
+  status: QuoteStatus;
+  /** Patch applied to this quote, if any */
+  patch?: CorrectionPatch;
+  /** What the correction policy did with the quote */
+  decision?: PolicyDecision;
+  /** Footnote number, when footnotes are on and the quote was corrected */
+  note?: number;
+  url?: string;
+}
+
+/**
+ * Split the source text into plain text and quotes, in order
+ */
+function layout(
+  processed: ProcessedOutput,
+  options: RenderOptions
+): { source: string; parts: (string | RenderedQuote)[]; notes: RenderedQuote[] } {
+  const source = options.source ?? rebuildSource(processed);
+  const referenceUrl = options.referenceUrl ?? defaultReferenceUrl;
+  const patchByQuote = new Map(processed.patches.map((patch) => [patch.quoteIndex, patch]));
+  const decisionByQuote = new Map(
+    processed.decisions.map((decision) => [decision.quoteIndex, decision])
+  );
+
+  const quotes = processed.quotes
+    .map((quote, index) => ({ quote, index }))
+    .sort((a, b) => a.quote.startIndex - b.quote.startIndex);
+
+  const parts: (string | RenderedQuote)[] = [];
+  const notes: RenderedQuote[] = [];
+  let position = 0;
+
+  for (const { quote, index } of quotes) {
+    // Quotes never overlap in LLMProcessor output; ignore any that do
+    if (quote.startIndex < position) continue;
+
+    const decision = decisionByQuote.get(index);
+    if (decision?.changed && decision.action === 'strip') {
+      parts.push(source.slice(position, quote.startIndex));
+      position = quote.endIndex;
+      continue;
+    }
+
+    const parsed = quote.reference ? parseSingleReference(quote.reference) : undefined;
+    const url = parsed && referenceUrl(parsed);
+    const rendered: RenderedQuote = {
+      quote,
+      status: getQuoteStatus(quote),
+      patch: patchByQuote.get(index),
+      decision,
+      url: url && SAFE_URL.test(url) ? url : undefined,
+    };
+    if (options.footnotes && rendered.patch) {
+      rendered.note = notes.push(rendered);
+    }
+
+    parts.push(source.slice(position, quote.startIndex), rendered);
+    position = quote.endIndex;
+  }
+  parts.push(source.slice(position));
+
+  return { source, parts: parts.filter((part) => part !== ''), notes };
+}
+
+/**
+ * The quote's words, with the fabricated ones flagged
+ *
+ * Falls back to the analysed (normalized) words when the quote's own
+ * words can't be lined up with the analysis.
+ */
+function diffWordsOf(quote: QuoteAnalysis): { word: string; isFabricated: boolean }[] | undefined {
+  const analysis = quote.fabricationAnalysis;
+  if (!analysis || analysis.stats.fabricatedWords === 0) return undefined;
+
+  const tokens = tokenizeWords(quote.original);
+  if (tokens.length !== analysis.words.length) return analysis.words;
+
+  return tokens.map((token, i) => ({
+    word: quote.original.slice(token.start, token.end),
+    isFabricated: analysis.words[i].isFabricated,
+  }));
+}
+
+/**
+ * Text to show for a quote: its text after the policy's action, if that changed it
+ */
+function displayText(rendered: RenderedQuote): string {
+  const { quote, decision } = rendered;
+  return decision?.changed && decision.text !== undefined ? decision.text : quote.original;
+}
+
+/**
+ * Placeholder shown for a redacted quote
+ */
+function redactionOf(rendered: RenderedQuote): string | undefined {
+  const { decision } = rendered;
+  return decision?.changed && decision.action === 'redact' ? decision.text : undefined;
+}
+
+/**
+ * Whether a quote is written in Latin script (a translation or transliteration)
+ */
+function isLatinQuote(quote: QuoteAnalysis): boolean {
+  return quote.detectionMethod === 'translation' || quote.detectionMethod === 'transliterated';
+}
+
+/**
+ * Before and after text of a correction, for footnotes
+ */
+function correctionOf(rendered: RenderedQuote): { before: string; after: string } {
+  const { quote, patch } = rendered;
+  // A translated quote's patch covers only the part of its span that changed
+  return isLatinQuote(quote)
+    ? { before: patch!.original, after: patch!.replacement }
+    : { before: quote.original, after: displayText(rendered) };
+}
+
+/**
+ * The source span of a translated or transliterated quote, with its patch applied
+ */
+function translatedSpan(rendered: RenderedQuote, source: string): string {
+  const { quote, patch } = rendered;
+  const span = source.slice(quote.startIndex, quote.endIndex);
+  if (!patch) return span;
+
+  return (
+    span.slice(0, patch.startIndex - quote.startIndex) +
+    patch.replacement +
+    span.slice(patch.endIndex - quote.startIndex)
+  );
+}
+
+/**
+ * Render processed output as annotated HTML
+ *
+ * Text outside quotes is escaped, not interpreted; style the container
+ * with `white-space: pre-wrap` to keep the model's line breaks. A blocked
+ * response renders as the `blockedNotice` alone.
+ *
+ * Class hooks (with the default 'qv' prefix):
+ * - `qv-output` on the container, plus `qv-output--blocked` on a blocked response
+ * - `qv-quote` and `qv-quote--valid|corrected|invalid` on each quote
+ * - `qv-quote--redacted` instead on quotes replaced by a placeholder
+ * - `qv-quote__text`, `qv-quote__ref`, `qv-quote__note` inside a quote
+ * - `qv-word--fabricated` on fabricated words of invalid quotes
+ * - `qv-footnotes` and `qv-footnote` for the correction list
+ *
+ * @example
+ * ```ts
+ * const result = processor.process(llmResponse);
+ * element.innerHTML = renderHTML(result, { footnotes: true });
+ * ```
+ */
+export function renderHTML(processed: ProcessedOutput, options: RenderOptions = {}): string {
+  const prefix = escapeHtml(options.classPrefix ?? 'qv');
+  const showDiff = options.showDiff ?? true;
+  if (processed.blocked) {
+    const notice = escapeHtml(options.blockedNotice ?? DEFAULT_BLOCKED_NOTICE);
+    return `<div class="${prefix}-output ${prefix}-output--blocked" dir="auto">${notice}</div>`;
+  }
+  const { source, parts, notes } = layout(processed, options);
+
+  const renderQuote = (rendered: RenderedQuote): string => {
+    const { quote, status, url, note } = rendered;
+    const attributes =
+      `class="${prefix}-quote ${prefix}-quote--${status}" data-status="${status}"` +
+      (quote.reference ? ` data-reference="${escapeHtml(quote.reference)}"` : '');
+
+    const noteLink =
+      note !== undefined
+        ? `<sup class="${prefix}-quote__note"><a href="#${prefix}-note-${note}">${note}</a></sup>`
+        : '';
+
+    const placeholder = redactionOf(rendered);
+    if (placeholder !== undefined) {
+      return (
+        `<span class="${prefix}-quote ${prefix}-quote--redacted" data-status="redacted">` +
+        `${escapeHtml(placeholder)}${noteLink}</span>`
+      );
+    }
+
+    const label = escapeHtml(quote.formattedReference ?? quote.reference ?? '');
+    const reference = !label
+      ? ''
+      : url
+        ? ` <a class="${prefix}-quote__ref" href="${escapeHtml(url)}">(${label})</a>`
+        : ` <span class="${prefix}-quote__ref">(${label})</span>`;
+
+    if (isLatinQuote(quote)) {
+      // A translated quote carries its own reference in the text
+      const suffix = quote.detectionMethod === 'transliterated' ? reference : '';
+      return `<span ${attributes}>${escapeHtml(translatedSpan(rendered, source))}${suffix}${noteLink}</span>`;
+    }
+
+    const words = status === 'invalid' && showDiff ? diffWordsOf(quote) : undefined;
+    const text = words
+      ? words
+          .map((w) =>
+            w.isFabricated
+              ? `<mark class="${prefix}-word ${prefix}-word--fabricated">${escapeHtml(w.word)}</mark>`
+              : escapeHtml(w.word)
+          )
+          .join(' ')
+      : escapeHtml(displayText(rendered));
+
+    return (
+      `<span ${attributes}>` +
+      `<span class="${prefix}-quote__text" dir="rtl" lang="ar">${text}</span>` +
+      `${reference}${noteLink}</span>`
+    );
+  };
+
+  const body = parts
+    .map((part) => (typeof part === 'string' ? escapeHtml(part) : renderQuote(part)))
+    .join('');
+
+  let footnotes = '';
+  if (notes.length > 0) {
+    const items = notes
+      .map((rendered) => {
+        const { before, after } = correctionOf(rendered);
+        return (
+          `<li id="${prefix}-note-${rendered.note}" class="${prefix}-footnote">` +
+          `${escapeHtml(rendered.patch!.reason)}: ` +
+          `<del dir="auto">${escapeHtml(before)}</del> → <ins dir="auto">${escapeHtml(after)}</ins>` +
+          '</li>'
+        );
+      })
+      .join('');
+    footnotes = `<ol class="${prefix}-footnotes">${items}</ol>`;
+  }
+
+  return `<div class="${prefix}-output" dir="auto">${body}${footnotes}</div>`;
+}
+
+/**
+ * Render processed output as Markdown
+ *
+ * Text outside quotes keeps the model's Markdown, with `<`, `>` and `&`
+ * escaped so no HTML gets through. Quotes are wrapped in Unicode direction
+ * isolates, invalid quotes get a warning and their fabricated words struck
+ * through, and references become links. A blocked response renders as the
+ * `blockedNotice` alone.
+ *
+ * @example
+ * ```ts
+ * renderMarkdown(processor.process(llmResponse), { footnotes: true });
+ * // "... ⁧بِسْمِ ٱللَّهِ ...⁩ ([1:1](https://quran.com/1/1))[^1]\n\n[^1]: Quote text restored ..."
+ * ```
+ */
+export function renderMarkdown(processed: ProcessedOutput, options: RenderOptions = {}): string {
+  const showDiff = options.showDiff ?? true;
+  if (processed.blocked) {
+    return `*${escapeMarkdown(options.blockedNotice ?? DEFAULT_BLOCKED_NOTICE)}*`;
+  }
+  const { source, parts, notes } = layout(processed, options);
+
+  const renderQuote = (rendered: RenderedQuote): string => {
+    const { quote, status, url, note } = rendered;
+    const noteRef = note !== undefined ? `[^${note}]` : '';
+
+    const placeholder = redactionOf(rendered);
+    if (placeholder !== undefined) {
+      return placeholder ? `*${escapeMarkdown(placeholder)}*${noteRef}` : noteRef;
+    }
+
+    const label = escapeMarkdown(quote.formattedReference ?? quote.reference ?? '');
+    const href = url?.replace(/[()\s]/g, encodeURIComponent);
+    const reference = !label ? '' : href ? ` ([${label}](${href}))` : ` (${label})`;
+    const warning = status === 'invalid' ? ' ⚠️ *unverified*' : '';
+
+    if (isLatinQuote(quote)) {
+      // A translated quote carries its own reference in the text
+      const suffix = quote.detectionMethod === 'transliterated' ? reference : '';
+      return `${escapeMarkdownHtml(translatedSpan(rendered, source))}${suffix}${noteRef}${warning}`;
+    }
+
+    const words = status === 'invalid' && showDiff ? diffWordsOf(quote) : undefined;
+    const text = words
+      ? words
+          .map((w) => (w.isFabricated ? `~~${escapeMarkdown(w.word)}~~` : escapeMarkdown(w.word)))
+          .join(' ')
+      : escapeMarkdown(displayText(rendered));
+
+    return `${RLI}${text}${PDI}${reference}${noteRef}${warning}`;
+  };
+
+  const body = parts
+    .map((part) => (typeof part === 'string' ? escapeMarkdownHtml(part) : renderQuote(part)))
+    .join('');
+
+  const footnotes = notes.map((rendered) => {
+    const { before, after } = correctionOf(rendered);
+    return (
+      `[^${rendered.note}]: ${escapeMarkdown(rendered.patch!.reason)}: ` +
+      `~~${escapeMarkdown(before)}~~ → ${escapeMarkdown(after)}`
+    );
+  });
+
+  return footnotes.length > 0 ? `${body}\n\n${footnotes.join('\n')}` : body;
+}
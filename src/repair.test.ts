@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildRepairPrompt, validateWithRetries, type GenerateContext } from './repair';
+import { LLMProcessor } from './llm-integration';
+import { QuranValidator } from './validator';
+
+const validator = new QuranValidator();
+const processor = new LLMProcessor({ validator });
+const basmala = validator.getVerse(1, 1)!.text;
+const fabricated = '<quran ref="2:100">هذا نص مزيف لا يوجد في القرآن الكريم أبداً</quran>';
+
+function repairPromptFor(text: string): string | undefined {
+  return buildRepairPrompt(processor.process(text), { validator });
+}
+
+describe('buildRepairPrompt()', () => {
+  it('should return undefined when every quote is right', () => {
+    expect(repairPromptFor(`<quran ref="1:1">${basmala}</quran>`)).toBeUndefined();
+  });
+
+  it('should skip quotes that only needed diacritics restored', () => {
+    expect(repairPromptFor('<quran ref="1:1">بسم ٱلله ٱلرحمٰن ٱلرحيم</quran>')).toBeUndefined();
+  });
+
+  it('should explain fabricated quotes and give the cited verse', () => {
+    const prompt = repairPromptFor(fabricated)!;
+
+    expect(prompt).toContain('Your quote cited as 2:100 is not in the Quran');
+    expect(prompt).toContain('do not appear in any verse');
+    expect(prompt).toContain(validator.getVerse(2, 100)!.text);
+  });
+
+  it('should report truncated quotes with the full verse', () => {
+    const verse = validator.getVerse(2, 267)!.text;
+    const excerpt = verse.split(' ').slice(0, 6).join(' ');
+
+    const prompt = repairPromptFor(`<quran ref="2:267">${excerpt}</quran>`)!;
+
+    expect(prompt).toContain('Your quote for 2:267 was truncated');
+    expect(prompt).toContain(verse);
+  });
+
+  it('should report quotes cited under the wrong verse', () => {
+    const prompt = repairPromptFor(`<quran ref="1:2">${basmala}</quran>`)!;
+
+    expect(prompt).toContain('The quote you cited as 1:2 is from 1:1');
+  });
+
+  it('should name the verse behind a wrong verse number', () => {
+    const [first, second] = [validator.getVerse(1, 1)!.text, validator.getVerse(1, 2)!.text];
+    const prompt = repairPromptFor(`<quran ref="1:1-2">${first} ﴿١﴾ ${second} ﴿٣﴾</quran>`)!;
+
+    expect(prompt).toContain('a verse number marks the end of 1:3, but the text before it is from 1:2');
+    expect(prompt).not.toContain('is from 1:1-2');
+  });
+
+  it('should report references that do not exist', () => {
+    const prompt = repairPromptFor(
+      '<quran ref="999:999">هذا نص مزيف لا يوجد في القرآن الكريم أبداً</quran>'
+    )!;
+
+    expect(prompt).toContain('"999:999" is not a valid verse reference');
+  });
+
+  it('should number one instruction per problem quote', () => {
+    const prompt = repairPromptFor(`${fabricated}\n<quran ref="1:2">${basmala}</quran>`)!;
+
+    expect(prompt).toMatch(/^Some Quran quotes in your previous answer are not accurate/);
+    expect(prompt).toContain('\n\n1. ');
+    expect(prompt).toContain('\n\n2. ');
+  });
+});
+
+describe('validateWithRetries()', () => {
+  it('should re-ask until the quotes are right', async () => {
+    const contexts: GenerateContext[] = [];
+    const responses = [fabricated, `<quran ref="1:1">${basmala}</quran>`];
+
+    const result = await validateWithRetries(
+      async (context) => {
+        contexts.push(context);
+        return responses[context.attempt - 1];
+      },
+      3,
+      { processor, validator }
+    );
+
+    expect(result.resolved).toBe(true);
+    expect(result.attempts.length).toBe(2);
+    expect(result.response).toBe(responses[1]);
+    expect(contexts[0]).toEqual({ attempt: 1, repairPrompt: undefined, previousResponse: undefined });
+    expect(contexts[1].previousResponse).toBe(fabricated);
+    expect(contexts[1].repairPrompt).toContain('2:100');
+    expect(result.attempts[0].repairPrompt).toBe(contexts[1].repairPrompt);
+  });
+
+  it('should stop after maxAttempts', async () => {
+    let calls = 0;
+    const result = await validateWithRetries(
+      async () => {
+        calls++;
+        return fabricated;
+      },
+      2,
+      { processor, validator }
+    );
+
+    expect(calls).toBe(2);
+    expect(result.resolved).toBe(false);
+    expect(result.processed.allValid).toBe(false);
+    expect(result.attempts[1].repairPrompt).toBeUndefined();
+  });
+
+  it("should look up verses with the processor's validator", async () => {
+    const getVerseRange = vi.spyOn(validator, 'getVerseRange');
+
+    try {
+      const result = await validateWithRetries(async () => fabricated, 2, { processor });
+
+      expect(getVerseRange).toHaveBeenCalled();
+      expect(result.attempts[0].repairPrompt).toContain(validator.getVerse(2, 100)!.text);
+    } finally {
+      getVerseRange.mockRestore();
+    }
+  });
+
+  it('should reject maxAttempts below 1', async () => {
+    await expect(validateWithRetries(async () => '', 0)).rejects.toThrow(
+      'maxAttempts must be at least 1'
+    );
+  });
+});
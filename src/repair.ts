@@ -0,0 +1,285 @@
+/**
+ * Self-correcting re-ask loop
+ *
+ * Instead of silently patching a bad answer, tell the model exactly which
+ * quotes were wrong and what the cited verses actually say, then ask again.
+ */
+
+import { LLMProcessor } from './llm-integration';
+import { QuranValidator } from './validator';
+import { parseSingleReference } from './reference-parser';
+import { classifyQuote } from './policy';
+import type { ProcessedOutput, QuoteAnalysis } from './llm-integration';
+
+/**
+ * Options for buildRepairPrompt()
+ */
+export interface RepairPromptOptions {
+  /** Validator to look up the text of cited verses (default: a new one) */
+  validator?: QuranValidator;
+}
+
+/**
+ * Why a quote needs the model's attention
+ */
+type RepairIssue =
+  | 'fabricated'
+  | 'misquoted'
+  | 'unknown-reference'
+  | 'truncated'
+  | 'wrong-reference'
+  | 'unmatched-translation';
+
+const QUOTE_PREVIEW_LENGTH = 60;
+
+function preview(text: string): string {
+  return text.length > QUOTE_PREVIEW_LENGTH
+    ? `"${text.slice(0, QUOTE_PREVIEW_LENGTH)}..."`
+    : `"${text}"`;
+}
+
+/**
+ * Decide what, if anything, the model should fix about a quote
+ *
+ * Quotes that only needed diacritics or spelling restored, or that were
+ * left untagged, are left out: autoCorrect fixes those without asking.
+ */
+function repairIssueOf(quote: QuoteAnalysis): RepairIssue | undefined {
+  switch (classifyQuote(quote)) {
+    case 'fabricated':
+      if (quote.detectionMethod === 'translation') return 'unmatched-translation';
+      return quote.fabricationAnalysis?.stats.fabricatedWords ? 'fabricated' : 'misquoted';
+    case 'invalid-reference':
+      return 'unknown-reference';
+    case 'truncated':
+      return 'truncated';
+    case 'wrong-reference':
+      return 'wrong-reference';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build a follow-up prompt asking the model to fix its Quran quotes
+ *
+ * Each problem quote becomes one numbered instruction: fabricated or
+ * misquoted text, quotes cut short, quotes cited under the wrong verse and
+ * translations that match no known translation. Where it helps, the
+ * instruction includes the actual text of the cited verse.
+ *
+ * @param processed - Output of LLMProcessor.process() for the model's answer
+ * @returns The prompt, or undefined if nothing needs the model's attention
+ *
+ * @example
+ * ```ts
+ * const processed = processor.process(answer);
+ * const repair = buildRepairPrompt(processed);
+ * if (repair) {
+ *   messages.push({ role: 'assistant', content: answer }, { role: 'user', content: repair });
+ * }
+ * ```
+ */
+export function buildRepairPrompt(
+  processed: ProcessedOutput,
+  options: RepairPromptOptions = {}
+): string | undefined {
+  let validator = options.validator;
+  const verseText = (reference: string | undefined): string | undefined => {
+    const parsed = reference ? parseSingleReference(reference) : undefined;
+    if (!parsed) return undefined;
+    validator ??= new QuranValidator();
+    return validator.getVerseRange(parsed.surah, parsed.startAyah, parsed.endAyah ?? parsed.startAyah)
+      ?.text;
+  };
+
+  const instructions: string[] = [];
+
+  for (const quote of processed.quotes) {
+    const issue = repairIssueOf(quote);
+    const cited = quote.citedReference ?? quote.reference;
+
+    switch (issue) {
+      case 'fabricated': {
+        const words = quote.fabricationAnalysis!.words
+          .filter((w) => w.isFabricated)
+          .map((w) => `"${w.word}"`)
+          .join(', ');
+        const actual = verseText(cited);
+        instructions.push(
+          `Your quote cited as ${cited} is not in the Quran: ${words} do not appear in any verse.` +
+            (actual
+              ? ` ${cited} actually reads: ${actual}\nReplace the quote with this text, or remove it.`
+              : ' Remove the quote.')
+        );
+        break;
+      }
+      case 'misquoted': {
+        const actual = verseText(cited);
+        instructions.push(
+          `Your quote cited as ${cited} does not match that verse: ${preview(quote.original)}.` +
+            (actual
+              ? ` ${cited} actually reads: ${actual}\nQuote it exactly, or remove the quote.`
+              : ' Quote the verse exactly, or remove the quote.')
+        );
+        break;
+      }
+      case 'unknown-reference':
+        instructions.push(
+          `"${quote.citedReference}" is not a valid verse reference. ` +
+            'Cite the quote as surah:ayah (e.g. 2:255), or remove it if you are unsure which verse it is.'
+        );
+        break;
+      case 'truncated':
+        instructions.push(
+          `Your quote for ${quote.reference} was truncated. ` +
+            `The full verse reads: ${verseText(quote.reference) ?? quote.corrected}\n` +
+            'Quote the whole verse, or say explicitly that you are quoting part of it.'
+        );
+        break;
+      case 'wrong-reference': {
+        const marker = quote.ayahMarkers?.find((m) => !m.isCorrect && m.actualReference);
+        if (marker) {
+          instructions.push(
+            `In your quote cited as ${cited}, a verse number marks the end of ` +
+              `${marker.impliedReference ?? 'a verse'}, but the text before it is from ` +
+              `${marker.actualReference}: ${preview(quote.original)}. ` +
+              `Number it as ${marker.actualReference}, or remove the verse numbers.`
+          );
+          break;
+        }
+        instructions.push(
+          quote.detectionMethod === 'translation'
+            ? `The translation you cited as ${cited} is of ${quote.reference}: ${preview(quote.original)}. ` +
+                `Cite it as ${quote.reference}.`
+            : `The quote you cited as ${cited} is from ${quote.reference}: ${preview(quote.original)}. ` +
+                `Cite it as ${quote.reference}.`
+        );
+        break;
+      }
+      case 'unmatched-translation':
+        instructions.push(
+          `Your translation cited as ${cited} does not match any known translation of that verse: ` +
+            `${preview(quote.original)}. Use a faithful translation of ${cited}, or remove the quote.`
+        );
+        break;
+    }
+  }
+
+  if (instructions.length === 0) return undefined;
+
+  return [
+    'Some Quran quotes in your previous answer are not accurate. ' +
+      'Rewrite the answer with these fixes, keeping everything else the same:',
+    ...instructions.map((instruction, i) => `${i + 1}. ${instruction}`),
+  ].join('\n\n');
+}
+
+/**
+ * What the generate function receives on each attempt
+ */
+export interface GenerateContext {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Instructions for fixing the previous response (absent on the first attempt) */
+  repairPrompt?: string;
+  /** The previous response (absent on the first attempt) */
+  previousResponse?: string;
+}
+
+/**
+ * One response in a validateWithRetries() run
+ */
+export interface RetryAttempt {
+  response: string;
+  processed: ProcessedOutput;
+  /** Prompt sent to fix this response (absent for the last attempt) */
+  repairPrompt?: string;
+}
+
+/**
+ * Result of validateWithRetries()
+ */
+export interface RetryResult {
+  /** The last response */
+  response: string;
+  /** The last response, processed */
+  processed: ProcessedOutput;
+  /** Whether the last response had nothing left to repair */
+  resolved: boolean;
+  /** Every response in order */
+  attempts: RetryAttempt[];
+}
+
+/**
+ * Options for validateWithRetries()
+ */
+export interface RetryOptions {
+  /** Processor to check each response (default: a new LLMProcessor) */
+  processor?: LLMProcessor;
+  /** Validator for looking up verse text in repair prompts (default: the processor's) */
+  validator?: QuranValidator;
+}
+
+/**
+ * Generate, validate, and re-ask until the quotes are right
+ *
+ * Stops as soon as a response needs no repair, or after `maxAttempts`
+ * responses. The last response is returned either way; check `resolved`.
+ *
+ * @param generate - Produces a response; on retries, send `repairPrompt` to the model
+ *   as a follow-up to `previousResponse`
+ * @param maxAttempts - Maximum number of responses to generate (default: 3)
+ *
+ * @example
+ * ```ts
+ * const messages = [{ role: 'user', content: question }];
+ * const result = await validateWithRetries(async ({ repairPrompt, previousResponse }) => {
+ *   if (repairPrompt) {
+ *     messages.push(
+ *       { role: 'assistant', content: previousResponse! },
+ *       { role: 'user', content: repairPrompt }
+ *     );
+ *   }
+ *   return callYourModel(messages);
+ * });
+ *
+ * console.log(result.processed.correctedText);
+ * ```
+ */
+export async function validateWithRetries(
+  generate: (context: GenerateContext) => Promise<string>,
+  maxAttempts = 3,
+  options: RetryOptions = {}
+): Promise<RetryResult> {
+  if (maxAttempts < 1) {
+    throw new Error('maxAttempts must be at least 1');
+  }
+
+  const processor = options.processor ?? new LLMProcessor({ validator: options.validator });
+  const validator = options.validator ?? processor.getValidator();
+  const attempts: RetryAttempt[] = [];
+  let previous: RetryAttempt | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await generate({
+      attempt,
+      repairPrompt: previous?.repairPrompt,
+      previousResponse: previous?.response,
+    });
+    const processed = processor.process(response);
+    const current: RetryAttempt = { response, processed };
+    attempts.push(current);
+
+    const repairPrompt = buildRepairPrompt(processed, { validator });
+    if (!repairPrompt) {
+      return { response, processed, resolved: true, attempts };
+    }
+    if (attempt < maxAttempts) {
+      current.repairPrompt = repairPrompt;
+    }
+    previous = current;
+  }
+
+  return { response: previous!.response, processed: previous!.processed, resolved: false, attempts };
+}
@@ -0,0 +1,74 @@
+/**
+ * Riwaya data packs
+ *
+ * Hafs is always available from the bundled verse data. Every other riwaya
+ * is a separate pack, loaded on demand through a `RiwayaLoader`, so
+ * consumers only bundle or download the riwayat they actually use.
+ */
+
+import type { RiwayaId, RiwayaLoader, RiwayaVerse } from './types';
+
+/**
+ * Minimal fetch signature, so callers can pass `fetch` or any compatible client
+ */
+export type FetchLike = (url: string) => Promise<{
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+}>;
+
+// One dynamic import per pack so bundlers can split each into its own chunk.
+// Hafs has no entry: the validator's bundled verse data is Hafs.
+const PACK_IMPORTS: Record<Exclude<RiwayaId, 'hafs'>, () => Promise<{ default: unknown }>> = {
+  warsh: () => import('../data/riwayat/warsh.min.json'),
+  qalun: () => import('../data/riwayat/qalun.min.json'),
+  shuba: () => import('../data/riwayat/shuba.min.json'),
+  duri: () => import('../data/riwayat/duri.min.json'),
+  susi: () => import('../data/riwayat/susi.min.json'),
+  bazzi: () => import('../data/riwayat/bazzi.min.json'),
+  qunbul: () => import('../data/riwayat/qunbul.min.json'),
+};
+
+/**
+ * Default loader: imports the packs shipped in the package's `data/riwayat`
+ * directory. Bundlers turn each import into a separate lazily loaded chunk.
+ */
+export const bundledRiwayaLoader: RiwayaLoader = async (riwaya) => {
+  const load = riwaya === 'hafs' ? undefined : PACK_IMPORTS[riwaya];
+  if (!load) {
+    throw new Error(`No riwaya pack to load for: ${riwaya}`);
+  }
+  const pack = await load();
+  return pack.default as RiwayaVerse[];
+};
+
+/**
+ * Create a loader that fetches packs over HTTP, e.g. from a CDN hosting
+ * the package's `data/riwayat` directory
+ *
+ * @param baseUrl - URL of the directory holding `<riwaya>.min.json` files
+ * @param fetchFn - Fetch implementation (default: global fetch)
+ * @returns Loader that fetches `${baseUrl}/${riwaya}.min.json`
+ *
+ * @example
+ * ```ts
+ * const validator = await QuranValidator.create({
+ *   riwayat: ['hafs', 'warsh'],
+ *   riwayaLoader: createFetchRiwayaLoader('https://cdn.example.com/quran-validator/data/riwayat'),
+ * });
+ * ```
+ */
+export function createFetchRiwayaLoader(
+  baseUrl: string,
+  fetchFn: FetchLike = (globalThis as unknown as { fetch: FetchLike }).fetch
+): RiwayaLoader {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return async (riwaya) => {
+    const response = await fetchFn(`${root}/${riwaya}.min.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to load riwaya "${riwaya}": HTTP ${response.status}`);
+    }
+    return (await response.json()) as RiwayaVerse[];
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { detectScript, toImlaei, toScript } from './script';
+import { QuranValidator } from './validator';
+import { normalizeArabic } from './normalizer';
+
+const validator = new QuranValidator();
+const verse = (surah: number, ayah: number) => validator.getVerse(surah, ayah)!.text;
+// The data puts shadda before the vowel; compare in canonical order
+const nfc = (text: string | undefined) => text?.normalize('NFC');
+const lookupKey = (text: string) => normalizeArabic(text, { stripHamza: true });
+
+describe('toImlaei()', () => {
+  it('should write alif wasla as a plain alif and dagger alifs out', () => {
+    expect(nfc(toImlaei(verse(1, 2)))).toBe('الْحَمْدُ لِلَّهِ رَبِّ الْعَالَمِينَ');
+    expect(nfc(toImlaei(verse(2, 3)))).toBe(
+      'الَّذِينَ يُؤْمِنُونَ بِالْغَيْبِ وَيُقِيمُونَ الصَّلَاةَ وَمِمَّا رَزَقْنَاهُمْ يُنْفِقُونَ'
+    );
+  });
+
+  it('should drop the dagger alif of words modern spelling writes without one', () => {
+    expect(nfc(toImlaei(verse(1, 1)))).toBe('بِسْمِ اللَّهِ الرَّحْمَنِ الرَّحِيمِ');
+    expect(nfc(toImlaei(verse(2, 5)))).toBe(
+      'أُولَئِكَ عَلَى هُدًى مِنْ رَبِّهِمْ وَأُولَئِكَ هُمُ الْمُفْلِحُونَ'
+    );
+  });
+
+  it('should remove pause marks and give assimilated letters their sukun', () => {
+    expect(nfc(toImlaei(verse(2, 2)))).toBe('ذَلِكَ الْكِتَابُ لَا رَيْبَ فِيهِ هُدًى لِلْمُتَّقِينَ');
+  });
+
+  it('should seat hamza and spell small waw and ya as modern Arabic does', () => {
+    expect(nfc(toImlaei(verse(2, 4)))).toBe(
+      'وَالَّذِينَ يُؤْمِنُونَ بِمَا أُنْزِلَ إِلَيْكَ وَمَا أُنْزِلَ مِنْ قَبْلِكَ وَبِالْآخِرَةِ هُمْ يُوقِنُونَ'
+    );
+    expect(nfc(toImlaei(verse(2, 34)))).toBe(
+      'وَإِذْ قُلْنَا لِلْمَلَائِكَةِ اسْجُدُوا لِآدَمَ فَسَجَدُوا إِلَّا إِبْلِيسَ أَبَى وَاسْتَكْبَرَ وَكَانَ مِنَ الْكَافِرِينَ'
+    );
+    expect(nfc(toImlaei('إِنَّهُۥ هُوَ ٱلتَّوَّابُ'))).toBe('إِنَّهُ هُوَ التَّوَّابُ');
+  });
+
+  it('should split the vocative into its own word', () => {
+    expect(nfc(toImlaei('يَـٰٓأَيُّهَا ٱلَّذِينَ ءَامَنُوا۟'))).toBe('يَا أَيُّهَا الَّذِينَ آمَنُوا');
+    expect(nfc(toImlaei('يَـٰقَوْمِ'))).toBe('يَا قَوْمِ');
+  });
+
+  it('should leave the muqattaʿat bare', () => {
+    expect(nfc(toImlaei(verse(2, 1)))).toBe('الم');
+  });
+});
+
+describe('Imlaei round trip', () => {
+  it('should validate the Imlaei spelling of every verse as that verse', () => {
+    const failures: string[] = [];
+    for (const surah of validator.getAllSurahs()) {
+      for (let ayah = 1; ayah <= surah.versesCount; ayah++) {
+        const text = verse(surah.number, ayah);
+        const imlaei = toImlaei(text);
+        const reference = `${surah.number}:${ayah}`;
+
+        // Some verses differ only in pause marks or a hamza (27:53 and 41:18),
+        // which lookup ignores; any of them will do
+        const found = validator.validate(imlaei).matchedVerse;
+        const isSame = found && lookupKey(toImlaei(found.text)) === lookupKey(imlaei);
+        if (!validator.validateAgainst(imlaei, reference).isValid || !isSame) {
+          failures.push(reference);
+        }
+      }
+    }
+
+    expect(failures).toEqual([]);
+  });
+
+  it('should recognize Imlaei text that leaves out the dagger alif', () => {
+    const result = validator.validate('بسم الله الرحمن الرحيم');
+
+    expect(result.isValid).toBe(true);
+    expect(result.reference).toBe('1:1');
+    expect(validator.validateAgainst('ذلك الكتاب لا ريب فيه هدى للمتقين', '2:2').isValid).toBe(true);
+  });
+});
+
+describe('detectScript()', () => {
+  it('should tell Uthmani from Imlaei text', () => {
+    expect(detectScript(verse(112, 1))).toBe('uthmani');
+    expect(detectScript('قُلْ هُوَ اللَّهُ أَحَدٌ')).toBe('imlaei');
+    expect(detectScript('قل هو الله أحد')).toBe('imlaei');
+  });
+
+  it('should return undefined for text without Arabic letters', () => {
+    expect(detectScript('Qul huwa Allahu ahad')).toBeUndefined();
+  });
+});
+
+describe('toScript()', () => {
+  it('should follow the input for preserve-input', () => {
+    const uthmani = verse(112, 1);
+
+    expect(nfc(toScript(uthmani, 'preserve-input', 'قل هو الله احد'))).toBe('قُلْ هُوَ اللَّهُ أَحَدٌ');
+    expect(toScript(uthmani, 'preserve-input', 'قُلْ هُوَ ٱللَّهُ')).toBe(uthmani);
+    expect(toScript(uthmani, 'preserve-input', 'Qul huwa Allahu ahad')).toBe(uthmani);
+  });
+});
+
+describe('QuranValidator script option', () => {
+  it('should give canonicalText in Uthmani script by default', () => {
+    expect(validator.validate('قل هو الله أحد').canonicalText).toBe(verse(112, 1));
+  });
+
+  it('should give canonicalText in the configured script', () => {
+    const imlaei = new QuranValidator({ script: 'imlaei' });
+
+    expect(nfc(imlaei.validate(verse(1, 1)).canonicalText)).toBe(
+      'بِسْمِ اللَّهِ الرَّحْمَنِ الرَّحِيمِ'
+    );
+    expect(
+      nfc(imlaei.validateAgainst('قل هو الله أحد الله الصمد', '112:1-2').canonicalText)
+    ).toBe(
+      'قُلْ هُوَ اللَّهُ أَحَدٌ اللَّهُ الصَّمَدُ'
+    );
+    // Verse data itself stays Uthmani
+    expect(imlaei.getVerse(1, 1)!.text).toBe(verse(1, 1));
+  });
+});
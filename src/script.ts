@@ -0,0 +1,245 @@
+/**
+ * Converting verse text between Uthmani and Imlaei (modern standard) script
+ *
+ * The bundled verses are in the Uthmani script of the printed mushaf: alif
+ * wasla, small (dagger) alif, small waw and ya, pause and recitation marks.
+ * Imlaei spelling writes the same words the way modern Arabic does. It is
+ * derived here from the diacritized Uthmani text by rule, so the output
+ * keeps its full tashkeel without bundling a second copy of the Quran.
+ */
+
+import type { QuranScript, ScriptOption } from './types';
+
+const ALIF = '\u0627'; // ا
+const ALIF_MADDA = '\u0622'; // آ
+const ALIF_HAMZA_ABOVE = '\u0623'; // أ
+const ALIF_HAMZA_BELOW = '\u0625'; // إ
+const WAW_HAMZA = '\u0624'; // ؤ
+const YA_HAMZA = '\u0626'; // ئ
+const ALIF_MAQSURA = '\u0649'; // ى
+const YA = '\u064A'; // ي
+const WAW = '\u0648'; // و
+const LAM = '\u0644'; // ل
+const TA_MARBUTA = '\u0629'; // ة
+const FATHA = '\u064E';
+const DAMMA = '\u064F';
+const KASRA = '\u0650';
+const SHADDA = '\u0651';
+const SUKUN = '\u0652';
+
+// Pause, sajda and hizb marks, written as separate tokens between words
+const ANNOTATION_MARKS = /[\u06D6-\u06DC\u06DE\u06E9]/g;
+
+// Recitation marks with no Imlaei equivalent: silent-letter zeros, iqlab
+// meem, small seen, maddah and the rarer marks
+const RECITATION_MARKS = /[\u0653\u06DF\u06E0\u06E2-\u06E4\u06EA-\u06ED]/g;
+
+// Harakat, tanween, shadda, sukun and dagger alif
+const MARK = /[\u064B-\u0652\u0670]/;
+const HARAKAH = /[\u064B-\u0650]/;
+const LETTER = /[\u0621-\u064A]/;
+
+// Characters only Uthmani text uses: alif wasla, small waw and ya, Quranic
+// marks, and a dagger alif carried on a tatweel
+const UTHMANI_ONLY = /[\u0671\u06D6-\u06ED]|\u0640\u0670/;
+const ARABIC_LETTER = /[\u0621-\u064A\u0671]/;
+
+// Words whose dagger alif Imlaei drops instead of writing out (ذَٰلِكَ is
+// ذَلِكَ, not ذَالِكَ), matched on bare letters after one-letter prefixes:
+// الرحمن إله اله ذلك هذا هذه هذان هذين هؤلاء أولئك اولئك لكن هكذا
+const DROPPED_DAGGER_WORDS = new RegExp(
+  '^[\u0648\u0641\u0628\u0643\u0644]*(?:\u0627\u0644)?(?:' +
+    [
+      '\u0631\u062D\u0645\u0646',
+      '\u0625\u0644\u0647',
+      '\u0627\u0644\u0647',
+      '\u0630\u0644\u0643',
+      '\u0647\u0630\u0627',
+      '\u0647\u0630\u0647',
+      '\u0647\u0630\u0627\u0646',
+      '\u0647\u0630\u064A\u0646',
+      '\u0647\u0624\u0644\u0627\u0621',
+      '\u0623\u0648\u0644\u0626\u0643',
+      '\u0627\u0648\u0644\u0626\u0643',
+      '\u0644\u0643\u0646',
+      '\u0647\u0643\u0630\u0627',
+    ].join('|') +
+    ')'
+);
+
+/**
+ * Convert Uthmani verse text to fully diacritized Imlaei spelling
+ *
+ * Alif wasla becomes a plain alif, dagger alifs are written out (except in
+ * words like ذلك and الرحمن that modern spelling writes without one), small
+ * waw and ya become full letters or drop, hamza gets the seat modern
+ * spelling gives it, Quranic marks are removed, and letters Uthmani leaves
+ * bare before an assimilation get their sukun.
+ *
+ * @example
+ * ```ts
+ * toImlaei('بِسْمِ ٱللَّهِ ٱلرَّحْمَـٰنِ ٱلرَّحِيمِ') // returns "بِسْمِ اللَّهِ الرَّحْمَنِ الرَّحِيمِ"
+ * toImlaei('ذَٰلِكَ ٱلْكِتَـٰبُ') // returns "ذَلِكَ الْكِتَابُ"
+ * ```
+ */
+export function toImlaei(uthmani: string): string {
+  return uthmani
+    .replace(ANNOTATION_MARKS, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(convertWord)
+    .join(' ');
+}
+
+function convertWord(word: string): string {
+  let result = word
+    // Hamza on a tatweel: ـَٔا is آ, otherwise it takes the seat of modern spelling
+    .replace(/\u0640\u0654([\u064B-\u0652])(\u0627?)/g, (_match, vowel, alif, offset, whole) =>
+      hamzaSeat(whole.slice(0, offset), vowel, alif)
+    )
+    // Hamza on the line before an alif: ءَا is آ
+    .replace(/\u0621\u064E\u0627/g, ALIF_MADDA)
+    // After a short vowel it takes a seat too: أَرَءَيْتُمْ is أَرَأَيْتُمْ
+    .replace(/([\u064E-\u0650])\u0621([\u064B-\u0652]?)/g, (_match, previous, vowel) =>
+      previous + hamzaSeat(previous, vowel, '')
+    )
+    // Small high noon: نُۨجِى is نُنْجِي
+    .replace(/\u06E8/g, '\u0646' + SUKUN)
+    .replace(RECITATION_MARKS, '')
+    // Small waw and ya lengthening a pronoun's vowel drop (لَهُۥ is لَهُ);
+    // elsewhere they are the letter itself (دَاوُۥدَ is دَاوُودَ)
+    .replace(/(\u0647[\u064B-\u0652]*)[\u06E5\u06E6]/g, '$1')
+    .replace(/\u06E5/g, WAW)
+    .replace(/[\u06E6\u06E7]/g, YA)
+    .replace(/\u0640/g, '')
+    .replace(/\u0671/g, ALIF);
+
+  // Vocative يَـٰ and هَـٰ are separate words: يَـٰٓأَيُّهَا is يَا أَيُّهَا
+  result = result.replace(/^([\u064A\u0647])\u064E\u0670(?=[\u0621-\u064A])/, (match, letter) => {
+    const isVocative = letter === YA || result[match.length] === ALIF_HAMZA_ABOVE;
+    return isVocative ? letter + FATHA + ALIF + ' ' : match;
+  });
+
+  result = DROPPED_DAGGER_WORDS.test(bareLetters(result))
+    ? result.replace(/\u0670/g, '')
+    : result
+        // صَلَوٰة is صَلَاة, رِبَوٰا is رِبَا; a final ىٰ stays ى (عَلَىٰ is عَلَى)
+        .replace(/[\u0648\u0649]\u0670\u0627?/g, (match, offset, whole) =>
+          match[0] === ALIF_MAQSURA && isWordEnd(whole, offset + match.length)
+            ? ALIF_MAQSURA
+            : ALIF
+        )
+        .replace(/\u0670/g, ALIF);
+
+  // A word-initial hamza on the line sits on an alif
+  result = result.replace(/(^|\s)\u0621([\u064E-\u0650])/g, (_match, start, vowel) =>
+    start + (vowel === KASRA ? ALIF_HAMZA_BELOW : ALIF_HAMZA_ABOVE) + vowel
+  );
+
+  return result.split(' ').map(completeTashkeel).join(' ');
+}
+
+/**
+ * Seat for a hamza Uthmani writes on a tatweel or the line, from its vowel
+ * and the letter and vowel before it
+ */
+function hamzaSeat(before: string, vowel: string, alif: string): string {
+  if (vowel === FATHA && alif) return ALIF_MADDA;
+
+  const previousVowel = before[before.length - 1];
+  const previousLetter = bareLetters(before).slice(-1);
+  const seat =
+    vowel === KASRA || previousVowel === KASRA || previousLetter === YA || previousLetter === ALIF_MAQSURA
+      ? YA_HAMZA
+      : vowel === DAMMA
+        ? WAW_HAMZA
+        : ALIF_HAMZA_ABOVE;
+  return seat + vowel + alif;
+}
+
+/**
+ * Spell ى as ي where it is a consonant or a long i, drop the assimilation
+ * shadda Uthmani puts on a word's first letter, and give bare consonants
+ * their sukun
+ */
+function completeTashkeel(word: string): string {
+  const chars = Array.from(word);
+  // Muqattaʿat like الم carry no tashkeel and stay bare
+  const isVoweled = chars.some((char) => HARAKAH.test(char));
+
+  const firstLetter = chars.findIndex((char) => LETTER.test(char));
+  const firstShadda = marksAfter(chars, firstLetter).indexOf(SHADDA);
+  if (firstShadda >= 0) chars.splice(firstLetter + 1 + firstShadda, 1);
+
+  const out: string[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    let char = chars[i];
+    const next = chars[i + 1];
+    const previous = out[out.length - 1];
+
+    if (char === ALIF_MAQSURA && ((next && MARK.test(next)) || previous === KASRA)) {
+      char = YA;
+    }
+    out.push(char);
+
+    if (!isVoweled || !LETTER.test(char) || (next && MARK.test(next))) continue;
+    if ([ALIF, ALIF_MADDA, ALIF_MAQSURA, TA_MARBUTA].includes(char)) continue;
+    // Long vowels: و after damma, ي after kasra
+    if ((char === WAW && previous === DAMMA) || (char === YA && previous === KASRA)) continue;
+    // The article's lam before a sun letter, as in الرَّحِيمِ
+    if (char === LAM && marksAfter(chars, i + 1).includes(SHADDA)) continue;
+    out.push(SUKUN);
+  }
+
+  return out.join('');
+}
+
+/**
+ * The marks on the letter at `index`
+ */
+function marksAfter(chars: string[], index: number): string[] {
+  const marks: string[] = [];
+  for (let i = index + 1; i < chars.length && MARK.test(chars[i]); i++) marks.push(chars[i]);
+  return marks;
+}
+
+function bareLetters(text: string): string {
+  return text.replace(/[^\u0621-\u064A]/g, '');
+}
+
+function isWordEnd(text: string, index: number): boolean {
+  const rest = text.slice(index).match(/^[\u064B-\u0652]*/)![0];
+  return index + rest.length === text.length;
+}
+
+/**
+ * Tell which script Arabic text is written in
+ *
+ * Text with alif wasla, small waw or ya, or Quranic marks is Uthmani; other
+ * Arabic text is Imlaei.
+ *
+ * @returns The script, or undefined if the text has no Arabic letters
+ *
+ * @example
+ * ```ts
+ * detectScript('قُلْ هُوَ ٱللَّهُ أَحَدٌ') // returns "uthmani"
+ * detectScript('قل هو الله أحد') // returns "imlaei"
+ * ```
+ */
+export function detectScript(text: string): QuranScript | undefined {
+  if (UTHMANI_ONLY.test(text)) return 'uthmani';
+  return ARABIC_LETTER.test(text) ? 'imlaei' : undefined;
+}
+
+/**
+ * Render Uthmani verse text in the requested script
+ *
+ * @param uthmani - Verse text as stored in the data
+ * @param script - Target script; 'preserve-input' follows the script of `input`
+ * @param input - The text being corrected, for 'preserve-input' (Uthmani
+ *   when it has no Arabic letters)
+ */
+export function toScript(uthmani: string, script: ScriptOption, input = ''): string {
+  const target = script === 'preserve-input' ? (detectScript(input) ?? 'uthmani') : script;
+  return target === 'imlaei' ? toImlaei(uthmani) : uthmani;
+}
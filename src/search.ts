@@ -0,0 +1,347 @@
+/**
+ * Full-text search over verses
+ *
+ * An inverted index with word positions, built once, supporting:
+ * - multi-term AND/OR queries (`term1 term2 OR term3`)
+ * - phrase queries (`"term1 term2"`)
+ * - BM25 ranking
+ * - surah, juz and riwaya filters
+ * - highlighted match spans in the verse text
+ */
+
+import { normalizeArabic } from './normalizer';
+import { tokenizeWords } from './word-diff';
+import type {
+  QuranVerse,
+  RiwayaId,
+  SearchOptions,
+  SearchResult,
+  TextSpan,
+} from './types';
+
+/**
+ * A verse text to index, tagged with the riwaya it comes from
+ */
+export interface SearchDocument {
+  verse: QuranVerse;
+  riwaya: RiwayaId;
+}
+
+/**
+ * First verse of each juz (Hafs numbering), juz 1 to 30
+ */
+const JUZ_STARTS: [number, number][] = [
+  [1, 1], [2, 142], [2, 253], [3, 93], [4, 24], [4, 148], [5, 82], [6, 111],
+  [7, 88], [8, 41], [9, 93], [11, 6], [12, 53], [15, 1], [17, 1], [18, 75],
+  [21, 1], [23, 1], [25, 21], [27, 56], [29, 46], [33, 31], [36, 28], [39, 32],
+  [41, 47], [46, 1], [51, 31], [58, 1], [67, 1], [78, 1],
+];
+
+/**
+ * Get the juz (1-30) a verse belongs to
+ *
+ * @param surah - Surah number (1-114)
+ * @param ayah - Ayah number
+ * @returns Juz number, using Hafs verse numbering
+ */
+export function getJuz(surah: number, ayah: number): number {
+  let juz = 1;
+  for (let i = 0; i < JUZ_STARTS.length; i++) {
+    const [startSurah, startAyah] = JUZ_STARTS[i];
+    if (surah > startSurah || (surah === startSurah && ayah >= startAyah)) {
+      juz = i + 1;
+    } else {
+      break;
+    }
+  }
+  return juz;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** A single query term, or a quoted phrase of consecutive terms */
+interface QueryClause {
+  terms: string[];
+  phrase: boolean;
+}
+
+/**
+ * Normalize text into search terms
+ *
+ * Hamza-on-alef is folded to bare alef first (stripHamza would otherwise
+ * drop أ but keep ا, so "احد" and "أحد" would never meet), and teh marbuta
+ * is folded to heh since the two are routinely interchanged when typing.
+ */
+function normalizeTerms(text: string): string[] {
+  return normalizeArabic(text.replace(/[أإآ]/g, 'ا'), { stripHamza: true })
+    .replace(/ة/g, 'ه')
+    .split(' ')
+    .filter(Boolean);
+}
+
+/**
+ * Parse a query into OR-separated groups of clauses
+ *
+ * `a b OR "c d"` → [[a, b], ["c d"]]
+ */
+function parseQuery(query: string): QueryClause[][] {
+  const groups: QueryClause[][] = [[]];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match;
+
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[2] === 'OR') {
+      groups.push([]);
+      continue;
+    }
+
+    const current = groups[groups.length - 1];
+    if (match[1] !== undefined) {
+      const terms = normalizeTerms(match[1]);
+      if (terms.length > 0) current.push({ terms, phrase: true });
+    } else {
+      for (const term of normalizeTerms(match[2])) {
+        current.push({ terms: [term], phrase: false });
+      }
+    }
+  }
+
+  return groups.filter((group) => group.length > 0);
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+export class SearchIndex {
+  private documents: SearchDocument[];
+  private docLengths: Uint32Array;
+  private docJuz: Uint8Array;
+  private averageLength: number;
+  // term → document index → word positions
+  private postings: Map<string, Map<number, number[]>>;
+  private sortedTerms?: string[];
+
+  constructor(documents: SearchDocument[]) {
+    this.documents = documents;
+    this.docLengths = new Uint32Array(documents.length);
+    this.docJuz = new Uint8Array(documents.length);
+    this.postings = new Map();
+
+    let totalLength = 0;
+
+    documents.forEach((doc, index) => {
+      const terms = normalizeTerms(doc.verse.text);
+      this.docLengths[index] = terms.length;
+      this.docJuz[index] = getJuz(doc.verse.surah, doc.verse.ayah);
+      totalLength += terms.length;
+
+      terms.forEach((term, position) => {
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(term, docs);
+        }
+        const positions = docs.get(index);
+        if (positions) {
+          positions.push(position);
+        } else {
+          docs.set(index, [position]);
+        }
+      });
+    });
+
+    this.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  /**
+   * Search the index
+   *
+   * @param query - Arabic query; quote phrases, separate alternatives with OR
+   * @param options - Ranking and filtering options
+   * @returns Results sorted by descending BM25 score
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const limit = options.limit ?? 10;
+    const groups = parseQuery(query);
+    if (groups.length === 0 || limit <= 0) return [];
+
+    // In prefix mode the final bare term matches any indexed word it starts
+    const lastGroup = groups[groups.length - 1];
+    const lastClause = lastGroup[lastGroup.length - 1];
+    const prefixTerms =
+      (options.prefix ?? true) && !lastClause.phrase
+        ? this.expandPrefix(lastClause.terms[0])
+        : undefined;
+
+    const clauses = groups.flat();
+    const candidates = new Set<number>();
+    for (const clause of clauses) {
+      const terms = clause === lastClause && prefixTerms ? prefixTerms : clause.terms;
+      for (const term of terms) {
+        const docs = this.postings.get(term);
+        if (docs) for (const index of docs.keys()) candidates.add(index);
+      }
+    }
+
+    const surahs = toArray(options.surah);
+    const juzs = toArray(options.juz);
+    const riwayat = toArray(options.riwaya);
+    const operator = options.operator ?? 'and';
+
+    const scored: { index: number; score: number; positions: Set<number> }[] = [];
+
+    for (const index of candidates) {
+      const doc = this.documents[index];
+      if (surahs && !surahs.includes(doc.verse.surah)) continue;
+      if (juzs && !juzs.includes(this.docJuz[index])) continue;
+      if (riwayat && !riwayat.includes(doc.riwaya)) continue;
+
+      const matchedPositions = new Set<number>();
+      const matchedTerms = new Set<string>();
+      const clauseMatches = new Map<QueryClause, boolean>();
+
+      for (const clause of clauses) {
+        const terms = clause === lastClause && prefixTerms ? prefixTerms : clause.terms;
+        const positions = clause.phrase
+          ? this.phrasePositions(index, clause.terms)
+          : this.termPositions(index, terms, matchedTerms);
+        clauseMatches.set(clause, positions.length > 0);
+        for (const p of positions) matchedPositions.add(p);
+        if (clause.phrase && positions.length > 0) {
+          for (const term of clause.terms) matchedTerms.add(term);
+        }
+      }
+
+      const isMatch =
+        operator === 'or'
+          ? clauses.some((c) => clauseMatches.get(c))
+          : groups.some((group) => group.every((c) => clauseMatches.get(c)));
+      if (!isMatch) continue;
+
+      scored.push({
+        index,
+        score: this.bm25(index, matchedTerms),
+        positions: matchedPositions,
+      });
+    }
+
+    scored.sort((a, b) => b.score - a.score || a.index - b.index);
+    const top = scored.slice(0, limit);
+    const bestScore = top.length > 0 ? top[0].score : 0;
+
+    return top.map(({ index, score, positions }) => {
+      const { verse, riwaya } = this.documents[index];
+      return {
+        verse,
+        reference: `${verse.surah}:${verse.ayah}`,
+        riwaya,
+        score,
+        similarity: bestScore > 0 ? score / bestScore : 0,
+        highlights: this.highlight(verse.text, positions),
+      };
+    });
+  }
+
+  private termPositions(index: number, terms: string[], matched: Set<string>): number[] {
+    const result: number[] = [];
+    for (const term of terms) {
+      const positions = this.postings.get(term)?.get(index);
+      if (positions) {
+        matched.add(term);
+        result.push(...positions);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Word positions covered by every occurrence of a phrase in a document
+   */
+  private phrasePositions(index: number, terms: string[]): number[] {
+    const lists = terms.map((term) => this.postings.get(term)?.get(index));
+    if (lists.some((list) => !list)) return [];
+
+    const result: number[] = [];
+    for (const start of lists[0]!) {
+      const isPhrase = lists.every((list, offset) => list!.includes(start + offset));
+      if (isPhrase) {
+        for (let offset = 0; offset < terms.length; offset++) result.push(start + offset);
+      }
+    }
+    return result;
+  }
+
+  private bm25(index: number, terms: Set<string>): number {
+    const n = this.documents.length;
+    const length = this.docLengths[index];
+    let score = 0;
+
+    for (const term of terms) {
+      const docs = this.postings.get(term)!;
+      const tf = docs.get(index)!.length;
+      const idf = Math.log(1 + (n - docs.size + 0.5) / (docs.size + 0.5));
+      score +=
+        (idf * tf * (K1 + 1)) /
+        (tf + K1 * (1 - B + (B * length) / this.averageLength));
+    }
+
+    return score;
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+    const terms = this.sortedTerms;
+
+    // Binary search for the first term >= prefix
+    let lo = 0;
+    let hi = terms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (terms[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const result: string[] = [];
+    for (let i = lo; i < terms.length && terms[i].startsWith(prefix); i++) {
+      result.push(terms[i]);
+    }
+    return result;
+  }
+
+  /**
+   * Convert matched word positions into merged character spans
+   */
+  private highlight(text: string, positions: Set<number>): TextSpan[] {
+    if (positions.size === 0) return [];
+
+    // Map each indexed word back to the written token it came from
+    // (a single token can normalize to more than one word)
+    const wordTokens: TextSpan[] = [];
+    for (const token of tokenizeWords(text)) {
+      const count = normalizeTerms(text.slice(token.start, token.end)).length;
+      for (let i = 0; i < count; i++) {
+        wordTokens.push({ start: token.start, end: token.end });
+      }
+    }
+
+    const spans: TextSpan[] = [];
+    for (const position of Array.from(positions).sort((a, b) => a - b)) {
+      const token = wordTokens[position];
+      if (!token) continue;
+      const last = spans[spans.length - 1];
+      if (last && positions.has(position - 1)) {
+        last.end = Math.max(last.end, token.end);
+      } else {
+        spans.push({ ...token });
+      }
+    }
+
+    return spans;
+  }
+}
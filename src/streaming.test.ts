@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import { StreamingLLMProcessor, createStreamProcessor, type StreamEvent } from './streaming';
+import { LLMProcessor, applyPatches } from './llm-integration';
+import { patternExtractor } from './tag-formats';
+
+const FATIHA_1 = 'بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ';
+
+/**
+ * Split text into chunks of a few characters, like a token stream
+ */
+function chunks(text: string, size = 3): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    result.push(text.slice(i, i + size));
+  }
+  return result;
+}
+
+function pushAll(stream: StreamingLLMProcessor, text: string, size?: number): StreamEvent[] {
+  const events: StreamEvent[] = [];
+  for (const chunk of chunks(text, size)) events.push(...stream.push(chunk));
+  events.push(...stream.end());
+  return events;
+}
+
+function joined(events: StreamEvent[]): string {
+  return events.map((e) => e.text).join('');
+}
+
+describe('StreamingLLMProcessor', () => {
+  describe('buffering', () => {
+    it('should release plain text immediately', () => {
+      const stream = createStreamProcessor();
+
+      expect(stream.push('Hello ')).toEqual([{ type: 'text', text: 'Hello ' }]);
+      expect(stream.push('world')).toEqual([{ type: 'text', text: 'world' }]);
+    });
+
+    it('should hold text while a tag is open', () => {
+      const stream = createStreamProcessor();
+
+      expect(stream.push('See <qu')).toEqual([{ type: 'text', text: 'See ' }]);
+      expect(stream.push(`ran ref="1:1">${FATIHA_1}`)).toEqual([]);
+
+      const events = stream.push('</quran> done');
+      expect(events[0].type).toBe('quote');
+      expect(events[1]).toEqual({ type: 'text', text: ' done' });
+    });
+
+    it('should hold an Arabic run until it ends', () => {
+      const stream = createStreamProcessor();
+
+      expect(stream.push(`The verse ${FATIHA_1.slice(0, 10)}`)).toEqual([
+        { type: 'text', text: 'The verse ' },
+      ]);
+      expect(stream.push(FATIHA_1.slice(10))).toEqual([]);
+
+      const events = stream.push(' is the opening.');
+      expect(events[0].type).toBe('quote');
+      if (events[0].type === 'quote') {
+        expect(events[0].quote.reference).toBe('1:1');
+        expect(events[0].quote.detectionMethod).toBe('fuzzy');
+      }
+    });
+
+    it('should keep an inline reference with its Arabic run', () => {
+      const stream = createStreamProcessor();
+      const events = pushAll(stream, `Read ${FATIHA_1} (1:1) daily.`);
+      const quote = events.find((e) => e.type === 'quote');
+
+      expect(quote?.type === 'quote' && quote.quote.detectionMethod).toBe('tagged');
+      expect(quote?.type === 'quote' && quote.original).toBe(`${FATIHA_1} (1:1)`);
+    });
+
+    it('should release an unclosed tag at the end', () => {
+      const stream = createStreamProcessor();
+      const events = pushAll(stream, 'Broken <quran ref="1:1">text');
+
+      expect(joined(events)).toBe('Broken <quran ref="1:1">text');
+    });
+
+    it('should refuse chunks after end()', () => {
+      const stream = createStreamProcessor();
+      stream.end();
+
+      expect(() => stream.push('more')).toThrow('ended');
+    });
+  });
+
+  describe('parity with LLMProcessor', () => {
+    const response =
+      `The Quran opens with <quran ref="1:1">بسم الله الرحمن الرحيم</quran>. ` +
+      `Surah Al-Ikhlas says <quran ref="112:1">قُلْ هُوَ ٱللَّهُ أَحَدٌ</quran>\n` +
+      `and a fabricated line <quran ref="2:100">هذا نص مزيف لا يوجد في القرآن الكريم أبداً</quran>.`;
+
+    it('should produce the same corrected text for any chunk size', () => {
+      const expected = new LLMProcessor().process(response).correctedText;
+
+      for (const size of [1, 4, 17, response.length]) {
+        const stream = createStreamProcessor();
+        const events = pushAll(stream, response, size);
+
+        expect(joined(events)).toBe(expected);
+        expect(stream.getResult().correctedText).toBe(expected);
+        expect(applyPatches(response, stream.getResult().patches)).toBe(expected);
+      }
+    });
+
+    it('should report quotes with positions in the full text', () => {
+      const stream = createStreamProcessor();
+      pushAll(stream, response, 5);
+      const { quotes, allValid } = stream.getResult();
+
+      expect(quotes.map((q) => q.reference)).toEqual(['1:1', '112:1', '2:100']);
+      expect(allValid).toBe(false);
+      const ikhlas = quotes[1];
+      expect(response.slice(ikhlas.startIndex, ikhlas.endIndex)).toBe(
+        '<quran ref="112:1">قُلْ هُوَ ٱللَّهُ أَحَدٌ</quran>'
+      );
+    });
+
+    it('should keep the whitespace after a corrected untagged quote', () => {
+      const untagged = 'Consider قُلْ هُوَ اللَهُ أَحَدٌ and that is it.';
+      const stream = createStreamProcessor();
+      const events = pushAll(stream, untagged, 4);
+      const [patch] = stream.getResult().patches;
+
+      expect(joined(events)).toMatch(/أَحَدٌ and that is it\.$/);
+      expect(patch.original).toBe(untagged.slice(patch.startIndex, patch.endIndex));
+    });
+  });
+
+  describe('positions', () => {
+    it('should place every position inside a quote in the full text', () => {
+      const response =
+        'First <quran ref="2:100">بسم الله الفلان</quran> then ' +
+        '<quran ref="112:1">قُلْ هُوَ اللَهُ أَحَدٌ ﴿١﴾</quran>';
+      const stream = createStreamProcessor();
+      pushAll(stream, response, 6);
+      const [fabricated, vowelled] = stream.getResult().quotes;
+      const [word] = fabricated.fabricationAnalysis!.words;
+      const [error] = vowelled.tashkeel!.errors;
+      const [marker] = vowelled.ayahMarkers!;
+
+      expect(response.slice(word.startIndex, word.endIndex)).toBe('بسم');
+      expect(response.slice(error.inputStart, error.inputEnd)).toBe('لَ');
+      expect(response.slice(marker.startIndex, marker.endIndex)).toBe('﴿١﴾');
+    });
+  });
+
+  describe('invalid quotes', () => {
+    const fabricated = '<quran ref="2:100">هذا نص مزيف لا يوجد في القرآن الكريم أبداً</quran>';
+
+    it('should pass invalid quotes through by default', () => {
+      const events = pushAll(createStreamProcessor(), `A ${fabricated} B`);
+
+      expect(joined(events)).toBe(`A ${fabricated} B`);
+    });
+
+    it('should hold invalid quotes back', () => {
+      const events = pushAll(createStreamProcessor({ invalidQuote: 'hold' }), `A ${fabricated} B`);
+      const quote = events.find((e) => e.type === 'quote');
+
+      expect(joined(events)).toBe('A  B');
+      expect(quote?.type === 'quote' && quote.original).toBe(fabricated);
+    });
+
+    it('should rewrite invalid quotes', () => {
+      const stream = createStreamProcessor({
+        invalidQuote: (quote) => `[unverified quote removed: ${quote.reference}]`,
+      });
+      const events = pushAll(stream, `A ${fabricated} B`);
+
+      expect(joined(events)).toBe('A [unverified quote removed: 2:100] B');
+    });
+  });
+
+  describe('correction policy', () => {
+    const fabricated = '<quran ref="2:100">هذا نص مزيف لا يوجد في القرآن الكريم أبداً</quran>';
+
+    it('should report decisions with quote indices across segments', () => {
+      const text = `<quran ref="1:1">${FATIHA_1}</quran> A ${fabricated} B`;
+      const stream = createStreamProcessor({ policy: { fabricated: 'strip' } });
+      const events = pushAll(stream, text);
+      const { decisions } = stream.getResult();
+
+      expect(joined(events)).toBe(
+        new LLMProcessor({ policy: { fabricated: 'strip' } }).process(text).correctedText
+      );
+      expect(joined(events).endsWith('</quran> A  B')).toBe(true);
+      expect(decisions.map((d) => [d.quoteIndex, d.issue, d.action])).toEqual([
+        [0, 'diacritics', 'correct'],
+        [1, 'fabricated', 'strip'],
+      ]);
+    });
+
+    it('should stop releasing text once the response is blocked', () => {
+      const stream = createStreamProcessor({ policy: { fabricated: 'block' } });
+      const events = pushAll(stream, `Before ${fabricated} after`);
+      const result = stream.getResult();
+
+      expect(joined(events)).toBe('Before ');
+      expect(result.blocked).toBe(true);
+      expect(result.correctedText).toBe('');
+    });
+  });
+
+  describe('stream()', () => {
+    it('should consume an async iterable', async () => {
+      const response = 'Say <quran ref="112:1">قل هو الله أحد</quran>!';
+      async function* tokens() {
+        for (const chunk of chunks(response)) {
+          yield chunk;
+        }
+      }
+
+      const events: StreamEvent[] = [];
+      for await (const event of createStreamProcessor().stream(tokens())) {
+        events.push(event);
+      }
+
+      expect(joined(events)).toBe(new LLMProcessor().process(response).correctedText);
+      expect(events.some((e) => e.type === 'quote')).toBe(true);
+    });
+  });
+
+  it('should follow the configured tag format', () => {
+    const stream = new StreamingLLMProcessor({ tagFormat: 'bracket', scanUntagged: false });
+    const events = pushAll(stream, `x [[Q:112:1|قل هو الله أحد]] y`);
+
+    expect(events.filter((e) => e.type === 'quote').length).toBe(1);
+    expect(stream.getSystemPrompt()).toContain('[[Q:');
+  });
+
+  it('should buffer json citations written with spaces', () => {
+    const response =
+      '{"answer": "Tawhid.", "citations": [{ "ref": "112:1", "arabic": "قل هو الله أحد" }, ' +
+      '{\n  "ref": "1:1",\n  "arabic": "بسم الله الرحمن الرحيم"\n}]}';
+    const stream = new StreamingLLMProcessor({ tagFormat: 'json', scanUntagged: false });
+    const events = pushAll(stream, response, 4);
+
+    expect(stream.getResult().quotes.map((q) => q.reference)).toEqual(['112:1', '1:1']);
+    expect(joined(events)).toBe(
+      new LLMProcessor({ tagFormat: 'json', scanUntagged: false }).process(response).correctedText
+    );
+  });
+
+  it('should buffer tags of a custom format', () => {
+    const stream = new StreamingLLMProcessor({
+      scanUntagged: false,
+      tagFormat: {
+        name: 'test-stream-braces',
+        systemPrompt: '',
+        extract: patternExtractor(/\{\{quran:([^}\n]+)\}\}([\s\S]*?)\{\{\/quran\}\}/),
+        format: (reference, text) => `{{quran:${reference}}}${text}{{/quran}}`,
+        delimiters: { open: '{{quran:', close: '{{/quran}}' },
+      },
+    });
+
+    expect(stream.push('a {{qu')).toEqual([{ type: 'text', text: 'a ' }]);
+    expect(stream.push('ran:112:1}}قل هو الله أحد')).toEqual([]);
+    expect(stream.push('{{/quran}}')[0].type).toBe('quote');
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Streaming validation for token-by-token LLM output
+ *
+ * Text is passed through as soon as it arrives, except while a quote tag
+ * or a run of Arabic text is open. Those are buffered until they close,
+ * validated with LLMProcessor, and released (corrected, held back or
+ * rewritten) in one piece.
+ *
+ * If the correction policy blocks the response, nothing more is released;
+ * text already released before the blocking quote arrived can't be recalled.
+ *
+ * Each buffered segment is validated on its own, without the text before
+ * it. A lead-in such as "Allah says:" has already been released, so an
+ * untagged quote is found by the untagged scan (detection method 'fuzzy')
+ * rather than as a contextual quote, and one too short for that scan is
+ * missed.
+ */
+
+import { LLMProcessor, shiftQuotePositions } from './llm-integration';
+import { resolveTagFormat } from './tag-formats';
+import type {
+  CorrectionPatch,
+  LLMProcessorOptions,
+  ProcessedOutput,
+  QuoteAnalysis,
+} from './llm-integration';
+import type { PolicyDecision } from './policy';
+
+/**
+ * What to do with a quote that fails validation
+ *
+ * - `pass`: release it unchanged
+ * - `hold`: drop it from the output
+ * - a function: release the returned text instead
+ *
+ * Only tagged quotes, including Arabic followed by an inline "(2:255)", can
+ * fail. An untagged Arabic run that matches no verse is not reported as a quote, so
+ * it is always released unchanged.
+ */
+export type InvalidQuoteAction =
+  | 'pass'
+  | 'hold'
+  | ((quote: QuoteAnalysis, text: string) => string);
+
+/**
+ * Options for the streaming processor
+ */
+export interface StreamProcessorOptions extends LLMProcessorOptions {
+  /** How to release quotes that fail validation (default: 'pass') */
+  invalidQuote?: InvalidQuoteAction;
+}
+
+/**
+ * A piece of processed output. Concatenating the `text` of every event,
+ * in order, gives the full processed response.
+ */
+export type StreamEvent =
+  | {
+      type: 'text';
+      /** Text that contained no quote, released unchanged */
+      text: string;
+    }
+  | {
+      type: 'quote';
+      /** Validation result, with positions in the full streamed text */
+      quote: QuoteAnalysis;
+      /** The quote as it arrived from the model */
+      original: string;
+      /** What to show in its place (corrected, held back or rewritten) */
+      text: string;
+    };
+
+const ARABIC_CHAR =
+  /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const NOT_ARABIC_OR_SPACE =
+  /[^\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF\s]/;
+
+// An inline reference after an Arabic run, e.g. "... (1:1)", complete or still arriving
+const INLINE_REF = /^\(\d+:\d+(?:-\d+)?\)/;
+const PARTIAL_INLINE_REF = /^\([\d:-]{0,12}$/;
+
+/**
+ * Validate streamed LLM output
+ *
+ * @example
+ * ```ts
+ * const stream = createStreamProcessor({ invalidQuote: 'hold' });
+ *
+ * for await (const event of stream.stream(llmTokens)) {
+ *   sendToClient(event.text);
+ *   if (event.type === 'quote' && !event.quote.isValid) {
+ *     console.warn('Held back an invalid quote', event.original);
+ *   }
+ * }
+ *
+ * // Or push chunks yourself
+ * stream.push('<quran ref="1:1">بِسْمِ'); // [] - the tag is still open
+ * stream.push(' ٱللَّهِ ...</quran>');    // [{ type: 'quote', ... }]
+ * stream.end();
+ * ```
+ */
+export class StreamingLLMProcessor {
+  private processor: LLMProcessor;
+  private invalidQuote: InvalidQuoteAction;
+  private delimiters: { open: string; close: string };
+  private scanUntagged: boolean;
+
+  // Text received but not yet released, starting at `offset` in the full stream
+  private buffer = '';
+  private offset = 0;
+  private mode: 'text' | 'tag' | 'arabic' = 'text';
+  private ended = false;
+  private blocked = false;
+
+  private output: string[] = [];
+  private quotes: QuoteAnalysis[] = [];
+  private patches: CorrectionPatch[] = [];
+  private decisions: PolicyDecision[] = [];
+  private warnings: string[] = [];
+
+  constructor(options: StreamProcessorOptions = {}) {
+    const { invalidQuote, ...processorOptions } = options;
+    this.processor = new LLMProcessor(processorOptions);
+    this.invalidQuote = invalidQuote ?? 'pass';
+    this.delimiters = resolveTagFormat(options.tagFormat).delimiters;
+    this.scanUntagged = options.scanUntagged ?? true;
+  }
+
+  /**
+   * Get the recommended system prompt for the configured tag format
+   */
+  getSystemPrompt(): string {
+    return this.processor.getSystemPrompt();
+  }
+
+  /**
+   * Add the next chunk of model output
+   *
+   * @param chunk - Text as it arrived (any size, may split tags and words)
+   * @returns Events that are ready to release
+   */
+  push(chunk: string): StreamEvent[] {
+    if (this.ended) {
+      throw new Error('Cannot push to a stream that has ended');
+    }
+    this.buffer += chunk;
+    return this.drain(false);
+  }
+
+  /**
+   * Signal the end of the model output and release everything still buffered
+   *
+   * @returns The remaining events
+   */
+  end(): StreamEvent[] {
+    if (this.ended) return [];
+    this.ended = true;
+    return this.drain(true);
+  }
+
+  /**
+   * Process a stream of chunks
+   *
+   * @param source - Chunks of model output, e.g. an SDK's text stream
+   * @returns Events in output order, released as soon as they are ready
+   */
+  async *stream(
+    source: AsyncIterable<string> | Iterable<string>
+  ): AsyncGenerator<StreamEvent> {
+    for await (const chunk of source) {
+      yield* this.push(chunk);
+    }
+    yield* this.end();
+  }
+
+  /**
+   * Summary of everything released so far, in the same shape as LLMProcessor.process()
+   */
+  getResult(): ProcessedOutput {
+    return {
+      correctedText: this.blocked ? '' : this.output.join(''),
+      allValid: this.quotes.every((q) => q.isValid && !q.wasCorrected),
+      quotes: [...this.quotes],
+      patches: [...this.patches],
+      decisions: [...this.decisions],
+      blocked: this.blocked,
+      warnings: [...this.warnings],
+    };
+  }
+
+  private drain(final: boolean): StreamEvent[] {
+    const events: StreamEvent[] = [];
+
+    if (this.blocked) {
+      this.consume(this.buffer.length);
+      return events;
+    }
+
+    while (this.buffer) {
+      if (this.mode === 'text') {
+        const tagStart = this.buffer.indexOf(this.delimiters.open);
+        const arabicStart = this.scanUntagged ? this.buffer.search(ARABIC_CHAR) : -1;
+        const starts = [tagStart, arabicStart].filter((i) => i >= 0);
+
+        if (starts.length === 0) {
+          // Hold back a possible start of the opening tag split across chunks
+          const keep = final ? 0 : partialSuffix(this.buffer, this.delimiters.open);
+          this.releaseText(this.buffer.length - keep, events);
+          return events;
+        }
+
+        const start = Math.min(...starts);
+        this.releaseText(start, events);
+        this.mode = start === tagStart ? 'tag' : 'arabic';
+      }
+
+      const end = this.mode === 'tag' ? this.findTagEnd() : this.findArabicEnd(final);
+      if (end === undefined) {
+        if (!final) return events;
+        this.releaseQuote(this.buffer.length, events);
+      } else {
+        this.releaseQuote(end, events);
+      }
+      this.mode = 'text';
+    }
+
+    return events;
+  }
+
+  private findTagEnd(): number | undefined {
+    const { open, close } = this.delimiters;
+    const index = this.buffer.indexOf(close, open.length);
+    return index >= 0 ? index + close.length : undefined;
+  }
+
+  /**
+   * End of the open Arabic run, including an inline "(2:255)" reference
+   * right after it. Undefined while the run may still continue.
+   */
+  private findArabicEnd(final: boolean): number | undefined {
+    const end = this.buffer.search(NOT_ARABIC_OR_SPACE);
+    if (end < 0) return undefined;
+
+    const rest = this.buffer.slice(end);
+    const ref = rest.match(INLINE_REF);
+    if (ref) return end + ref[0].length;
+    if (!final && PARTIAL_INLINE_REF.test(rest)) return undefined;
+
+    return end;
+  }
+
+  private releaseText(length: number, events: StreamEvent[]): void {
+    if (length <= 0) return;
+    const text = this.buffer.slice(0, length);
+    this.consume(length);
+    this.output.push(text);
+    events.push({ type: 'text', text });
+  }
+
+  /**
+   * Validate the first `length` buffered characters as one segment and release it
+   */
+  private releaseQuote(length: number, events: StreamEvent[]): void {
+    const original = this.buffer.slice(0, length);
+    const start = this.offset;
+    this.consume(length);
+
+    const result = this.processor.process(original);
+    this.warnings.push(...result.warnings);
+
+    if (result.quotes.length === 0) {
+      this.output.push(original);
+      events.push({ type: 'text', text: original });
+      return;
+    }
+
+    let text = result.correctedText;
+    if (result.blocked) {
+      this.blocked = true;
+      // Drop whatever else has arrived; nothing more is released
+      this.consume(this.buffer.length);
+    }
+    for (const quote of result.quotes) {
+      if (!quote.isValid && !result.blocked && this.invalidQuote !== 'pass') {
+        text = this.invalidQuote === 'hold' ? '' : this.invalidQuote(quote, text);
+      }
+    }
+
+    this.output.push(text);
+    for (const patch of result.patches) {
+      this.patches.push({
+        ...patch,
+        startIndex: patch.startIndex + start,
+        endIndex: patch.endIndex + start,
+        quoteIndex: patch.quoteIndex + this.quotes.length,
+      });
+    }
+    for (const decision of result.decisions) {
+      this.decisions.push({ ...decision, quoteIndex: decision.quoteIndex + this.quotes.length });
+    }
+    result.quotes.forEach((quote, i) => {
+      const shifted = {
+        ...shiftQuotePositions(quote, start),
+        startIndex: quote.startIndex + start,
+        endIndex: quote.endIndex + start,
+      };
+      this.quotes.push(shifted);
+      // The segment's text goes with its last quote
+      const isLast = i === result.quotes.length - 1;
+      events.push({
+        type: 'quote',
+        quote: shifted,
+        original: isLast ? original : '',
+        text: isLast ? text : '',
+      });
+    });
+  }
+
+  private consume(length: number): void {
+    this.buffer = this.buffer.slice(length);
+    this.offset += length;
+  }
+}
+
+/**
+ * Length of the longest suffix of `text` that is a proper prefix of `marker`
+ */
+function partialSuffix(text: string, marker: string): number {
+  for (let length = Math.min(marker.length - 1, text.length); length > 0; length--) {
+    if (marker.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Create a streaming processor instance
+ */
+export function createStreamProcessor(
+  options?: StreamProcessorOptions
+): StreamingLLMProcessor {
+  return new StreamingLLMProcessor(options);
+}
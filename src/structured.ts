@@ -0,0 +1,140 @@
+/**
+ * Structured (JSON mode) LLM output
+ *
+ * Citations are located in a JSON response with simple paths such as
+ * "citations[*]" or "sections[*].quotes[0]", where `[*]` matches every
+ * element of an array and `[n]` a single one.
+ */
+
+import type { ValidationResult } from './types';
+
+/**
+ * Where citations live in a structured response, and which fields they use
+ */
+export interface StructuredSchema {
+  /** Paths to citation objects (default: ['citations[*]']) */
+  citations?: string[];
+  /** Field of a citation holding the verse reference (default: 'ref') */
+  referenceField?: string;
+  /** Field of a citation holding the Arabic text (default: 'arabic') */
+  textField?: string;
+}
+
+/**
+ * Validation of one citation in a structured response
+ */
+export interface StructuredCitationReport {
+  /** Concrete path of the citation, e.g. "citations[0]" */
+  path: string;
+  /** Reference as given in the response */
+  reference: string;
+  /** Arabic text as given in the response */
+  text: string;
+  /** Whether the text is authentic Quran (under the cited or a corrected reference) */
+  isValid: boolean;
+  /** Whether the citation needed a correction */
+  wasCorrected: boolean;
+  /** Reference the text actually belongs to (only when it differs from the cited one) */
+  correctedReference?: string;
+  /** Exact text of the verse(s) (only when it differs from the cited text) */
+  correctedText?: string;
+  /** The underlying validation result */
+  validation: ValidationResult;
+}
+
+/**
+ * Result of processing a structured response
+ */
+export interface StructuredOutput<T> {
+  /** Copy of the input, with citations corrected when autoCorrect is on */
+  data: T;
+  /** Whether every citation was valid and needed no correction */
+  allValid: boolean;
+  /** One entry per citation found, in path order */
+  report: StructuredCitationReport[];
+  /** Citations that could not be checked, e.g. missing fields */
+  warnings: string[];
+}
+
+/**
+ * JSON Schema for a single citation, for JSON-mode or structured-output APIs
+ */
+export const QURAN_CITATION_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'QuranCitation',
+  type: 'object',
+  properties: {
+    ref: {
+      type: 'string',
+      description: 'Verse reference as SURAH:AYAH, or SURAH:START-END for consecutive verses',
+      pattern: '^\\d{1,3}:\\d{1,3}(-\\d{1,3})?$',
+    },
+    arabic: {
+      type: 'string',
+      description: 'Exact Arabic text of the verse(s), with full diacritics',
+    },
+  },
+  required: ['ref', 'arabic'],
+} as const;
+
+type PathSegment = string | number | '*';
+
+function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const match of path.matchAll(/([^.[\]]+)|\[(\*|\d+)\]/g)) {
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else {
+      segments.push(match[2] === '*' ? '*' : Number(match[2]));
+    }
+  }
+  return segments;
+}
+
+/**
+ * Find every value matching a path
+ *
+ * @returns The values with their concrete paths, in document order
+ */
+export function resolvePath(data: unknown, path: string): { path: string; value: unknown }[] {
+  let matches: { path: string; value: unknown }[] = [{ path: '', value: data }];
+
+  for (const segment of parsePath(path)) {
+    const next: { path: string; value: unknown }[] = [];
+    for (const { path: parent, value } of matches) {
+      if (segment === '*') {
+        if (Array.isArray(value)) {
+          value.forEach((item, i) => next.push({ path: `${parent}[${i}]`, value: item }));
+        }
+      } else if (typeof segment === 'number') {
+        if (Array.isArray(value) && segment < value.length) {
+          next.push({ path: `${parent}[${segment}]`, value: value[segment] });
+        }
+      } else if (isRecord(value) && segment in value) {
+        next.push({ path: parent ? `${parent}.${segment}` : segment, value: value[segment] });
+      }
+    }
+    matches = next;
+  }
+
+  return matches;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep copy of JSON data (arrays and plain objects; other values are shared)
+ */
+export function cloneJson<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneJson) as T;
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, cloneJson(item)])
+    ) as T;
+  }
+  return value;
+}
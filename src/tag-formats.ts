@@ -0,0 +1,251 @@
+/**
+ * Tag formats
+ *
+ * A tag format tells the LLM how to mark Quran quotes (its system prompt),
+ * finds those quotes in the response (its extractor) and writes corrected
+ * quotes back in the same form (its formatter). The built-in xml, markdown,
+ * bracket and json formats are registered here like any custom format.
+ */
+
+/**
+ * A quote found by a tag format's extractor
+ */
+export interface ExtractedTag {
+  /** The reference as written in the tag, e.g. "2:255" or "Al-Baqarah 255" */
+  reference: string;
+  /** The quoted text inside the tag */
+  text: string;
+  /** Start of the whole tag in the response */
+  startIndex: number;
+  /** End of the whole tag in the response (exclusive) */
+  endIndex: number;
+}
+
+/**
+ * A way of marking Quran quotes in LLM output
+ */
+export interface TagFormat {
+  /** Name used for `tagFormat` and registerTagFormat() */
+  name: string;
+  /** Instructions telling the LLM to use this format */
+  systemPrompt: string;
+  /** Find every tagged quote in a response, in text order and without overlaps */
+  extract(text: string): ExtractedTag[];
+  /** Write a quote as a tag, e.g. when replacing it with a corrected one */
+  format(reference: string, text: string): string;
+  /**
+   * Markers that open and close a tag. The streaming processor holds
+   * text back from an opening marker until the closing one arrives.
+   */
+  delimiters: { open: string; close: string };
+}
+
+/**
+ * System prompts for LLMs to properly format Quran quotes
+ */
+export const SYSTEM_PROMPTS = {
+  /**
+   * XML-style tagging (recommended)
+   */
+  xml: `When quoting verses from the Quran, you MUST use this exact format:
+<quran ref="SURAH:AYAH">ARABIC_TEXT</quran>
+
+For multiple consecutive verses, use a range:
+<quran ref="SURAH:START-END">ARABIC_TEXT</quran>
+
+Examples:
+<quran ref="1:1">بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ</quran>
+<quran ref="112:1-4">قُلْ هُوَ ٱللَّهُ أَحَدٌ ٱللَّهُ ٱلصَّمَدُ لَمْ يَلِدْ وَلَمْ يُولَدْ وَلَمْ يَكُن لَّهُۥ كُفُوًا أَحَدٌۢ</quran>
+
+Rules:
+- Always include the reference (surah:ayah or surah:start-end for ranges)
+- Use the exact Arabic text with full diacritics if possible
+- Never paraphrase or partially quote without indication
+- If unsure of exact wording, say "approximately" before the quote`,
+
+  /**
+   * Markdown-style tagging
+   */
+  markdown: `When quoting verses from the Quran, use this format:
+\`\`\`quran ref="SURAH:AYAH"
+ARABIC_TEXT
+\`\`\`
+
+For verse ranges, use:
+\`\`\`quran ref="SURAH:START-END"
+ARABIC_TEXT
+\`\`\`
+
+Example:
+\`\`\`quran ref="112:1-4"
+قُلْ هُوَ ٱللَّهُ أَحَدٌ ٱللَّهُ ٱلصَّمَدُ لَمْ يَلِدْ وَلَمْ يُولَدْ وَلَمْ يَكُن لَّهُۥ كُفُوًا أَحَدٌۢ
+\`\`\``,
+
+  /**
+   * Bracket-style tagging (simpler)
+   */
+  bracket: `When quoting Quran verses, use: [[Q:SURAH:AYAH|ARABIC_TEXT]]
+For verse ranges: [[Q:SURAH:START-END|ARABIC_TEXT]]
+
+Example: [[Q:1:1|بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ]]
+Example range: [[Q:112:1-4|قُلْ هُوَ ٱللَّهُ أَحَدٌ ٱللَّهُ ٱلصَّمَدُ لَمْ يَلِدْ وَلَمْ يُولَدْ وَلَمْ يَكُن لَّهُۥ كُفُوًا أَحَدٌۢ]]`,
+
+  /**
+   * JSON mode: citations as structured data, checked with LLMProcessor.processStructured()
+   * on the parsed response or with the 'json' tag format on the raw text
+   */
+  json: `When your response is JSON, put every Quran quotation in a "citations" array:
+{"answer": "...", "citations": [{"ref": "SURAH:AYAH", "arabic": "ARABIC_TEXT"}]}
+
+For multiple consecutive verses, use a range: {"ref": "SURAH:START-END", "arabic": "ARABIC_TEXT"}
+
+Example:
+{"answer": "The Quran opens with the basmala.", "citations": [{"ref": "1:1", "arabic": "بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ"}]}
+
+Rules:
+- "ref" is always surah:ayah or surah:start-end, with Western digits
+- "arabic" is the exact Arabic text with full diacritics, and nothing else
+- Never put Quran text in "answer" without a matching entry in "citations"`,
+
+  /**
+   * Minimal instruction (for models that don't follow complex formats)
+   */
+  minimal: `Always cite Quran verses with their reference number in parentheses immediately after, like: "بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ (1:1)" or for ranges "... (112:1-4)"`,
+};
+
+/**
+ * Build an extractor from a regex whose first group is the reference and
+ * whose second group is the quoted text
+ *
+ * @example
+ * ```ts
+ * registerTagFormat({
+ *   name: 'braces',
+ *   systemPrompt: 'Quote the Quran as {{quran:SURAH:AYAH}}ARABIC_TEXT{{/quran}}',
+ *   extract: patternExtractor(/\{\{quran:([^}\n]+)\}\}([\s\S]*?)\{\{\/quran\}\}/g),
+ *   format: (reference, text) => `{{quran:${reference}}}${text}{{/quran}}`,
+ *   delimiters: { open: '{{quran:', close: '{{/quran}}' },
+ * });
+ * ```
+ */
+export function patternExtractor(pattern: RegExp): TagFormat['extract'] {
+  const global = new RegExp(
+    pattern.source,
+    pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`
+  );
+
+  return (text) =>
+    Array.from(text.matchAll(global), (match) => ({
+      reference: match[1],
+      text: match[2].trim(),
+      startIndex: match.index!,
+      endIndex: match.index! + match[0].length,
+    }));
+}
+
+// A {"ref": ..., "arabic": ...} citation object, with its string values still escaped
+const JSON_CITATION =
+  /\{\s*"ref"\s*:\s*("(?:[^"\\\n]|\\.)*")\s*,\s*"arabic"\s*:\s*("(?:[^"\\]|\\.)*")\s*\}/g;
+
+/**
+ * Find the citation objects SYSTEM_PROMPTS.json asks for, in the raw response
+ * text, so the corrected response stays valid JSON
+ */
+function extractJsonCitations(text: string): ExtractedTag[] {
+  const tags: ExtractedTag[] = [];
+  for (const match of text.matchAll(JSON_CITATION)) {
+    try {
+      tags.push({
+        reference: JSON.parse(match[1]),
+        text: (JSON.parse(match[2]) as string).trim(),
+        startIndex: match.index!,
+        endIndex: match.index! + match[0].length,
+      });
+    } catch {
+      // Not a valid JSON string; leave it to the untagged scan
+    }
+  }
+  return tags;
+}
+
+// The reference is captured as written (1:1, 1:1-7, "Al-Baqarah 255", ...)
+// and parsed with parseQuranReference
+const BUILT_IN_FORMATS: TagFormat[] = [
+  {
+    name: 'xml',
+    systemPrompt: SYSTEM_PROMPTS.xml,
+    extract: patternExtractor(/<quran\s+ref=["']([^"\n]+?)["']>([\s\S]*?)<\/quran>/gi),
+    format: (reference, text) => `<quran ref="${reference}">${text}</quran>`,
+    delimiters: { open: '<quran', close: '</quran>' },
+  },
+  {
+    name: 'markdown',
+    systemPrompt: SYSTEM_PROMPTS.markdown,
+    extract: patternExtractor(/```quran\s+ref=["']([^"\n]+?)["']\n([\s\S]*?)\n```/gi),
+    format: (reference, text) => `\`\`\`quran ref="${reference}"\n${text}\n\`\`\``,
+    delimiters: { open: '```quran', close: '\n```' },
+  },
+  {
+    name: 'bracket',
+    systemPrompt: SYSTEM_PROMPTS.bracket,
+    extract: patternExtractor(/\[\[Q:([^|\]\n]+)\|([\s\S]*?)\]\]/gi),
+    format: (reference, text) => `[[Q:${reference}|${text}]]`,
+    delimiters: { open: '[[Q:', close: ']]' },
+  },
+  {
+    name: 'json',
+    systemPrompt: SYSTEM_PROMPTS.json,
+    extract: extractJsonCitations,
+    format: (reference, text) =>
+      `{"ref": ${JSON.stringify(reference)}, "arabic": ${JSON.stringify(text)}}`,
+    // JSON_CITATION allows whitespace after the brace, so buffer from any brace
+    delimiters: { open: '{', close: '}' },
+  },
+];
+
+const TAG_FORMATS = new Map(BUILT_IN_FORMATS.map((format) => [format.name, format]));
+
+/**
+ * Make a tag format available by name to LLMProcessor and StreamingLLMProcessor
+ *
+ * @throws Error if the format is incomplete or its name is already registered
+ */
+export function registerTagFormat(format: TagFormat): void {
+  if (!format.name || !format.delimiters?.open || !format.delimiters.close) {
+    throw new Error('Tag format must have a name and open/close delimiters');
+  }
+  if (TAG_FORMATS.has(format.name)) {
+    throw new Error(`Tag format already registered: ${format.name}`);
+  }
+  TAG_FORMATS.set(format.name, format);
+}
+
+/**
+ * Look up a registered tag format by name
+ */
+export function getTagFormat(name: string): TagFormat | undefined {
+  return TAG_FORMATS.get(name);
+}
+
+/**
+ * Names of all registered tag formats, built-in ones first
+ */
+export function getTagFormats(): string[] {
+  return Array.from(TAG_FORMATS.keys());
+}
+
+/**
+ * Resolve a `tagFormat` option to a format
+ *
+ * @param tagFormat - Registered name or a format object (default: 'xml')
+ * @throws Error if the name is not registered
+ */
+export function resolveTagFormat(tagFormat: string | TagFormat = 'xml'): TagFormat {
+  if (typeof tagFormat !== 'string') return tagFormat;
+
+  const format = TAG_FORMATS.get(tagFormat);
+  if (!format) {
+    throw new Error(`Unknown tag format: ${tagFormat}`);
+  }
+  return format;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { diffTashkeel, hasTashkeel } from './tashkeel';
+import { QuranValidator } from './validator';
+
+const validator = new QuranValidator();
+const verse = (surah: number, ayah: number) => validator.getVerse(surah, ayah)!.text;
+// The data puts shadda before the vowel; compare in canonical order
+const nfc = (text: string | undefined) => text?.normalize('NFC');
+
+describe('hasTashkeel()', () => {
+  it('should tell vowelled from bare text', () => {
+    expect(hasTashkeel('قُلْ هُوَ')).toBe(true);
+    expect(hasTashkeel('قل هو')).toBe(false);
+    expect(hasTashkeel('Say: He is Allah')).toBe(false);
+  });
+});
+
+describe('diffTashkeel()', () => {
+  it('should find nothing wrong with the verse itself', () => {
+    for (const [surah, ayah] of [[1, 1], [2, 255], [112, 1]]) {
+      const analysis = diffTashkeel(verse(surah, ayah), verse(surah, ayah));
+      expect(analysis.errors).toEqual([]);
+      expect(analysis.accuracy).toBe(1);
+    }
+  });
+
+  it('should report a missing shadda with its position in both texts', () => {
+    const input = 'قُلْ هُوَ اللَهُ أَحَدٌ';
+    const analysis = diffTashkeel(input, verse(112, 1));
+
+    expect(analysis.errors.length).toBe(1);
+    const [error] = analysis.errors;
+    expect(error.type).toBe('missing-shadda');
+    expect(error.input).toBe('لَ');
+    expect(nfc(error.expected)).toBe('لَّ');
+    expect(input.slice(error.inputStart, error.inputEnd)).toBe('لَ');
+    expect(nfc(verse(112, 1).slice(error.verseStart, error.verseEnd))).toBe('لَّ');
+  });
+
+  it('should tell wrong harakat, missing sukun and tanween errors apart', () => {
+    const analysis = diffTashkeel('بِسمُ اللَّهِ الرَّحْمَٰنِ الرَّحِيمٍ', verse(1, 1));
+
+    expect(analysis.errors.map((e) => e.type)).toEqual(['missing-sukun', 'wrong-haraka', 'tanween']);
+    expect(analysis.errors.map((e) => e.input)).toEqual(['س', 'مُ', 'مٍ']);
+  });
+
+  it('should report a missing vowel', () => {
+    const analysis = diffTashkeel('قُلْ هُوَ اللَّهُ أَحدٌ', verse(112, 1));
+
+    expect(analysis.errors.map((e) => e.type)).toEqual(['missing-haraka']);
+    expect(analysis.errors[0].input).toBe('ح');
+  });
+
+  it('should report a dagger alif written out or left out', () => {
+    const written = diffTashkeel('بِسْمِ اللَّهِ الرَّحْمَانِ الرَّحِيمِ', verse(1, 1));
+    expect(written.errors.map((e) => [e.type, e.input])).toEqual([['dagger-alef', 'ا']]);
+
+    const missing = diffTashkeel('بِسْمِ اللَّهِ الرَّحْمَنِ الرَّحِيمِ', verse(1, 1));
+    expect(missing.errors.map((e) => [e.type, e.input])).toEqual([['dagger-alef', '']]);
+    expect(missing.errors[0].expected).toBe('ٰ');
+  });
+
+  it('should not hold recitation marks of the Uthmani script against the quote', () => {
+    // The verse leaves assimilated letters bare and marks assimilation with a
+    // shadda on the next word's first letter; modern spelling does neither
+    const analysis = diffTashkeel('أُولَئِكَ عَلَى هُدًى مِنْ رَبِّهِمْ', verse(2, 5));
+
+    expect(analysis.errors.filter((e) => e.type !== 'dagger-alef')).toEqual([]);
+  });
+
+  it('should read a hamza on a tatweel as the hamza letter', () => {
+    const analysis = diffTashkeel('يَسْأَلُونَكَ', 'يَسْـَٔلُونَكَ');
+
+    expect(analysis.errors).toEqual([]);
+    expect(analysis.checkedLetters).toBe(6);
+  });
+
+  it('should skip words that are spelled differently', () => {
+    const analysis = diffTashkeel('قُلْ هُوَ اللَّهُ وَاحِدٌ', verse(112, 1));
+
+    expect(analysis.errors).toEqual([]);
+    expect(analysis.checkedLetters).toBe(6);
+  });
+
+  it('should score the share of letters vowelled correctly', () => {
+    const partly = diffTashkeel('قُلْ هُوَ اللَهُ أَحَدٌ', verse(112, 1));
+    expect(partly.checkedLetters).toBe(9);
+    expect(partly.correctLetters).toBe(8);
+    expect(partly.accuracy).toBeCloseTo(8 / 9);
+
+    const bare = diffTashkeel('قل هو الله أحد', verse(112, 1));
+    expect(bare.correctLetters).toBe(0);
+    expect(bare.accuracy).toBe(0);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Letter-by-letter comparison of the tashkeel (vowel marks) of a quote
+ * against the verse it matches
+ *
+ * A quote that matches only after normalization has the right letters but
+ * different diacritics. This finds which letters differ and how, and
+ * scores how much of the verse's vowelling the quote reproduced.
+ */
+
+import { normalizeArabic } from './normalizer';
+import { diffWords } from './word-diff';
+import type { TashkeelAnalysis, TashkeelError, TashkeelErrorType } from './types';
+
+const ALIF = '\u0627'; // ا
+const HAMZA = '\u0621'; // ء
+const FATHATAN = '\u064B';
+const DAMMATAN = '\u064C';
+const KASRATAN = '\u064D';
+const SHADDA = '\u0651';
+const SUKUN = '\u0652';
+const DAGGER_ALIF = '\u0670';
+const HAMZA_ABOVE = '\u0654';
+const TATWEEL = '\u0640';
+
+// Harakat, tanween and sukun: the marks that give a letter its vowel
+const VOWEL = /[\u064B-\u0650\u0652]/;
+const TASHKEEL = /[\u064B-\u0652]/;
+const LETTER = /[\u0621-\u063A\u0641-\u064A\u0671-\u06D3]/;
+
+/**
+ * One letter of a word, with the marks written on it
+ */
+interface LetterUnit {
+  /** Letter used for alignment, with alif and hamza forms folded */
+  base: string;
+  /** A dagger (superscript) alif rather than a written letter */
+  isDagger: boolean;
+  vowel?: string;
+  hasShadda: boolean;
+  /** First letter of its word */
+  isInitial: boolean;
+  /** The letter and its marks in the text */
+  start: number;
+  end: number;
+}
+
+/**
+ * Whether text carries any tashkeel at all
+ *
+ * @example
+ * ```ts
+ * hasTashkeel('قُلْ هُوَ') // true
+ * hasTashkeel('قل هو') // false
+ * ```
+ */
+export function hasTashkeel(text: string): boolean {
+  return TASHKEEL.test(text);
+}
+
+/**
+ * Compare the tashkeel of a quote with that of the verse text
+ *
+ * Words are aligned as in diffWords(), then the letters of each matching
+ * word. Every letter of the verse that carries a vowel, tanween, sukun or
+ * shadda is checked, as is every dagger alif. Marks the Uthmani script
+ * adds for recitation are not held against the quote: a letter the verse
+ * leaves bare may take a sukun, and the shadda of assimilation on a word's
+ * first letter is optional. Words the quote gets wrong are skipped; their
+ * letters are a spelling problem rather than a vowelling one.
+ *
+ * @param input - The text as quoted
+ * @param expected - The verse text, with full tashkeel
+ * @returns Errors in reading order and an accuracy score
+ *
+ * @example
+ * ```ts
+ * const analysis = diffTashkeel('قُلْ هُوَ اللَهُ أَحَدٌ', 'قُلْ هُوَ ٱللَّهُ أَحَدٌ');
+ * analysis.errors[0].type; // 'missing-shadda'
+ * analysis.accuracy; // 0.89 (8 of 9 letters)
+ * ```
+ */
+export function diffTashkeel(input: string, expected: string): TashkeelAnalysis {
+  const errors: TashkeelError[] = [];
+  let checkedLetters = 0;
+  let correctLetters = 0;
+
+  for (const op of diffWords(input, expected)) {
+    if (op.op !== 'equal' && !(op.op === 'substitute' && isSameSkeleton(op.input, op.expected))) {
+      continue;
+    }
+
+    const inputLetters = parseLetters(op.input, op.inputStart);
+    const verseLetters = parseLetters(op.expected, op.verseStart);
+    // A letter one side lacks is placed after the last letter both have
+    let inputAt = op.inputStart;
+    let verseAt = op.verseStart;
+
+    for (const [a, b] of alignLetters(inputLetters, verseLetters)) {
+      const types = compareLetters(a, b);
+      if (b && isChecked(b)) {
+        checkedLetters++;
+        if (types.length === 0) correctLetters++;
+      }
+
+      const inputStart = a ? a.start : inputAt;
+      const inputEnd = a ? a.end : inputAt;
+      const verseStart = b ? b.start : verseAt;
+      const verseEnd = b ? b.end : verseAt;
+      inputAt = inputEnd;
+      verseAt = verseEnd;
+
+      for (const type of types) {
+        errors.push({
+          type,
+          input: input.slice(inputStart, inputEnd),
+          expected: expected.slice(verseStart, verseEnd),
+          inputStart,
+          inputEnd,
+          verseStart,
+          verseEnd,
+        });
+      }
+    }
+  }
+
+  return {
+    errors,
+    checkedLetters,
+    correctLetters,
+    accuracy: checkedLetters === 0 ? 1 : correctLetters / checkedLetters,
+  };
+}
+
+/**
+ * Whether two words differ only in their alifs, as الرحمن and ٱلرَّحْمَٰنِ do
+ */
+function isSameSkeleton(input: string, expected: string): boolean {
+  if (/\s/.test(input.trim()) || /\s/.test(expected.trim())) return false;
+  const skeleton = (word: string) =>
+    normalizeArabic(word, { stripHamza: true }).split(ALIF).join('');
+  return skeleton(input) === skeleton(expected);
+}
+
+/**
+ * Split a word into its letters and their marks
+ *
+ * @param offset - Position of the word in its text
+ */
+function parseLetters(word: string, offset: number): LetterUnit[] {
+  const letters: LetterUnit[] = [];
+  const chars = Array.from(word);
+  let position = offset;
+
+  const push = (base: string, isDagger: boolean, start: number) => {
+    letters.push({
+      base,
+      isDagger,
+      hasShadda: false,
+      isInitial: letters.length === 0,
+      start,
+      end: start + 1,
+    });
+  };
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const current = letters[letters.length - 1];
+
+    if (LETTER.test(char)) {
+      push(foldLetter(char), false, position);
+    } else if (char === DAGGER_ALIF) {
+      push(ALIF, true, position);
+    } else if (char === TATWEEL && isHamzaSeat(chars, i)) {
+      // Uthmani hamza on a tatweel (يَسْـَٔلُونَ), a hamza letter in any other spelling
+      push(HAMZA, false, position);
+    } else if (current) {
+      if (char === SHADDA) current.hasShadda = true;
+      else if (VOWEL.test(char)) current.vowel = char;
+    }
+
+    position += char.length;
+    if (letters.length > 0) letters[letters.length - 1].end = position;
+  }
+
+  return letters;
+}
+
+/**
+ * Whether the tatweel at `index` carries a hamza, written before or after its vowel
+ */
+function isHamzaSeat(chars: string[], index: number): boolean {
+  let i = index + 1;
+  while (i < chars.length && (VOWEL.test(chars[i]) || chars[i] === SHADDA)) i++;
+  return chars[i] === HAMZA_ABOVE;
+}
+
+/**
+ * Fold the forms of alif, hamza and ya that spellings disagree on
+ */
+function foldLetter(char: string): string {
+  if (/[\u0622\u0627\u0671-\u0673]/.test(char)) return ALIF; // آ ا ٱ → ا
+  if (/[\u0621\u0623\u0624\u0625\u0626]/.test(char)) return HAMZA; // ء أ ؤ إ ئ → ء
+  if (/[\u0649\u06CC]/.test(char)) return '\u064A'; // ى ی → ي
+  if (char === '\u06A9') return '\u0643'; // ک → ك
+  return char;
+}
+
+/**
+ * Pair up the letters of two spellings of a word with a minimal alignment.
+ * Unpaired letters come back paired with undefined.
+ */
+function alignLetters(
+  a: LetterUnit[],
+  b: LetterUnit[]
+): [LetterUnit | undefined, LetterUnit | undefined][] {
+  const m = a.length;
+  const n = b.length;
+  const dp: number[][] = Array.from({ length: m + 1 }, (_, i) =>
+    Array.from({ length: n + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const cost = a[i - 1].base === b[j - 1].base ? 0 : 1;
+      dp[i][j] = Math.min(dp[i - 1][j] + 1, dp[i][j - 1] + 1, dp[i - 1][j - 1] + cost);
+    }
+  }
+
+  const pairs: [LetterUnit | undefined, LetterUnit | undefined][] = [];
+  let i = m;
+  let j = n;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && a[i - 1].base === b[j - 1].base && dp[i][j] === dp[i - 1][j - 1]) {
+      pairs.push([a[i - 1], b[j - 1]]);
+      i--;
+      j--;
+    } else if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + 1) {
+      // Different letters: a spelling difference, not a vowelling one
+      pairs.push([undefined, undefined]);
+      i--;
+      j--;
+    } else if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
+      pairs.push([a[i - 1], undefined]);
+      i--;
+    } else {
+      pairs.push([undefined, b[j - 1]]);
+      j--;
+    }
+  }
+
+  return pairs.reverse().filter(([x, y]) => x || y);
+}
+
+/**
+ * Letters of the verse that count towards the score
+ */
+function isChecked(letter: LetterUnit): boolean {
+  return letter.isDagger || letter.vowel !== undefined || (letter.hasShadda && !letter.isInitial);
+}
+
+/**
+ * What is wrong with the marks of a quoted letter, given the verse's letter
+ */
+function compareLetters(a: LetterUnit | undefined, b: LetterUnit | undefined): TashkeelErrorType[] {
+  // A dagger alif missing from the quote, added to it, or written as a full alif
+  if (!a || !b) return (a ?? b)!.isDagger ? ['dagger-alef'] : [];
+  if (a.isDagger !== b.isDagger) return ['dagger-alef'];
+  if (!isChecked(b)) return [];
+
+  const types: TashkeelErrorType[] = [];
+
+  if (!b.isInitial) {
+    if (b.hasShadda && !a.hasShadda) types.push('missing-shadda');
+    if (!b.hasShadda && a.hasShadda) types.push('extra-shadda');
+  }
+
+  if (b.vowel && a.vowel !== b.vowel) {
+    if (isTanween(b.vowel) || isTanween(a.vowel)) {
+      types.push('tanween');
+    } else if (!a.vowel) {
+      types.push(b.vowel === SUKUN ? 'missing-sukun' : 'missing-haraka');
+    } else {
+      types.push('wrong-haraka');
+    }
+  }
+
+  return types;
+}
+
+function isTanween(vowel: string | undefined): boolean {
+  return vowel === FATHATAN || vowel === DAMMATAN || vowel === KASRATAN;
+}
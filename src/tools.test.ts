@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QURAN_TOOLS,
+  createToolHandlers,
+  executeToolCall,
+  runToolLoop,
+  toAnthropicTools,
+  toOpenAITools,
+  type ModelTurn,
+  type ToolLoopMessage,
+} from './tools';
+import { QuranValidator } from './validator';
+import { LLMProcessor } from './llm-integration';
+
+const validator = new QuranValidator();
+const handlers = createToolHandlers(validator);
+
+/**
+ * A fake model that replays scripted turns and records what it was sent
+ */
+function scriptedModel(turns: ModelTurn[]) {
+  const calls: ToolLoopMessage[][] = [];
+  const model = (messages: ToolLoopMessage[]) => {
+    calls.push(messages);
+    const turn = turns[calls.length - 1];
+    if (!turn) throw new Error('Script ran out of turns');
+    return turn;
+  };
+  return { model, calls };
+}
+
+describe('tool definitions', () => {
+  it('should define the four Quran tools', () => {
+    expect(QURAN_TOOLS.map((t) => t.name)).toEqual([
+      'get_verse',
+      'get_verse_range',
+      'search_quran',
+      'get_surah_info',
+    ]);
+  });
+
+  it('should convert to provider formats', () => {
+    const [openai] = toOpenAITools();
+    const [anthropic] = toAnthropicTools();
+
+    expect(openai.type).toBe('function');
+    expect(openai.function.name).toBe('get_verse');
+    expect(openai.function.parameters.required).toEqual(['surah', 'ayah']);
+    expect(anthropic.name).toBe('get_verse');
+    expect(anthropic.input_schema).toBe(QURAN_TOOLS[0].parameters);
+  });
+});
+
+describe('tool handlers', () => {
+  it('should get a verse', () => {
+    expect(handlers.get_verse({ surah: 112, ayah: 1 })).toMatchObject({
+      reference: '112:1',
+      text: validator.getVerse(112, 1)!.text,
+    });
+  });
+
+  it('should get a verse range', () => {
+    const result = handlers.get_verse_range({ surah: 112, start_ayah: 1, end_ayah: 4 }) as {
+      text: string;
+      verses: unknown[];
+    };
+
+    expect(result.text).toBe(validator.getVerseRange(112, 1, 4)!.text);
+    expect(result.verses.length).toBe(4);
+  });
+
+  it('should search', () => {
+    const result = handlers.search_quran({ query: 'الصمد', limit: 3 }) as {
+      results: { reference: string }[];
+    };
+
+    expect(result.results[0].reference).toBe('112:2');
+  });
+
+  it('should get surah info', () => {
+    expect(handlers.get_surah_info({ surah: 2 })).toMatchObject({
+      number: 2,
+      englishName: 'Al-Baqara',
+      versesCount: 286,
+    });
+  });
+
+  it('should return errors instead of throwing', () => {
+    expect(handlers.get_verse({ surah: 1, ayah: 8 })).toEqual({
+      error: 'Verse 1:8 does not exist',
+    });
+    expect(handlers.get_verse_range({ surah: 2, start_ayah: 1, end_ayah: 100 })).toEqual({
+      error: 'Ranges are limited to 50 verses',
+    });
+    expect(handlers.get_surah_info({ surah: 'two' })).toHaveProperty('error');
+    expect(executeToolCall(handlers, { name: 'delete_quran', arguments: {} })).toEqual({
+      error: 'Unknown tool: delete_quran',
+    });
+    expect(executeToolCall(handlers, { name: 'get_verse', arguments: '{not json' })).toEqual({
+      error: 'Tool arguments must be a JSON object',
+    });
+  });
+
+  it('should accept JSON string arguments', () => {
+    const result = executeToolCall(handlers, {
+      name: 'get_verse',
+      arguments: '{"surah": 1, "ayah": 1}',
+    });
+
+    expect(result).toMatchObject({ reference: '1:1' });
+  });
+});
+
+describe('runToolLoop()', () => {
+  it('should run tool calls until the model answers', async () => {
+    const basmala = validator.getVerse(1, 1)!.text;
+    const { model, calls } = scriptedModel([
+      { toolCalls: [{ id: 'call_1', name: 'get_verse', arguments: { surah: 1, ayah: 1 } }] },
+      { content: `The Quran opens with <quran ref="1:1">${basmala}</quran>.` },
+    ]);
+
+    const result = await runToolLoop({
+      model,
+      handlers,
+      messages: [{ role: 'user', content: 'How does the Quran open?' }],
+      processor: new LLMProcessor({ validator }),
+    });
+
+    expect(result.turns).toBe(2);
+    expect(result.content).toContain(basmala);
+    expect(result.processed?.allValid).toBe(true);
+
+    const toolMessage = calls[1][2];
+    expect(toolMessage.role).toBe('tool');
+    if (toolMessage.role === 'tool') {
+      expect(toolMessage.toolCallId).toBe('call_1');
+      expect(JSON.parse(toolMessage.content).text).toBe(basmala);
+    }
+    expect(result.messages.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+  });
+
+  it('should stop after maxTurns', async () => {
+    const { model } = scriptedModel(
+      Array.from({ length: 3 }, (_, i) => ({
+        toolCalls: [{ id: `call_${i}`, name: 'get_surah_info', arguments: { surah: 1 } }],
+      }))
+    );
+
+    await expect(
+      runToolLoop({ model, handlers, messages: [], maxTurns: 3 })
+    ).rejects.toThrow('Model did not finish within 3 turns');
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Function-calling tools backed by the local verse database
+ *
+ * Instead of trusting the model to recall verse text, give it tools to
+ * fetch verses, search and look up surahs. The definitions are plain JSON
+ * Schema and convert to the OpenAI and Anthropic tool formats; the handlers
+ * answer from a QuranValidator, so no network access is needed.
+ */
+
+import { QuranValidator } from './validator';
+import type { LLMProcessor, ProcessedOutput } from './llm-integration';
+import type { QuranVerse } from './types';
+
+/**
+ * Names of the built-in Quran tools
+ */
+export type QuranToolName = 'get_verse' | 'get_verse_range' | 'search_quran' | 'get_surah_info';
+
+/**
+ * A provider-neutral tool definition
+ */
+export interface ToolDefinition {
+  name: QuranToolName;
+  description: string;
+  /** JSON Schema for the tool's arguments */
+  parameters: {
+    type: 'object';
+    properties: Record<string, object>;
+    required: string[];
+  };
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+  /** Provider's id for the call, echoed back with the result */
+  id: string;
+  name: string;
+  /** Arguments as an object, or as the JSON string some providers send */
+  arguments: Record<string, unknown> | string;
+}
+
+/**
+ * A tool handler: takes the call's arguments, returns a JSON-serializable result
+ */
+export type ToolHandler = (args: Record<string, unknown>) => unknown;
+
+// Longest range get_verse_range returns, to keep tool results a sensible size
+const MAX_RANGE_VERSES = 50;
+const MAX_SEARCH_RESULTS = 20;
+
+const SURAH_PARAMETER = {
+  type: 'integer',
+  minimum: 1,
+  maximum: 114,
+  description: 'Surah number (1-114)',
+};
+
+/**
+ * Tool definitions for fetching Quran text, in provider-neutral form
+ *
+ * Use toOpenAITools() or toAnthropicTools() to pass them to a provider.
+ */
+export const QURAN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'get_verse',
+    description:
+      'Get the exact Arabic text of one Quran verse. Use this before quoting any verse instead of quoting from memory.',
+    parameters: {
+      type: 'object',
+      properties: {
+        surah: SURAH_PARAMETER,
+        ayah: { type: 'integer', minimum: 1, description: 'Ayah (verse) number within the surah' },
+      },
+      required: ['surah', 'ayah'],
+    },
+  },
+  {
+    name: 'get_verse_range',
+    description: `Get the exact Arabic text of consecutive verses of one surah (at most ${MAX_RANGE_VERSES}).`,
+    parameters: {
+      type: 'object',
+      properties: {
+        surah: SURAH_PARAMETER,
+        start_ayah: { type: 'integer', minimum: 1, description: 'First ayah of the range' },
+        end_ayah: { type: 'integer', minimum: 1, description: 'Last ayah of the range (inclusive)' },
+      },
+      required: ['surah', 'start_ayah', 'end_ayah'],
+    },
+  },
+  {
+    name: 'search_quran',
+    description:
+      'Search the Quran for verses containing Arabic words. Quote a phrase to require adjacent words; separate alternatives with OR.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Arabic words to search for' },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_SEARCH_RESULTS,
+          description: 'Maximum number of results (default: 5)',
+        },
+        surah: { ...SURAH_PARAMETER, description: 'Only search this surah' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_surah_info',
+    description: 'Get the names, revelation type and number of verses of a surah.',
+    parameters: {
+      type: 'object',
+      properties: {
+        surah: SURAH_PARAMETER,
+      },
+      required: ['surah'],
+    },
+  },
+];
+
+/**
+ * Convert tool definitions to the OpenAI Chat Completions `tools` format
+ */
+export function toOpenAITools(tools: ToolDefinition[] = QURAN_TOOLS) {
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/**
+ * Convert tool definitions to the Anthropic Messages `tools` format
+ */
+export function toAnthropicTools(tools: ToolDefinition[] = QURAN_TOOLS) {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters,
+  }));
+}
+
+function integerArg(args: Record<string, unknown>, name: string): number | undefined {
+  const value = typeof args[name] === 'string' ? Number(args[name]) : args[name];
+  return typeof value === 'number' && Number.isInteger(value) ? value : undefined;
+}
+
+function verseResult(verse: QuranVerse) {
+  return { reference: `${verse.surah}:${verse.ayah}`, text: verse.text };
+}
+
+/**
+ * Create handlers for the Quran tools, answering from a validator's verse data
+ *
+ * Handlers never throw: bad arguments and unknown verses come back as
+ * `{ error }` so the model can correct its call.
+ *
+ * @param validator - Validator to read verses from (default: a new one)
+ * @returns One handler per tool name
+ */
+export function createToolHandlers(
+  validator: QuranValidator = new QuranValidator()
+): Record<QuranToolName, ToolHandler> {
+  return {
+    get_verse: (args) => {
+      const surah = integerArg(args, 'surah');
+      const ayah = integerArg(args, 'ayah');
+      if (surah === undefined || ayah === undefined) {
+        return { error: 'surah and ayah must be integers' };
+      }
+
+      const verse = validator.getVerse(surah, ayah);
+      if (!verse) {
+        return { error: `Verse ${surah}:${ayah} does not exist` };
+      }
+      return {
+        ...verseResult(verse),
+        translation: validator.getTranslation(surah, ayah)?.text,
+      };
+    },
+
+    get_verse_range: (args) => {
+      const surah = integerArg(args, 'surah');
+      const start = integerArg(args, 'start_ayah');
+      const end = integerArg(args, 'end_ayah');
+      if (surah === undefined || start === undefined || end === undefined) {
+        return { error: 'surah, start_ayah and end_ayah must be integers' };
+      }
+      if (end - start + 1 > MAX_RANGE_VERSES) {
+        return { error: `Ranges are limited to ${MAX_RANGE_VERSES} verses` };
+      }
+
+      const range = validator.getVerseRange(surah, start, end);
+      if (!range) {
+        return { error: `Verses ${surah}:${start}-${end} do not exist` };
+      }
+      return {
+        reference: `${surah}:${start}-${end}`,
+        text: range.text,
+        verses: range.verses.map(verseResult),
+      };
+    },
+
+    search_quran: (args) => {
+      if (typeof args.query !== 'string' || !args.query.trim()) {
+        return { error: 'query must be a non-empty string' };
+      }
+      const limit = Math.min(integerArg(args, 'limit') ?? 5, MAX_SEARCH_RESULTS);
+      const surah = integerArg(args, 'surah');
+
+      const results = validator.search(args.query, { limit, surah });
+      return {
+        results: results.map((result) => ({
+          ...verseResult(result.verse),
+          similarity: Math.round(result.similarity * 100) / 100,
+        })),
+      };
+    },
+
+    get_surah_info: (args) => {
+      const number = integerArg(args, 'surah');
+      const surah = number !== undefined ? validator.getSurah(number) : undefined;
+      if (!surah) {
+        return { error: 'surah must be an integer from 1 to 114' };
+      }
+      return { ...surah };
+    },
+  };
+}
+
+/**
+ * Run one tool call against a set of handlers
+ *
+ * @returns The handler's result, or `{ error }` for unknown tools and unparseable arguments
+ */
+export function executeToolCall(
+  handlers: Record<string, ToolHandler>,
+  call: Pick<ToolCall, 'name' | 'arguments'>
+): unknown {
+  const handler = handlers[call.name];
+  if (!handler) {
+    return { error: `Unknown tool: ${call.name}` };
+  }
+
+  let args: unknown = call.arguments;
+  if (typeof args === 'string') {
+    try {
+      args = args.trim() ? JSON.parse(args) : {};
+    } catch {
+      return { error: 'Tool arguments must be a JSON object' };
+    }
+  }
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    return { error: 'Tool arguments must be a JSON object' };
+  }
+
+  return handler(args as Record<string, unknown>);
+}
+
+/**
+ * A message in a tool loop conversation
+ */
+export type ToolLoopMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | {
+      role: 'tool';
+      toolCallId: string;
+      name: string;
+      /** The tool result as JSON */
+      content: string;
+    };
+
+/**
+ * One model reply: text, tool calls, or both
+ */
+export interface ModelTurn {
+  content?: string;
+  toolCalls?: ToolCall[];
+}
+
+/**
+ * Options for runToolLoop()
+ */
+export interface ToolLoopOptions {
+  /**
+   * Call the model with the conversation so far. Adapt your provider's SDK
+   * here, e.g. map `tool` messages to OpenAI `tool` or Anthropic `tool_result` blocks.
+   */
+  model: (messages: ToolLoopMessage[]) => ModelTurn | Promise<ModelTurn>;
+  /** Conversation to start from, usually a single user message */
+  messages: ToolLoopMessage[];
+  /** Tool handlers (default: createToolHandlers()) */
+  handlers?: Record<string, ToolHandler>;
+  /** Maximum number of model calls (default: 5) */
+  maxTurns?: number;
+  /** Validate the final answer's quotes with this processor */
+  processor?: LLMProcessor;
+}
+
+/**
+ * Result of a tool loop
+ */
+export interface ToolLoopResult {
+  /** The model's final answer */
+  content: string;
+  /** The whole conversation, including tool calls and results */
+  messages: ToolLoopMessage[];
+  /** Number of model calls made */
+  turns: number;
+  /** The final answer processed by `options.processor`, if given */
+  processed?: ProcessedOutput;
+}
+
+/**
+ * Let a model call the Quran tools until it gives a final answer
+ *
+ * @throws Error if the model is still calling tools after `maxTurns` calls
+ *
+ * @example
+ * ```ts
+ * const result = await runToolLoop({
+ *   messages: [{ role: 'user', content: 'Quote Ayat al-Kursi' }],
+ *   model: async (messages) => {
+ *     const response = await client.chat.completions.create({
+ *       model: 'gpt-4o',
+ *       messages: toOpenAIMessages(messages), // your mapping
+ *       tools: toOpenAITools(),
+ *     });
+ *     const message = response.choices[0].message;
+ *     return {
+ *       content: message.content ?? '',
+ *       toolCalls: message.tool_calls?.map((call) => ({
+ *         id: call.id,
+ *         name: call.function.name,
+ *         arguments: call.function.arguments,
+ *       })),
+ *     };
+ *   },
+ *   processor: new LLMProcessor(),
+ * });
+ * ```
+ */
+export async function runToolLoop(options: ToolLoopOptions): Promise<ToolLoopResult> {
+  const { model, processor, maxTurns = 5 } = options;
+  const handlers = options.handlers ?? createToolHandlers();
+  const messages = [...options.messages];
+
+  for (let turns = 1; turns <= maxTurns; turns++) {
+    const reply = await model([...messages]);
+    const content = reply.content ?? '';
+    const toolCalls = reply.toolCalls ?? [];
+
+    if (toolCalls.length === 0) {
+      messages.push({ role: 'assistant', content });
+      return {
+        content,
+        messages,
+        turns,
+        processed: processor?.process(content),
+      };
+    }
+
+    messages.push({ role: 'assistant', content, toolCalls });
+    for (const call of toolCalls) {
+      messages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(executeToolCall(handlers, call)),
+      });
+    }
+  }
+
+  throw new Error(`Model did not finish within ${maxTurns} turns`);
+}
@@ -0,0 +1,126 @@
+/**
+ * Matching translated quotes against translation packs
+ *
+ * Quotes are compared as bags of content words, scored by how many of the
+ * quote's words the translation contains. This tolerates excerpts and small
+ * rewordings, while an invented quote or one attached to the wrong verse
+ * shares few words with the cited verse.
+ */
+
+import type { TranslationPack } from './types';
+
+// Function words that carry no evidence about which verse is quoted
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'him', 'his', 'i', 'if', 'in', 'into', 'is',
+  'it', 'its', 'me', 'my', 'o', 'of', 'on', 'or', 'our', 'say', 'says', 'she',
+  'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+  'those', 'to', 'us', 'was', 'we', 'were', 'what', 'which', 'who', 'whom', 'will',
+  'with', 'you', 'your',
+]);
+
+/**
+ * Split a translation into its distinct content words
+ *
+ * Words are lowercased with accents and other marks removed, function
+ * words are dropped, and a plural "s" is stripped so "sign" and "signs" meet.
+ */
+export function translationTerms(text: string): Set<string> {
+  const words =
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  const terms = new Set<string>();
+  for (const word of words) {
+    if (STOPWORDS.has(word)) continue;
+    const isPlural = word.length > 3 && word.endsWith('s') && !word.endsWith('ss');
+    terms.add(isPlural ? word.slice(0, -1) : word);
+  }
+  return terms;
+}
+
+/**
+ * A verse whose translation best matches a quote
+ */
+export interface TranslationCandidate {
+  verseId: number;
+  /** Share of the quote's content words found in the verse's translation (0-1) */
+  similarity: number;
+}
+
+export class TranslationIndex {
+  private termsById: Map<number, Set<string>>;
+  // term → ids of verses whose translation contains it
+  private postings: Map<string, number[]>;
+
+  constructor(pack: TranslationPack) {
+    this.termsById = new Map();
+    this.postings = new Map();
+
+    for (const [key, text] of Object.entries(pack.verses)) {
+      const id = Number(key);
+      const terms = translationTerms(text);
+      this.termsById.set(id, terms);
+      for (const term of terms) {
+        const ids = this.postings.get(term);
+        if (ids) {
+          ids.push(id);
+        } else {
+          this.postings.set(term, [id]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether the pack translates every one of the given verses
+   */
+  covers(verseIds: number[]): boolean {
+    return verseIds.every((id) => this.termsById.has(id));
+  }
+
+  /**
+   * Score a quote against the combined translation of one or more verses
+   *
+   * @param quote - Content words of the quote
+   * @param verseIds - Verses the quote is claimed to come from
+   * @returns Share of the quote's words found in the translation (0-1)
+   */
+  similarity(quote: Set<string>, verseIds: number[]): number {
+    if (quote.size === 0) return 0;
+
+    let shared = 0;
+    for (const term of quote) {
+      if (verseIds.some((id) => this.termsById.get(id)?.has(term))) shared++;
+    }
+    return shared / quote.size;
+  }
+
+  /**
+   * Find the single verse whose translation best matches a quote
+   *
+   * Ties are broken in favour of the shorter translation, where the shared
+   * words make up more of the verse.
+   */
+  best(quote: Set<string>): TranslationCandidate | undefined {
+    const shared = new Map<number, number>();
+    for (const term of quote) {
+      for (const id of this.postings.get(term) ?? []) {
+        shared.set(id, (shared.get(id) ?? 0) + 1);
+      }
+    }
+
+    let best: { verseId: number; count: number; density: number } | undefined;
+    for (const [verseId, count] of shared) {
+      const density = count / this.termsById.get(verseId)!.size;
+      if (!best || count > best.count || (count === best.count && density > best.density)) {
+        best = { verseId, count, density };
+      }
+    }
+
+    return best && { verseId: best.verseId, similarity: best.count / quote.size };
+  }
+}
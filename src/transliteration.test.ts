@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTransliteration, transliterationKey } from './transliteration';
+import { QuranValidator } from './validator';
+
+const validator = new QuranValidator();
+const basmala = validator.getVerse(1, 1)!.text;
+
+describe('normalizeTransliteration()', () => {
+  it('should reduce different romanizations to the same skeleton', () => {
+    const key = transliterationKey(basmala);
+
+    expect(normalizeTransliteration('Bismillahir rahmanir rahim')).toBe(key);
+    expect(normalizeTransliteration('Bismi Allāhi al-raḥmāni al-raḥīmi')).toBe(key);
+    expect(normalizeTransliteration('bismillah ir-ra7maan ir-ra7eem')).toBe(key);
+  });
+
+  it('should read chat-spelling digits as Arabic letters', () => {
+    expect(normalizeTransliteration('a7ad')).toBe(normalizeTransliteration('ahad'));
+    expect(normalizeTransliteration('3alaykum')).toBe(normalizeTransliteration('ʿalaykum'));
+    expect(normalizeTransliteration('5alid')).toBe(normalizeTransliteration('Khalid'));
+  });
+
+  it('should merge digraphs into single letters', () => {
+    expect(normalizeTransliteration('shams')).toBe('cms');
+    expect(normalizeTransliteration('alladhina')).toBe('lvn');
+  });
+});
+
+describe('transliterationKey()', () => {
+  it('should drop the lam of the article before sun letters', () => {
+    expect(transliterationKey('ٱلرَّحْمَٰنِ')).toBe('rhmn');
+    expect(transliterationKey('ٱلْحَمْدُ')).toBe('lhmd');
+  });
+
+  it('should ignore diacritics and Quranic marks', () => {
+    expect(transliterationKey('الرحمن')).toBe(transliterationKey('ٱلرَّحْمَٰنِ'));
+  });
+});
+
+describe('QuranValidator.validateTransliteration()', () => {
+  it('should find the verse and its Arabic text', () => {
+    const result = validator.validateTransliteration('Qul huwa Allahu ahad');
+
+    expect(result.isValid).toBe(true);
+    expect(result.reference).toBe('112:1');
+    expect(result.similarity).toBe(1);
+    expect(result.matchedVerse?.text).toBe(validator.getVerse(112, 1)!.text);
+  });
+
+  it('should tolerate small spelling differences in longer verses', () => {
+    const result = validator.validateTransliteration('Ihdinas-siraatal-mustaqeem');
+
+    expect(result.reference).toBe('1:6');
+  });
+
+  it('should reject text that is not a whole verse', () => {
+    expect(validator.validateTransliteration('The weather is nice today').isValid).toBe(false);
+    expect(validator.validateTransliteration('Inna lillahi wa inna').isValid).toBe(false);
+  });
+
+  it('should check against a cited verse', () => {
+    expect(validator.validateTransliteration('Qul huwa Allahu ahad', '112:1').isValid).toBe(true);
+
+    const wrong = validator.validateTransliteration('Qul huwa Allahu ahad', '112:2');
+    expect(wrong.isValid).toBe(false);
+    expect(wrong.reference).toBe('112:2');
+  });
+});
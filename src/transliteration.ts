@@ -0,0 +1,243 @@
+/**
+ * Matching transliterated (Latin-script) quotes against the Arabic text
+ *
+ * Romanizations disagree on vowels, long vowels, doubled letters and how
+ * to write letters English lacks: ALA-LC writes "al-raḥmān", chat spelling
+ * "ar-ra7maan" and common usage "rahman". Both sides are therefore reduced
+ * to a consonant skeleton - vowels, ʿayn and hamza dropped, similar letters
+ * merged, doubled letters collapsed - so that all of these meet.
+ */
+
+import { NgramIndex } from './ngram-index';
+import { calculateSimilarity } from './normalizer';
+import type { QuranVerse } from './types';
+
+/**
+ * Arabic letters and the skeleton letter each maps to. Vowel letters, ʿayn,
+ * hamza and tāʾ marbūṭa map to nothing; unlisted characters (diacritics,
+ * Quranic marks) are skipped.
+ *
+ * Skeleton letters that differ from the usual romanization: `x` is خ (kh),
+ * `c` is ش (sh), `g` is غ (gh) and `v` is ث and ذ (th, dh).
+ */
+const ARABIC_SKELETON: Record<string, string> = {
+  '\u0628': 'b', // ب
+  '\u062A': 't', // ت
+  '\u062B': 'v', // ث
+  '\u062C': 'j', // ج
+  '\u062D': 'h', // ح
+  '\u062E': 'x', // خ
+  '\u062F': 'd', // د
+  '\u0630': 'v', // ذ
+  '\u0631': 'r', // ر
+  '\u0632': 'z', // ز
+  '\u0633': 's', // س
+  '\u0634': 'c', // ش
+  '\u0635': 's', // ص
+  '\u0636': 'd', // ض
+  '\u0637': 't', // ط
+  '\u0638': 'z', // ظ
+  '\u063A': 'g', // غ
+  '\u0641': 'f', // ف
+  '\u0642': 'q', // ق
+  '\u0643': 'k', // ك
+  '\u06A9': 'k', // ک
+  '\u0644': 'l', // ل
+  '\u0645': 'm', // م
+  '\u0646': 'n', // ن
+  '\u0647': 'h', // ه
+};
+
+// Letters the lam of the article assimilates to: al-raḥmān is read ar-raḥmān
+const SUN_LETTERS = new Set([
+  // ت ث د ذ ر ز س ش ص ض ط ظ ل ن
+  '\u062A', '\u062B', '\u062F', '\u0630', '\u0631', '\u0632', '\u0633',
+  '\u0634', '\u0635', '\u0636', '\u0637', '\u0638', '\u0644', '\u0646',
+]);
+
+const ALIF = '\u0627';
+const ALIF_WASLA = '\u0671';
+const LAM = '\u0644';
+// One-letter prefixes that can come before the article (wa-, fa-, bi-, ka-)
+const ARTICLE_PREFIXES = new Set(['\u0648', '\u0641', '\u0628', '\u0643']);
+
+function isArabicLetter(char: string): boolean {
+  return /[\u0621-\u064A\u0671-\u06D3]/.test(char);
+}
+
+/**
+ * Reduce Arabic text to its transliteration skeleton
+ *
+ * @example
+ * ```ts
+ * transliterationKey('بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ') // returns "bsmlhrhmnrhm"
+ * ```
+ */
+export function transliterationKey(arabic: string): string {
+  const letters = Array.from(arabic.normalize('NFKC')).filter(
+    (char) => isArabicLetter(char) || /\s/.test(char)
+  );
+  let key = '';
+
+  for (let i = 0; i < letters.length; i++) {
+    const char = letters[i];
+    if (char === LAM && isArticle(letters, i) && SUN_LETTERS.has(letters[i + 1])) {
+      continue;
+    }
+    key += ARABIC_SKELETON[char] ?? '';
+  }
+
+  return collapseRepeats(key);
+}
+
+/**
+ * Whether the lam at `index` belongs to the definite article
+ */
+function isArticle(letters: string[], index: number): boolean {
+  const before = letters[index - 1];
+  if (before === ALIF_WASLA) return true;
+  if (before !== ALIF) return false;
+
+  // A plain alif starts the article at the start of a word or after a prefix
+  const start = letters[index - 2];
+  return (
+    start === undefined ||
+    /\s/.test(start) ||
+    (ARTICLE_PREFIXES.has(start) && (index < 3 || /\s/.test(letters[index - 3])))
+  );
+}
+
+/**
+ * Reduce transliterated text to the skeleton transliterationKey() gives
+ * for the Arabic
+ *
+ * Handles scholarly romanization (ALA-LC, DMG: "al-raḥmān", "ʿalayhim"),
+ * common English spelling ("Bismillahir rahmanir rahim") and chat spelling
+ * with digits for Arabic letters ("a7ad", "3alaykum").
+ *
+ * @example
+ * ```ts
+ * normalizeTransliteration('Bismillahir rahmanir rahim') // returns "bsmlhrhmnrhm"
+ * normalizeTransliteration('Bismi Allāhi al-raḥmāni al-raḥīmi') // returns "bsmlhrhmnrhm"
+ * ```
+ */
+export function normalizeTransliteration(text: string): string {
+  const key = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    // ʿayn and hamza, written as apostrophes or (in chat spelling) 3 and 2
+    .replace(/[ʿʾʼʻ'’‘`´23]/g, '')
+    // Other chat-spelling digits
+    .replace(/7/g, 'h')
+    .replace(/5/g, 'kh')
+    .replace(/9/g, 'q')
+    .replace(/6/g, 't')
+    // Letters Arabic lacks
+    .replace(/c(?!h)/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/v/g, 'f')
+    .replace(/p/g, 'b')
+    // A written-out article before a sun letter: "al-rahman" is read "ar-rahman"
+    .replace(/\b[ae]l[-\s]+(?=[tdrzsn]|sh)/g, '')
+    .replace(/g(?!h)/g, 'j')
+    .replace(/kh/g, 'x')
+    .replace(/gh/g, 'g')
+    .replace(/[sc]h/g, 'c')
+    .replace(/[td]h/g, 'v')
+    .replace(/zh/g, 'z')
+    // Vowels, and waw and ya, which are as often vowels as consonants
+    .replace(/[^bcdfghjklmnqrstvxz]/g, '');
+
+  return collapseRepeats(key);
+}
+
+function collapseRepeats(key: string): string {
+  return key.replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * A verse matching a transliteration
+ */
+export interface TransliterationCandidate {
+  verseId: number;
+  /** Similarity of the skeletons (0-1) */
+  similarity: number;
+}
+
+// Skeletons this short only count when they match exactly
+const MIN_FUZZY_KEY_LENGTH = 10;
+
+function isMatch(key: string, similarity: number, minSimilarity: number): boolean {
+  return similarity === 1 || (key.length >= MIN_FUZZY_KEY_LENGTH && similarity >= minSimilarity);
+}
+
+export class TransliterationIndex {
+  private keysById: Map<number, string>;
+  private idsByKey: Map<string, number[]>;
+  private ids: number[];
+  private ngramIndex: NgramIndex;
+
+  constructor(verses: QuranVerse[]) {
+    this.keysById = new Map();
+    this.idsByKey = new Map();
+    this.ids = [];
+    const keys: string[] = [];
+
+    for (const verse of verses) {
+      const key = transliterationKey(verse.text);
+      this.keysById.set(verse.id, key);
+      const ids = this.idsByKey.get(key);
+      if (ids) {
+        ids.push(verse.id);
+      } else {
+        this.idsByKey.set(key, [verse.id]);
+      }
+      this.ids.push(verse.id);
+      keys.push(key);
+    }
+
+    this.ngramIndex = new NgramIndex(keys);
+  }
+
+  /**
+   * Compare a skeleton with one verse's skeleton
+   *
+   * @param key - Skeleton of the quote, from normalizeTransliteration()
+   * @param minSimilarity - Lowest similarity to accept for longer skeletons
+   */
+  compare(
+    key: string,
+    verseId: number,
+    minSimilarity: number
+  ): { similarity: number; isMatch: boolean } {
+    const verseKey = this.keysById.get(verseId);
+    const similarity = verseKey !== undefined ? calculateSimilarity(key, verseKey) : 0;
+    return { similarity, isMatch: isMatch(key, similarity, minSimilarity) };
+  }
+
+  /**
+   * Find the verse whose skeleton best matches a quote's
+   *
+   * Short skeletons must match exactly; identical skeletons resolve to the
+   * first verse in mushaf order.
+   *
+   * @param key - Skeleton of the quote, from normalizeTransliteration()
+   * @param minSimilarity - Lowest similarity to accept for longer skeletons
+   */
+  best(key: string, minSimilarity: number): TransliterationCandidate | undefined {
+    const exact = this.idsByKey.get(key);
+    if (exact) return { verseId: exact[0], similarity: 1 };
+    if (key.length < MIN_FUZZY_KEY_LENGTH) return undefined;
+
+    let best: TransliterationCandidate | undefined;
+    for (const candidate of this.ngramIndex.search(key, 10)) {
+      const verseId = this.ids[candidate.index];
+      const { similarity, isMatch } = this.compare(key, verseId, minSimilarity);
+      if (isMatch && (!best || similarity > best.similarity)) {
+        best = { verseId, similarity };
+      }
+    }
+    return best;
+  }
+}
@@ -40,8 +40,23 @@ export interface QuranSurah {
 export type MatchType =
   | 'exact'      // Perfect character-by-character match with diacritics
   | 'normalized' // Match after removing diacritics
+  | 'partial'    // Input is a contiguous excerpt of a verse
   | 'none';      // No match found
 
+/**
+ * Location of a partial (sub-ayah) match inside its verse
+ */
+export interface PartialMatch {
+  /** Index of the first matched word in the verse (0-based) */
+  startWord: number;
+  /** Index after the last matched word (exclusive) */
+  endWord: number;
+  /** Total number of words in the verse */
+  verseWordCount: number;
+  /** The matched excerpt in Uthmani script */
+  text: string;
+}
+
 /**
  * Result of validating a potential Quran quote
  */
@@ -58,15 +73,175 @@ export interface ValidationResult {
   normalizedInput?: string;
   /** The expected normalized verse text (for comparison when invalid) */
   expectedNormalized?: string;
-  /** Character index where the mismatch starts (-1 if no mismatch or different lengths) */
+  /** Index in the input text, as passed in, where the mismatch starts (-1 if no mismatch) */
   mismatchIndex?: number;
-  /** Suggestions if multiple possible matches exist */
-  suggestions?: {
-    verse: QuranVerse;
-    reference: string;
-  }[];
+  /** Suggestions if multiple possible matches exist, or the closest verses when no match was found */
+  suggestions?: VerseSuggestion[];
   /** All matching riwayat, best match first (only present when multiple riwayat loaded) */
   riwayaMatches?: RiwayaMatch[];
+  /** Word offsets of the excerpt (only present when matchType is 'partial') */
+  partialMatch?: PartialMatch;
+  /** Per-verse results when the input spans several consecutive verses */
+  verseMatches?: ValidationResult[];
+  /** Translation of the matched verse(s) from the default translation pack, if one is registered */
+  translation?: VerseTranslation;
+  /** Full text of the matched verse(s), fully diacritized, in the configured script */
+  canonicalText?: string;
+  /** Letter-by-letter tashkeel comparison with the verse (only for 'normalized' matches of vowelled input) */
+  tashkeel?: TashkeelAnalysis;
+  /** Ayah-end markers written in the input, checked against the text before each (only when the input has markers) */
+  ayahMarkers?: AyahMarker[];
+}
+
+/**
+ * A verse suggested as a possible intended match
+ */
+export interface VerseSuggestion {
+  verse: QuranVerse;
+  reference: string;
+  /** Character similarity to the input, with easily confused letters weighted (0-1, only for closest-verse suggestions) */
+  similarity?: number;
+  /** Word insertions, deletions and substitutions between input and verse (only for closest-verse suggestions) */
+  wordEdits?: number;
+}
+
+/**
+ * Kind of word-level edit between a quote and its verse
+ */
+export type WordDiffOperation =
+  | 'equal'      // Same word (diacritics may differ)
+  | 'substitute' // A different word in place of the verse's word
+  | 'insert'     // Extra word in the quote that the verse doesn't have
+  | 'delete'     // Word of the verse missing from the quote
+  | 'transpose'; // Two adjacent words swapped
+
+/**
+ * A single aligned word operation, with character offsets into both texts.
+ * Ranges are [start, end); an empty side is a zero-width range at the
+ * point where the missing words would go.
+ */
+export interface WordDiff {
+  op: WordDiffOperation;
+  /** Word(s) as written in the quote (empty for 'delete') */
+  input: string;
+  /** Word(s) as written in the verse (empty for 'insert') */
+  expected: string;
+  /** Index of the first word in the quote */
+  inputWordIndex: number;
+  /** Index of the first word in the verse */
+  verseWordIndex: number;
+  /** Character offsets in the original quote */
+  inputStart: number;
+  inputEnd: number;
+  /** Character offsets in the Uthmani verse text */
+  verseStart: number;
+  verseEnd: number;
+  /** Whether a substituted word is a spelling variant or a different word (only for 'substitute') */
+  errorKind?: WordErrorKind;
+}
+
+/**
+ * Word-level comparison of a quote against the verse(s) it cites
+ */
+export interface VerseDiff {
+  /** Reference the quote was compared against */
+  reference: string;
+  /** Uthmani text of the verse(s); `verseStart`/`verseEnd` index into this */
+  verseText: string;
+  /** Aligned word operations in reading order */
+  operations: WordDiff[];
+  /** Number of operations that are not 'equal' */
+  editCount: number;
+}
+
+/**
+ * Where a pair of easily confused letters comes from
+ */
+export type ConfusionKind =
+  | 'orthographic' // Spelling variants: ة/ه, ى/ي, hamza seats, a dropped alif
+  | 'ocr'          // Letters told apart only by their dots
+  | 'keyboard';    // Neighbouring keys on the Arabic keyboard
+
+/**
+ * Cost of confusing two letters, in either direction. An empty `to` is the
+ * cost of inserting or dropping `from`.
+ */
+export interface Confusion {
+  from: string;
+  to: string;
+  /** Edit cost (0-1; an unlisted edit costs 1) */
+  cost: number;
+  kind: ConfusionKind;
+}
+
+/**
+ * How a substituted word relates to the verse's word
+ */
+export type WordErrorKind =
+  | 'orthographic-variant' // The same word, spelled differently
+  | 'different-word';      // Another word, or a typo of this one
+
+/**
+ * Kind of tashkeel difference between a quoted letter and the verse's
+ */
+export type TashkeelErrorType =
+  | 'missing-shadda' // The verse doubles the letter, the quote doesn't
+  | 'extra-shadda'   // The quote doubles a letter the verse doesn't
+  | 'missing-haraka' // No vowel where the verse has fatha, damma or kasra
+  | 'wrong-haraka'   // A different vowel, or a vowel in place of a sukun
+  | 'missing-sukun'  // No mark where the verse has a sukun
+  | 'tanween'        // Tanween missing, added or of the wrong kind
+  | 'dagger-alef';   // Dagger alif missing, added, or written as a full alif
+
+/**
+ * A letter whose tashkeel differs from the verse. Ranges are [start, end)
+ * and cover the letter with its marks; a letter one side lacks is a
+ * zero-width range where it would go.
+ */
+export interface TashkeelError {
+  type: TashkeelErrorType;
+  /** Letter and marks as written in the quote */
+  input: string;
+  /** Letter and marks as written in the verse */
+  expected: string;
+  /** Character offsets in the quote */
+  inputStart: number;
+  inputEnd: number;
+  /** Character offsets in the Uthmani verse text */
+  verseStart: number;
+  verseEnd: number;
+}
+
+/**
+ * Letter-by-letter tashkeel comparison of a quote with its verse
+ */
+export interface TashkeelAnalysis {
+  /** Differences in reading order; a letter can have more than one */
+  errors: TashkeelError[];
+  /** Letters of the verse whose tashkeel was compared */
+  checkedLetters: number;
+  /** Checked letters the quote vowelled exactly as the verse */
+  correctLetters: number;
+  /** correctLetters / checkedLetters (0-1; 1 when nothing was checked) */
+  accuracy: number;
+}
+
+/**
+ * An ayah-end marker written in a quote (﴿٣﴾, ۝ or a bare number), checked
+ * against the text it closes
+ */
+export interface AyahMarker {
+  /** The number on the marker (absent for a bare ۝) */
+  ayah?: number;
+  /** The verse the number names, in the surah of the quote */
+  impliedReference?: string;
+  /** The verse(s) the text before the marker actually is (absent if it matches none) */
+  actualReference?: string;
+  /** Whether the text before the marker ends at the ayah the marker names */
+  isCorrect: boolean;
+  /** Position of the marker in the text */
+  startIndex: number;
+  endIndex: number;
 }
 
 /**
@@ -88,6 +263,49 @@ export interface DetectionResult {
   }[];
 }
 
+/**
+ * A character range [start, end) within a text
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Options for full-text verse search
+ */
+export interface SearchOptions {
+  /** Maximum number of results (default: 10) */
+  limit?: number;
+  /** How bare terms combine when no OR is given (default: 'and') */
+  operator?: 'and' | 'or';
+  /** Treat the last term as a prefix, so a partly typed word still matches (default: true) */
+  prefix?: boolean;
+  /** Only return verses from these surahs */
+  surah?: number | number[];
+  /** Only return verses from these juz (Hafs boundaries) */
+  juz?: number | number[];
+  /** Only return verses from these riwayat (default: all loaded) */
+  riwaya?: RiwayaId | RiwayaId[];
+}
+
+/**
+ * A ranked search hit
+ */
+export interface SearchResult {
+  verse: QuranVerse;
+  /** Reference string like "2:255" */
+  reference: string;
+  /** Riwaya whose text matched */
+  riwaya: RiwayaId;
+  /** BM25 relevance score */
+  score: number;
+  /** Score relative to the best result (0-1) */
+  similarity: number;
+  /** Matched words as character spans in `verse.text` */
+  highlights: TextSpan[];
+}
+
 /**
  * Supported riwaya identifiers
  */
@@ -104,6 +322,21 @@ export interface RiwayaInfo {
   qariArabic: string;
 }
 
+/**
+ * A verse as stored in a riwaya data pack
+ */
+export interface RiwayaVerse {
+  id: number;
+  surah: number;
+  ayah: number;
+  text: string;
+}
+
+/**
+ * Loads the verse data for one riwaya
+ */
+export type RiwayaLoader = (riwaya: RiwayaId) => Promise<RiwayaVerse[]>;
+
 /**
  * A match from a specific riwaya
  */
@@ -124,6 +357,26 @@ export interface ValidatorOptions {
   minDetectionLength?: number;
   /** Which riwayat to load (default: ['hafs']) */
   riwayat?: RiwayaId[];
+  /** Minimum number of words for a partial (sub-ayah) match (default: 3) */
+  minPartialWords?: number;
+  /** Minimum similarity for a closest-verse suggestion on invalid input (default: 0.5) */
+  minSuggestionSimilarity?: number;
+  /** Letter confusions that weigh suggestion similarity and classify substituted words (default: DEFAULT_CONFUSIONS) */
+  confusions?: readonly Confusion[];
+  /** Preloaded verse data for riwayat other than Hafs (see QuranValidator.create for on-demand loading) */
+  riwayaData?: Partial<Record<RiwayaId, RiwayaVerse[]>>;
+  /** How riwaya packs are loaded by QuranValidator.create and addRiwaya (default: bundled packs) */
+  riwayaLoader?: RiwayaLoader;
+  /** Translation packs to register */
+  translations?: TranslationPack[];
+  /** Id of the translation attached to results (default: the first registered pack) */
+  translation?: string;
+  /** Minimum share of a translated quote's words found in a verse's translation to count as a match (default: 0.6) */
+  minTranslationSimilarity?: number;
+  /** Minimum similarity of a transliterated quote to a verse to count as a match (default: 0.85) */
+  minTransliterationSimilarity?: number;
+  /** Script of canonicalText in results: 'uthmani', 'imlaei' or 'preserve-input' (default: 'uthmani') */
+  script?: ScriptOption;
 }
 
 /**
@@ -151,5 +404,149 @@ export interface WordAnalysis {
   word: string;
   /** True if this word doesn't exist anywhere in the Quran */
   isFabricated: boolean;
+  /** Position of the word, with its diacritics, in the analyzed text */
+  startIndex: number;
+  /** End of the word in the analyzed text (exclusive) */
+  endIndex: number;
 }
 
+/**
+ * A verse or verse range parsed from a citation
+ */
+export interface QuranReference {
+  /** Surah number (1-114) */
+  surah: number;
+  /** First ayah */
+  startAyah: number;
+  /** Last ayah, when the citation is a range */
+  endAyah?: number;
+  /** True if the citation covers more than one ayah */
+  isRange: boolean;
+  /** Canonical "surah:ayah" or "surah:start-end" form */
+  reference: string;
+  /** The citation text this reference was parsed from */
+  source: string;
+}
+
+/**
+ * Why a citation could not be parsed
+ */
+export type ReferenceErrorCode =
+  | 'INVALID_FORMAT'
+  | 'UNKNOWN_SURAH'
+  | 'AYAH_OUT_OF_RANGE'
+  | 'INVALID_RANGE';
+
+/**
+ * Built-in citation styles for formatReference
+ *
+ * - `numeric`: "2:255"
+ * - `english`: "Al-Baqara 255"
+ * - `arabic`: "البقرة: ٢٥٥"
+ * - `academic`: "Q. 2:255"
+ */
+export type ReferenceStyle = 'numeric' | 'english' | 'arabic' | 'academic';
+
+/**
+ * Custom citation style: renders a parsed reference using its surah metadata
+ */
+export type ReferenceFormatter = (reference: QuranReference, surah: QuranSurah) => string;
+
+/**
+ * Script verse text is written in
+ *
+ * - `uthmani`: the script of the printed mushaf, as stored in the data ("ٱلرَّحْمَـٰنِ")
+ * - `imlaei`: modern standard spelling ("الرَّحْمَنِ")
+ */
+export type QuranScript = 'uthmani' | 'imlaei';
+
+/**
+ * Script for corrected text: a fixed script, or 'preserve-input' to use
+ * the script the quote was written in
+ */
+export type ScriptOption = QuranScript | 'preserve-input';
+
+/**
+ * A translation of the whole Quran (or part of it), in the local JSON format:
+ *
+ * ```json
+ * {
+ *   "id": "sahih-international",
+ *   "name": "Saheeh International",
+ *   "language": "en",
+ *   "verses": { "1": "In the name of Allah, the Entirely Merciful, ...", "2": "..." }
+ * }
+ * ```
+ */
+export interface TranslationPack {
+  /** Unique id used to look the translation up */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Language code (e.g., "en", "ur") */
+  language: string;
+  /** Translated text keyed by verse id (QuranVerse.id, 1-6236) */
+  verses: Record<string, string>;
+}
+
+/**
+ * Summary of a registered translation pack
+ */
+export type TranslationInfo = Omit<TranslationPack, 'verses'>;
+
+/**
+ * Translated text of a verse or verse range
+ */
+export interface VerseTranslation {
+  /** Id of the translation pack */
+  translationId: string;
+  /** Language code of the translation */
+  language: string;
+  /** Translated text (verses of a range are joined with a space) */
+  text: string;
+}
+
+/**
+ * Outcome of checking a translated quote against its cited verse
+ *
+ * - `matched`: the quote matches a known translation of the cited verse
+ * - `wrong-reference`: the quote matches a different verse
+ * - `unmatched`: the quote matches no known translation (likely invented)
+ * - `unavailable`: the reference is invalid or no pack translates the verse
+ */
+export type TranslationMatchStatus = 'matched' | 'wrong-reference' | 'unmatched' | 'unavailable';
+
+/**
+ * Result of validating a translated quote against a reference
+ */
+export interface TranslationValidation {
+  /** True if the quote matches a known translation of the cited verse */
+  isValid: boolean;
+  status: TranslationMatchStatus;
+  /** The cited reference, in canonical form when it could be parsed */
+  reference: string;
+  /** Share of the quote's content words found in the cited verse's translation (0-1) */
+  similarity: number;
+  /** Translation of the cited verse from the best matching pack */
+  expected?: VerseTranslation;
+  /** The verse the quote actually matches (only when status is 'wrong-reference') */
+  actualReference?: string;
+  /** Similarity to the actual verse's translation (only when status is 'wrong-reference') */
+  actualSimilarity?: number;
+}
+
+/**
+ * Result of matching a transliterated (Latin-script) quote to a verse
+ */
+export interface TransliterationValidation {
+  /** True if the quote matches the cited verse, or any verse when none was cited */
+  isValid: boolean;
+  /** The matched verse, or the cited one when it doesn't match (e.g., "112:1") */
+  reference?: string;
+  /** Similarity of the quote's consonant skeleton to the verse's (0-1) */
+  similarity: number;
+  /** The verse, with its canonical Arabic text */
+  matchedVerse?: QuranVerse;
+  /** The quote's consonant skeleton, for debugging */
+  normalizedInput: string;
+}
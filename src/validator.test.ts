@@ -1,6 +1,19 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll } from 'vitest';
 import { QuranValidator, createValidator } from './validator';
-import { normalizeArabic, removeDiacritics, containsArabic } from './normalizer';
+import { bundledRiwayaLoader, createFetchRiwayaLoader } from './riwaya-loader';
+import {
+  normalizeArabic,
+  removeDiacritics,
+  containsArabic,
+  wordEditDistance,
+  editDistance,
+  calculateSimilarity,
+  calculateWordSimilarity,
+  normalizeWithMap,
+  toOriginalSpan,
+  findDifferences,
+  type NormalizeOptions,
+} from './normalizer';
 
 describe('QuranValidator', () => {
   const validator = new QuranValidator();
@@ -205,6 +218,81 @@ describe('QuranValidator', () => {
     it('should return empty array for whitespace-only query', () => {
       expect(validator.search('   ')).toEqual([]);
     });
+
+    it('should match words that are not adjacent', () => {
+      expect(validator.search('قل أحد').some((r) => r.reference === '112:1')).toBe(true);
+    });
+
+    it('should require every word by default', () => {
+      // No single verse contains both words
+      expect(validator.search('الصمد قل')).toEqual([]);
+      expect(validator.search('الصمد قل', { operator: 'or' }).length).toBeGreaterThan(0);
+    });
+
+    it('should match written hamza-less spellings', () => {
+      expect(validator.search('احد الصمد', { operator: 'or' }).some((r) => r.reference === '112:1')).toBe(true);
+    });
+
+    it('should rank verses with more matching words first', () => {
+      const results = validator.search('الله الرحمان الرحيم بسم');
+
+      expect(results[0].reference).toBe('1:1');
+      expect(results[0].similarity).toBe(1);
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
+      }
+    });
+
+    it('should support OR between alternatives', () => {
+      const results = validator.search('الصمد OR الفلق', 10);
+      const refs = results.map((r) => r.reference);
+
+      expect(refs).toContain('112:2');
+      expect(refs).toContain('113:1');
+    });
+
+    it('should require adjacent words for phrase queries', () => {
+      const phrase = validator.search('"رب العالمين"', 50);
+      const terms = validator.search('رب العالمين', 50);
+
+      expect(phrase.length).toBeGreaterThan(0);
+      expect(phrase.length).toBeLessThanOrEqual(terms.length);
+      expect(phrase.some((r) => r.reference === '1:2')).toBe(true);
+    });
+
+    it('should filter by surah and juz', () => {
+      const bySurah = validator.search('الله', { surah: 112, limit: 50 });
+      expect(bySurah.length).toBeGreaterThan(0);
+      expect(bySurah.every((r) => r.verse.surah === 112)).toBe(true);
+
+      const byJuz = validator.search('الله', { juz: 30, limit: 50 });
+      expect(byJuz.length).toBeGreaterThan(0);
+      expect(byJuz.every((r) => r.verse.surah >= 78)).toBe(true);
+    });
+
+    it('should expand the last term as a prefix unless turned off', () => {
+      expect(validator.search('الفل').some((r) => r.reference === '113:1')).toBe(true);
+      expect(validator.search('الفل', { prefix: false })).toEqual([]);
+      expect(validator.search('"الفل"')).toEqual([]);
+    });
+
+    it('should return highlighted spans in the verse text', () => {
+      const [result] = validator.search('"الحمد لله"', { surah: 1 });
+      const span = result.highlights[0];
+
+      expect(result.reference).toBe('1:2');
+      expect(normalizeArabic(result.verse.text.slice(span.start, span.end))).toBe('الحمد لله');
+    });
+
+    it('should search and filter other loaded riwayat', async () => {
+      const multi = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
+      const results = multi.search('الحمد لله رب العالمين', { riwaya: 'warsh', limit: 3 });
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every((r) => r.riwaya === 'warsh')).toBe(true);
+      // Warsh does not count the basmala as 1:1
+      expect(results[0].reference).toBe('1:1');
+    });
   });
 
   describe('createValidator()', () => {
@@ -310,6 +398,83 @@ describe('normalizeArabic', () => {
   });
 });
 
+describe('normalizeWithMap', () => {
+  // NORMALIZE_STEPS repeats arabic-text-normalizer's steps, which normalizeArabic()
+  // calls directly, so a dependency update that changes a step fails here
+  it('should normalize the bundled corpus exactly like normalizeArabic', async () => {
+    const validator = new QuranValidator();
+    const hafs = validator
+      .getAllSurahs()
+      .flatMap((surah) => validator.getSurahVerses(surah.number).map((verse) => verse.text));
+    // A riwaya pack adds marks Hafs does not use, such as the small high dot in اِ۬
+    const warsh = (await bundledRiwayaLoader('warsh')).map((verse) => verse.text);
+    // Every Hafs verse with the options the validator uses, and a sample of
+    // both riwayat with each group of steps turned off
+    const checks: [string[], NormalizeOptions][] = [
+      [hafs, {}],
+      [hafs, { stripHamza: true }],
+      ...[
+        { diacritics: false },
+        { markers: false, smallLetters: false },
+        { verseNumbers: false, tatweel: false },
+        { punctuation: false, collapseWhitespace: false },
+      ].map((options): [string[], NormalizeOptions] => [
+        [...hafs, ...warsh].filter((_, i) => i % 10 === 0),
+        options,
+      ]),
+    ];
+
+    for (const [texts, options] of checks) {
+      const mismatches = texts.filter(
+        (text) => normalizeWithMap(text, options).text !== normalizeArabic(text, options)
+      );
+      expect(mismatches).toEqual([]);
+    }
+    const noisy = '  ﷲ \u200Fأَكْبَرُ، ﴿١﴾ ';
+    expect(normalizeWithMap(noisy).text).toBe(normalizeArabic(noisy));
+  });
+
+  it('should map each normalized character back to the original text', () => {
+    const text = 'قُلْ هُوَ ٱللَّهُ';
+    const normalized = normalizeWithMap(text);
+
+    expect(normalized.text).toBe('قل هو الله');
+    expect(normalized.map.length).toBe(normalized.text.length + 1);
+    // "هو" starts after "قُلْ "
+    expect(normalized.map[3]).toBe(5);
+    expect(text[normalized.map[6]]).toBe('ٱ');
+  });
+
+  it('should widen a span over the diacritics of its last letter', () => {
+    const text = 'قُلْ هُوَ ٱللَّهُ';
+    const normalized = normalizeWithMap(text);
+    const span = toOriginalSpan(normalized, 3, 5);
+
+    expect(text.slice(span.start, span.end)).toBe('هُوَ');
+  });
+
+  it('should map past leading whitespace and removed characters', () => {
+    const text = '  \u200Fبِسْمِ   ٱللَّهِ';
+    const normalized = normalizeWithMap(text);
+    const span = toOriginalSpan(normalized, 4, 8);
+
+    expect(normalized.text).toBe('بسم الله');
+    expect(normalized.map[0]).toBe(3);
+    expect(text.slice(span.start, span.end)).toBe('ٱللَّهِ');
+  });
+});
+
+describe('findDifferences', () => {
+  it('should locate differences in the original text when given a mapped input', () => {
+    const text = 'بِسْمِ ٱللَّهِ ٱلْكَرِيمِ';
+    const diffs = findDifferences(normalizeWithMap(text), 'بسم الله الرحيم');
+
+    expect(diffs[0].input).toBe('كر');
+    const span = diffs[0].span!;
+    expect(text.slice(span.start, span.end)).toBe('كَرِ');
+  });
+});
+
 describe('removeDiacritics', () => {
   it('should remove all diacritical marks', () => {
     const result = removeDiacritics('بِسْمِ اللَّهِ الرَّحْمَٰنِ الرَّحِيمِ');
@@ -331,6 +496,177 @@ describe('containsArabic', () => {
   });
 });
 
+describe('wordEditDistance', () => {
+  it('should count substituted, inserted and deleted words', () => {
+    expect(wordEditDistance('بسم الله الرحمن', 'بسم الله الرحيم')).toBe(1);
+    expect(wordEditDistance('بسم الله', 'بسم الله الرحيم')).toBe(1);
+    expect(wordEditDistance('بسم الله الرحيم', 'الله')).toBe(2);
+  });
+
+  it('should ignore extra whitespace', () => {
+    expect(wordEditDistance('  بسم   الله ', 'بسم الله')).toBe(0);
+  });
+});
+
+describe('editDistance', () => {
+  // The matrix implementation editDistance() replaced, as a reference
+  const matrixDistance = (a: ArrayLike<string>, b: ArrayLike<string>): number => {
+    const dp: number[][] = Array(a.length + 1)
+      .fill(null)
+      .map(() => Array(b.length + 1).fill(0));
+    for (let i = 0; i <= a.length; i++) dp[i][0] = i;
+    for (let j = 0; j <= b.length; j++) dp[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        dp[i][j] = Math.min(
+          dp[i - 1][j] + 1,
+          dp[i][j - 1] + 1,
+          dp[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+    }
+    return dp[a.length][b.length];
+  };
+  const validator = new QuranValidator();
+  const ayatKursi = normalizeArabic(validator.getVerse(2, 255)!.text);
+  const debtVerse = normalizeArabic(validator.getVerse(2, 282)!.text);
+
+  it('should match the matrix implementation on short and long texts', () => {
+    const pairs: [string, string][] = [
+      ['', 'بسم'],
+      ['الرحمن', 'الرحيم'],
+      ['قل هو الله احد', 'قل هو الله واحد'],
+      [ayatKursi, ayatKursi.replace('الحي', 'الحق')],
+      [ayatKursi, debtVerse],
+      [debtVerse.slice(0, 40), debtVerse],
+    ];
+    for (const [a, b] of pairs) {
+      expect(editDistance(a, b)).toBe(matrixDistance(a, b));
+      expect(editDistance(b, a)).toBe(matrixDistance(a, b));
+    }
+  });
+
+  it('should stop early past maxDistance', () => {
+    const distance = matrixDistance(ayatKursi, debtVerse);
+
+    expect(editDistance(ayatKursi, debtVerse, 10)).toBeGreaterThan(10);
+    expect(editDistance(ayatKursi, debtVerse, distance)).toBe(distance);
+    expect(wordEditDistance('بسم الله الرحمن الرحيم', 'قل هو الله احد', 1)).toBeGreaterThan(1);
+  });
+
+  it('should keep the calculateSimilarity() contract, at character and word level', () => {
+    expect(calculateSimilarity('الرحمن', 'الرحمن')).toBe(1);
+    expect(calculateSimilarity('الرحمن', '')).toBe(0);
+    expect(calculateSimilarity('الرحمن', 'الرحيم')).toBeCloseTo(1 - 2 / 6);
+    expect(calculateSimilarity('الرحمن', 'الرحيم', 0.9)).toBe(0);
+    expect(calculateWordSimilarity('قل هو الله واحد', 'قل هو الله احد')).toBe(0.75);
+    expect(calculateWordSimilarity('قل هو الله واحد', 'قل هو الله احد', 0.75)).toBe(0.75);
+    expect(calculateWordSimilarity('قل هو الله واحد', 'قل هو الله احد', 0.8)).toBe(0);
+  });
+
+  it('should agree with the matrix implementation under any limit', () => {
+    // Seeded, so a failure reproduces; the astral letter is two code units
+    let seed = 42;
+    const random = (below: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % below;
+    };
+    const alphabet = ['ا', 'ل', 'ر', 'ح', 'م', 'ن', ' ', '𝕬'];
+    const randomText = (length: number) =>
+      Array.from({ length }, () => alphabet[random(alphabet.length)]).join('');
+    const mutate = (text: string) => {
+      const chars = text.split('');
+      for (let edits = random(6); edits > 0; edits--) {
+        const at = random(chars.length + 1);
+        const kind = random(3);
+        if (kind === 0) chars.splice(at, 0, alphabet[random(alphabet.length)]);
+        else if (kind === 1) chars.splice(at, 1);
+        else chars[at] = alphabet[random(alphabet.length)];
+      }
+      return chars.join('');
+    };
+
+    const pairs: [string, string][] = [
+      ['', ''],
+      ['', '𝕬𝕭'],
+      ['𝕬𝕭𝕮', '𝕬𝕮'],
+      ['الرحمن', 'الرحيم'],
+    ];
+    // Lengths either side of the 32-row blocks of the bit-parallel path
+    for (const length of [1, 2, 3, 31, 32, 33, 64, 65, 100]) {
+      const text = randomText(length);
+      pairs.push([text, mutate(text)], [text, randomText(random(length + 2))]);
+    }
+
+    for (const [a, b] of pairs) {
+      const exact = matrixDistance(a, b);
+      expect(editDistance(a, b)).toBe(exact);
+      expect(editDistance(b, a)).toBe(exact);
+
+      // Every limit up to the longer length, so each side of 2 * limit + 1 >= m
+      for (let limit = 0; limit <= Math.max(a.length, b.length); limit++) {
+        const bounded = editDistance(a, b, limit);
+        if (exact <= limit) expect(bounded).toBe(exact);
+        else expect(bounded).toBeGreaterThan(limit);
+      }
+    }
+  });
+});
+
+describe('closest verse suggestions', () => {
+  const validator = new QuranValidator();
+
+  it('should suggest the intended verse for a one-word misquote', () => {
+    const result = validator.validate('قل هو الله واحد');
+
+    expect(result.isValid).toBe(false);
+    expect(result.matchType).toBe('none');
+    expect(result.suggestions?.[0].reference).toBe('112:1');
+    expect(result.suggestions?.[0].wordEdits).toBe(1);
+    expect(result.suggestions?.[0].similarity).toBeGreaterThan(0.8);
+  });
+
+  it('should find a misquote inside a long verse', () => {
+    const words = validator.getVerse(2, 282)!.text.split(' ');
+    words[10] = 'كلمة';
+
+    const result = validator.validate(words.join(' '));
+
+    expect(result.suggestions?.[0].reference).toBe('2:282');
+    expect(result.suggestions?.[0].wordEdits).toBe(1);
+  });
+
+  it('should not suggest verses for unrelated Arabic text', () => {
+    const result = validator.validate('مرحبا كيف حالك اليوم');
+
+    expect(result.suggestions).toBeUndefined();
+  });
+
+  it('should rank findClosestVerses() by similarity', () => {
+    const closest = validator.findClosestVerses('الحمد لله رب العالمين الرحمن', 5);
+
+    expect(closest[0].reference).toBe('1:2');
+    for (let i = 1; i < closest.length; i++) {
+      expect(closest[i - 1].similarity!).toBeGreaterThanOrEqual(closest[i].similarity!);
+    }
+  });
+
+  it('should rank spelling variants above real misquotes', () => {
+    const variant = validator.validate('وأقيموا الصلاه وآتوا الزكاه واركعوا مع الراكعين');
+    const misquote = validator.validate('وأقيموا الصلاح وآتوا الزكام واركعوا مع الراكعين');
+
+    expect(variant.suggestions?.[0].reference).toBe('2:43');
+    expect(misquote.suggestions?.[0].reference).toBe('2:43');
+    expect(variant.suggestions![0].similarity!).toBeGreaterThan(misquote.suggestions![0].similarity!);
+  });
+
+  it('should respect minSuggestionSimilarity', () => {
+    const strict = new QuranValidator({ minSuggestionSimilarity: 0.95 });
+
+    expect(strict.validate('قل هو الله واحد').suggestions).toBeUndefined();
+  });
+});
+
 describe('diff highlighting for invalid text', () => {
   const validator = new QuranValidator();
 
@@ -367,6 +703,195 @@ describe('diff highlighting for invalid text', () => {
     // The mismatch starts at "الكريم" where it should be "الرحمان"
     expect(result.mismatchIndex).toBeGreaterThan(0);
   });
+
+  it('should report the mismatch position in the text as written', () => {
+    const text = 'بِسْمِ ٱللَّهِ ٱلْكَرِيمِ ٱلرَّحِيمِ';
+    const result = validator.validateAgainst(text, '1:1');
+
+    expect(result.isValid).toBe(false);
+    expect(result.mismatchIndex).toBe(text.indexOf('كَرِيمِ'));
+  });
+
+  it('should accept named and prefixed references', () => {
+    const verse = validator.getVerse(112, 1)!;
+
+    for (const reference of ['Al-Ikhlas 1', 'Q 112:1', 'الإخلاص: ١']) {
+      const result = validator.validateAgainst(verse.text, reference);
+      expect(result.isValid).toBe(true);
+      expect(result.reference).toBe('112:1');
+    }
+  });
+});
+
+describe('diffAgainstVerse()', () => {
+  const validator = new QuranValidator();
+
+  it('should report a substituted word with offsets in both texts', () => {
+    const input = 'قل هو الله واحد';
+    const diff = validator.diffAgainstVerse(input, '112:1')!;
+
+    expect(diff.editCount).toBe(1);
+    const op = diff.operations[3];
+    expect(op.op).toBe('substitute');
+    expect(op.inputWordIndex).toBe(3);
+    expect(input.slice(op.inputStart, op.inputEnd)).toBe('واحد');
+    expect(diff.verseText.slice(op.verseStart, op.verseEnd)).toBe(op.expected);
+    expect(normalizeArabic(op.expected)).toBe('أحد');
+  });
+
+  it('should treat diacritic differences as equal words', () => {
+    const diff = validator.diffAgainstVerse('قل هو الله أحد', '112:1')!;
+
+    expect(diff.editCount).toBe(0);
+    expect(diff.operations.every((op) => op.op === 'equal')).toBe(true);
+  });
+
+  it('should report a missing word as a single delete', () => {
+    const diff = validator.diffAgainstVerse('قل الله أحد', '112:1')!;
+
+    expect(diff.editCount).toBe(1);
+    const op = diff.operations.find((o) => o.op === 'delete')!;
+    expect(op.verseWordIndex).toBe(1);
+    expect(op.input).toBe('');
+    expect(op.inputStart).toBe(op.inputEnd);
+    // Words after the gap still line up
+    expect(diff.operations.filter((o) => o.op === 'equal').length).toBe(3);
+  });
+
+  it('should report an extra word as an insert', () => {
+    const input = 'قل هو الله الواحد أحد';
+    const diff = validator.diffAgainstVerse(input, '112:1')!;
+
+    expect(diff.editCount).toBe(1);
+    const op = diff.operations.find((o) => o.op === 'insert')!;
+    expect(input.slice(op.inputStart, op.inputEnd)).toBe('الواحد');
+    expect(op.verseStart).toBe(op.verseEnd);
+  });
+
+  it('should tell spelling variants from different words', () => {
+    const diff = validator.diffAgainstVerse('وأقيموا الصلاه وآتوا الزكوة واركعوا من الراكعين', '2:43')!;
+    const substitutions = diff.operations.filter((o) => o.op === 'substitute');
+
+    expect(substitutions.map((o) => [o.input, o.errorKind])).toEqual([
+      ['الصلاه', 'orthographic-variant'],
+      ['من', 'different-word'],
+    ]);
+    expect(diff.operations.every((o) => o.op === 'substitute' || !o.errorKind)).toBe(true);
+  });
+
+  it('should report swapped adjacent words as a transpose', () => {
+    const diff = validator.diffAgainstVerse('الحمد لله العالمين رب', '1:2')!;
+
+    expect(diff.editCount).toBe(1);
+    expect(diff.operations[2].op).toBe('transpose');
+    expect(diff.operations[2].input).toBe('العالمين رب');
+  });
+
+  it('should diff against a verse range', () => {
+    const diff = validator.diffAgainstVerse('قل هو الله أحد الله الصمد', '112:1-2')!;
+
+    expect(diff.editCount).toBe(0);
+    expect(diff.verseText).toBe(validator.getVerseRange(112, 1, 2)!.text);
+  });
+
+  it('should return undefined for a reference that does not exist', () => {
+    expect(validator.diffAgainstVerse('قل هو الله أحد', '999:1')).toBeUndefined();
+    expect(validator.diffAgainstVerse('قل هو الله أحد', 'invalid')).toBeUndefined();
+  });
+});
+
+describe('analyzeTashkeel()', () => {
+  const validator = new QuranValidator();
+
+  it('should compare the tashkeel of a quote with the cited verse', () => {
+    const analysis = validator.analyzeTashkeel('قُلْ هُوَ اللَهُ أَحَدٌ', '112:1')!;
+
+    expect(analysis.errors.map((e) => e.type)).toEqual(['missing-shadda']);
+    expect(analysis.accuracy).toBeCloseTo(8 / 9);
+  });
+
+  it('should return undefined for a reference that does not exist', () => {
+    expect(validator.analyzeTashkeel('قُلْ هُوَ', '112:9')).toBeUndefined();
+    expect(validator.analyzeTashkeel('قُلْ هُوَ', 'nonsense')).toBeUndefined();
+  });
+
+  it('should attach tashkeel diagnostics to normalized matches of vowelled text', () => {
+    const result = validator.validate('قُلْ هُوَ اللَّهُ أَحدٌ');
+
+    expect(result.matchType).toBe('normalized');
+    expect(result.tashkeel!.errors.map((e) => e.type)).toEqual(['missing-haraka']);
+  });
+
+  it('should not attach tashkeel diagnostics to exact matches or bare text', () => {
+    expect(validator.validate(validator.getVerse(112, 1)!.text).tashkeel).toBeUndefined();
+    expect(validator.validate('قل هو الله أحد').tashkeel).toBeUndefined();
+  });
+});
+
+describe('checkAyahMarkers()', () => {
+  const validator = new QuranValidator();
+  const verse = (surah: number, ayah: number) => validator.getVerse(surah, ayah)!.text;
+
+  it('should read each marker as the end of the verse it numbers', () => {
+    const markers = validator.checkAyahMarkers('قل هو الله أحد ﴿١﴾ الله الصمد ﴿٢﴾');
+
+    expect(markers.map((m) => [m.impliedReference, m.actualReference, m.isCorrect])).toEqual([
+      ['112:1', '112:1', true],
+      ['112:2', '112:2', true],
+    ]);
+    expect(markers[0]).toMatchObject({ ayah: 1, startIndex: 15, endIndex: 18 });
+  });
+
+  it('should catch a wrong ayah number inside the quote', () => {
+    const [, wrong] = validator.checkAyahMarkers(`${verse(1, 1)} ﴿١﴾ ${verse(1, 2)} ﴿٣﴾`);
+
+    expect(wrong).toMatchObject({
+      ayah: 3,
+      impliedReference: '1:3',
+      actualReference: '1:2',
+      isCorrect: false,
+    });
+  });
+
+  it('should take the surah from the reference when one is given', () => {
+    const [marker] = validator.checkAyahMarkers('الله الصمد ﴿٣﴾', '2:255');
+
+    expect(marker.impliedReference).toBe('2:3');
+    expect(marker.actualReference).toBe('112:2');
+    expect(marker.isCorrect).toBe(false);
+  });
+
+  it('should accept modern spellings of the verse before a marker', () => {
+    const markers = validator.checkAyahMarkers('بسم الله الرحمن الرحيم ﴿١﴾ الحمد لله رب العالمين ٢');
+    expect(markers.map((m) => m.isCorrect)).toEqual([true, true]);
+  });
+
+  it('should reject a marker in the middle of a verse', () => {
+    const [marker] = validator.checkAyahMarkers('الحمد لله ﴿٢﴾ رب العالمين');
+    expect(marker.isCorrect).toBe(false);
+  });
+
+  it('should check unnumbered markers against verse ends', () => {
+    const markers = validator.checkAyahMarkers(`${verse(112, 1)} ۝ ${verse(112, 2)} ۝`);
+
+    expect(markers.map((m) => [m.ayah, m.actualReference, m.isCorrect])).toEqual([
+      [undefined, '112:1', true],
+      [undefined, '112:2', true],
+    ]);
+  });
+
+  it('should attach markers to validation results of text that has them', () => {
+    const result = validator.validate(`${verse(1, 1)} ﴿١﴾ ${verse(1, 2)} ﴿٣﴾`);
+
+    expect(result.isValid).toBe(true);
+    expect(result.reference).toBe('1:1-2');
+    expect(result.ayahMarkers!.map((m) => m.isCorrect)).toEqual([true, false]);
+
+    const against = validator.validateAgainst(`${verse(112, 1)} ﴿٢﴾`, '112:1');
+    expect(against.ayahMarkers![0]).toMatchObject({ impliedReference: '112:2', isCorrect: false });
+
+    expect(validator.validate(verse(112, 1)).ayahMarkers).toBeUndefined();
+  });
 });
 
 describe('analyzeFabrication()', () => {
@@ -408,6 +933,17 @@ describe('analyzeFabrication()', () => {
     expect(result.stats.fabricatedWords).toBe(1);
   });
 
+  it('should give each word its position in the analyzed text', () => {
+    const text = ' بِسْمِ  ٱللَّهِ ٱلْفُلَانِ';
+    const result = validator.analyzeFabrication(text);
+
+    expect(result.words.map((w) => text.slice(w.startIndex, w.endIndex))).toEqual([
+      'بِسْمِ',
+      'ٱللَّهِ',
+      'ٱلْفُلَانِ',
+    ]);
+  });
+
   it('should handle empty input', () => {
     const result = validator.analyzeFabrication('');
 
@@ -586,6 +1122,256 @@ describe('Uthmani spacing and spelling variants', () => {
   });
 });
 
+describe('partial (sub-ayah) matching', () => {
+  const validator = new QuranValidator();
+
+  it('should report an excerpt of Ayat al-Kursi as a partial match', () => {
+    const result = validator.validate('لَا تَأْخُذُهُۥ سِنَةٌۭ وَلَا نَوْمٌۭ');
+
+    expect(result.isValid).toBe(false);
+    expect(result.matchType).toBe('partial');
+    expect(result.reference).toBe('2:255');
+    expect(result.matchedVerse?.ayah).toBe(255);
+    expect(result.partialMatch).toMatchObject({ startWord: 7, endWord: 12 });
+  });
+
+  it('should return the Uthmani excerpt for the matched words', () => {
+    const result = validator.validate('قل هو الله');
+
+    expect(result.matchType).toBe('partial');
+    expect(result.reference).toBe('112:1');
+    expect(result.partialMatch?.startWord).toBe(0);
+    expect(result.partialMatch?.endWord).toBe(3);
+    expect(result.partialMatch?.verseWordCount).toBe(4);
+    const verse = validator.getVerse(112, 1)!;
+    expect(verse.text.startsWith(result.partialMatch!.text)).toBe(true);
+    expect(result.partialMatch!.text.split(' ').length).toBe(3);
+  });
+
+  it('should keep pause marks that fall inside the excerpt', () => {
+    const verse = validator.getVerse(2, 255)!;
+    const result = validator.validate('ٱلْقَيُّومُ لَا تَأْخُذُهُۥ');
+
+    expect(result.matchType).toBe('partial');
+    expect(result.partialMatch?.text).toContain('ۚ');
+    expect(verse.text).toContain(result.partialMatch!.text);
+  });
+
+  it('should not report fabricated text as partial', () => {
+    const result = validator.validate('هذا نص مزيف لا يوجد في القرآن');
+
+    expect(result.matchType).toBe('none');
+    expect(result.partialMatch).toBeUndefined();
+  });
+
+  it('should ignore excerpts shorter than minPartialWords', () => {
+    const strict = new QuranValidator({ minPartialWords: 4 });
+
+    expect(strict.validate('قل هو الله').matchType).toBe('none');
+  });
+
+  it('should still prefer a whole-verse match over a partial one', () => {
+    const result = validator.validate('قُلْ هُوَ ٱللَّهُ أَحَدٌ');
+
+    expect(result.isValid).toBe(true);
+    expect(result.matchType).not.toBe('partial');
+  });
+
+  it('should find partial matches when multiple riwayat are loaded', async () => {
+    const multi = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
+    const result = multi.validate('لَا تَأْخُذُهُۥ سِنَةٌۭ وَلَا نَوْمٌۭ');
+
+    expect(result.matchType).toBe('partial');
+    expect(result.reference).toBe('2:255');
+  });
+});
+
+describe('consecutive verse (range) detection', () => {
+  const validator = new QuranValidator();
+
+  it('should detect all of Al-Ikhlas quoted without a reference', () => {
+    const text = validator.getVerseRange(112, 1, 4)!.text;
+    const result = validator.validate(text);
+
+    expect(result.isValid).toBe(true);
+    expect(result.matchType).toBe('exact');
+    expect(result.reference).toBe('112:1-4');
+    expect(result.matchedVerse?.ayah).toBe(1);
+    expect(result.verseMatches?.map((m) => m.reference)).toEqual([
+      '112:1',
+      '112:2',
+      '112:3',
+      '112:4',
+    ]);
+  });
+
+  it('should detect a range written in simple script', () => {
+    const result = validator.validate('قل هو الله أحد الله الصمد لم يلد ولم يولد');
+
+    expect(result.isValid).toBe(true);
+    expect(result.matchType).toBe('normalized');
+    expect(result.reference).toBe('112:1-3');
+    expect(result.verseMatches?.every((m) => m.matchType === 'normalized')).toBe(true);
+  });
+
+  it('should report per-verse match types', () => {
+    const text = `قل هو الله أحد ${validator.getVerse(112, 2)!.text}`;
+    const result = validator.validate(text);
+
+    expect(result.matchType).toBe('normalized');
+    expect(result.verseMatches?.[0].matchType).toBe('normalized');
+    expect(result.verseMatches?.[1].matchType).toBe('exact');
+  });
+
+  it('should not join verses from two surahs into one range', () => {
+    const text = `${validator.getVerse(113, 5)!.text} ${validator.getVerse(114, 1)!.text}`;
+    const result = validator.validate(text);
+
+    expect(result.isValid).toBe(false);
+    expect(result.verseMatches).toBeUndefined();
+  });
+
+  it('should not accept verses quoted out of order', () => {
+    const text = `${validator.getVerse(112, 2)!.text} ${validator.getVerse(112, 1)!.text}`;
+    const result = validator.validate(text);
+
+    expect(result.isValid).toBe(false);
+    expect(result.verseMatches).toBeUndefined();
+  });
+
+  it('should detect ranges in detectAndValidate()', () => {
+    const range = validator.getVerseRange(112, 1, 4)!.text;
+    const result = validator.detectAndValidate(`The surah reads ${range} in full.`);
+
+    expect(result.detected).toBe(true);
+    expect(result.segments[0].validation?.reference).toBe('112:1-4');
+  });
+});
+
+describe('translation packs', () => {
+  const base = new QuranValidator();
+  const ikhlas = base.getSurahVerses(112);
+  const english = {
+    id: 'test-en',
+    name: 'Test English',
+    language: 'en',
+    verses: {
+      [base.getVerse(1, 1)!.id]: 'In the name of Allah, the Most Gracious, the Most Merciful.',
+      [ikhlas[0].id]: 'Say, He is Allah, the One.',
+      [ikhlas[1].id]: 'Allah, the Eternal Refuge.',
+    },
+  };
+  const urdu = {
+    id: 'test-ur',
+    name: 'Test Urdu',
+    language: 'ur',
+    verses: { [ikhlas[0].id]: 'کہو، وہ اللہ ایک ہے' },
+  };
+
+  it('should return nothing when no pack is registered', () => {
+    expect(base.getTranslation(112, 1, 'test-en')).toBeUndefined();
+    expect(base.validate(ikhlas[0].text).translation).toBeUndefined();
+  });
+
+  it('should look up a verse translation by pack id', () => {
+    const validator = new QuranValidator({ translations: [english, urdu] });
+
+    expect(validator.getTranslation(112, 1, 'test-ur')).toEqual({
+      translationId: 'test-ur',
+      language: 'ur',
+      text: 'کہو، وہ اللہ ایک ہے',
+    });
+    expect(validator.getTranslation(112, 1)?.translationId).toBe('test-en');
+    expect(validator.getTranslation(112, 3, 'test-en')).toBeUndefined();
+  });
+
+  it('should register packs after construction', () => {
+    const validator = new QuranValidator();
+    validator.registerTranslation(urdu);
+
+    expect(validator.getTranslations()).toEqual([
+      { id: 'test-ur', name: 'Test Urdu', language: 'ur' },
+    ]);
+    expect(validator.getTranslation(112, 1)?.language).toBe('ur');
+  });
+
+  it('should reject malformed packs', () => {
+    const validator = new QuranValidator();
+
+    expect(() =>
+      validator.registerTranslation({ id: '', name: 'x', language: 'en', verses: {} })
+    ).toThrow('Translation pack must have an id');
+  });
+
+  it('should attach the default translation to validation results', () => {
+    const validator = new QuranValidator({ translations: [english, urdu], translation: 'test-ur' });
+    const result = validator.validate(ikhlas[0].text);
+
+    expect(result.translation?.text).toBe('کہو، وہ اللہ ایک ہے');
+  });
+
+  it('should join translations of verse ranges', () => {
+    const validator = new QuranValidator({ translations: [english] });
+    const expected = 'Say, He is Allah, the One. Allah, the Eternal Refuge.';
+
+    const detected = validator.validate(`${ikhlas[0].text} ${ikhlas[1].text}`);
+    expect(detected.reference).toBe('112:1-2');
+    expect(detected.translation?.text).toBe(expected);
+    expect(detected.verseMatches?.[1].translation?.text).toBe('Allah, the Eternal Refuge.');
+
+    const cited = validator.validateAgainst(`${ikhlas[0].text} ${ikhlas[1].text}`, '112:1-2');
+    expect(cited.translation?.text).toBe(expected);
+    expect(validator.getReferenceTranslation('Al-Ikhlas 1-2')?.text).toBe(expected);
+  });
+
+  describe('validateTranslation()', () => {
+    const validator = new QuranValidator({ translations: [english] });
+
+    it('should match a translated quote against the cited verse', () => {
+      const result = validator.validateTranslation('Allah, the Eternal Refuge', 'Al-Ikhlas 2');
+
+      expect(result.isValid).toBe(true);
+      expect(result.status).toBe('matched');
+      expect(result.reference).toBe('112:2');
+      expect(result.similarity).toBe(1);
+      expect(result.expected?.text).toBe('Allah, the Eternal Refuge.');
+    });
+
+    it('should match a range against the joined translations', () => {
+      const result = validator.validateTranslation(
+        'He is Allah, the One. Allah, the Eternal Refuge.',
+        '112:1-2'
+      );
+
+      expect(result.status).toBe('matched');
+    });
+
+    it('should identify the verse a misattributed quote comes from', () => {
+      const result = validator.validateTranslation('Allah, the Eternal Refuge', '112:1');
+
+      expect(result.isValid).toBe(false);
+      expect(result.status).toBe('wrong-reference');
+      expect(result.actualReference).toBe('112:2');
+    });
+
+    it('should report quotes that match no translation', () => {
+      const result = validator.validateTranslation('The mountains will sing at dawn', '112:1');
+
+      expect(result.status).toBe('unmatched');
+      expect(result.similarity).toBeLessThan(0.6);
+    });
+
+    it('should report verses no pack translates as unavailable', () => {
+      expect(validator.validateTranslation('Say, He is Allah', '2:255').status).toBe(
+        'unavailable'
+      );
+      expect(validator.validateTranslation('Say, He is Allah', '2:999').status).toBe(
+        'unavailable'
+      );
+    });
+  });
+});
+
 describe('Multi-Riwaya Support', () => {
   describe('backward compatibility', () => {
     it('should behave identically to current when no riwayat option is passed', () => {
@@ -611,7 +1397,11 @@ describe('Multi-Riwaya Support', () => {
   });
 
   describe('validate() with multiple riwayat', () => {
-    const multiValidator = new QuranValidator({ riwayat: ['hafs', 'warsh'] });
+    let multiValidator: QuranValidator;
+
+    beforeAll(async () => {
+      multiValidator = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
+    });
 
     it('should validate Warsh text when Warsh is loaded', () => {
       // Warsh 113:1 — different from Hafs 113:1
@@ -656,7 +1446,11 @@ describe('Multi-Riwaya Support', () => {
   });
 
   describe('validateAgainst() with multiple riwayat', () => {
-    const multiValidator = new QuranValidator({ riwayat: ['hafs', 'warsh'] });
+    let multiValidator: QuranValidator;
+
+    beforeAll(async () => {
+      multiValidator = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
+    });
 
     it('should report which riwaya matched when validating against a reference', () => {
       const hafsVerse = multiValidator.getVerse(1, 1);
@@ -669,8 +1463,8 @@ describe('Multi-Riwaya Support', () => {
   });
 
   describe('getLoadedRiwayat()', () => {
-    it('should return metadata for loaded riwayat', () => {
-      const validator = new QuranValidator({ riwayat: ['hafs', 'warsh'] });
+    it('should return metadata for loaded riwayat', async () => {
+      const validator = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
       const loaded = validator.getLoadedRiwayat();
 
       expect(loaded.length).toBe(2);
@@ -691,8 +1485,8 @@ describe('Multi-Riwaya Support', () => {
   });
 
   describe('getVerseRiwayat()', () => {
-    it('should return texts for a verse across all loaded riwayat', () => {
-      const validator = new QuranValidator({ riwayat: ['hafs', 'warsh'] });
+    it('should return texts for a verse across all loaded riwayat', async () => {
+      const validator = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
       const texts = validator.getVerseRiwayat(1, 1);
 
       expect(texts.length).toBe(2);
@@ -703,8 +1497,8 @@ describe('Multi-Riwaya Support', () => {
       expect(hafsText.text).toContain('بِسْمِ');
     });
 
-    it('should return empty array for non-existent verse', () => {
-      const validator = new QuranValidator({ riwayat: ['hafs', 'warsh'] });
+    it('should return empty array for non-existent verse', async () => {
+      const validator = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
       const texts = validator.getVerseRiwayat(999, 1);
 
       expect(texts).toEqual([]);
@@ -712,12 +1506,103 @@ describe('Multi-Riwaya Support', () => {
   });
 
   describe('loading all riwayat', () => {
-    it('should load all 8 riwayat without errors', () => {
-      const all = new QuranValidator({
+    it('should load all 8 riwayat without errors', async () => {
+      const all = await QuranValidator.create({
         riwayat: ['hafs', 'warsh', 'qalun', 'shuba', 'duri', 'susi', 'bazzi', 'qunbul'],
       });
       const loaded = all.getLoadedRiwayat();
       expect(loaded.length).toBe(8);
+    }, 30000); // imports every pack on first use
+  });
+
+  describe('on-demand loading', () => {
+    it('should require create() or preloaded data for non-Hafs riwayat', () => {
+      expect(() => new QuranValidator({ riwayat: ['hafs', 'warsh'] })).toThrow(
+        /Riwaya "warsh" is not loaded/
+      );
+    });
+
+    it('should not load a pack for Hafs, which is bundled', async () => {
+      await expect(bundledRiwayaLoader('hafs')).rejects.toThrow(/No riwaya pack/);
+    });
+
+    it('should accept preloaded riwaya data in the constructor', async () => {
+      const warsh = await bundledRiwayaLoader('warsh');
+      const validator = new QuranValidator({
+        riwayat: ['hafs', 'warsh'],
+        riwayaData: { warsh },
+      });
+
+      expect(validator.getLoadedRiwayat().map((r) => r.id)).toEqual(['hafs', 'warsh']);
+    });
+
+    it('should only load the requested riwayat', async () => {
+      const requested: string[] = [];
+      const validator = await QuranValidator.create({
+        riwayat: ['hafs', 'qalun'],
+        riwayaLoader: (riwaya) => {
+          requested.push(riwaya);
+          return bundledRiwayaLoader(riwaya);
+        },
+      });
+
+      expect(requested).toEqual(['qalun']);
+      expect(validator.getLoadedRiwayat().map((r) => r.id)).toEqual(['hafs', 'qalun']);
+    });
+
+    it('should add a riwaya to an existing validator', async () => {
+      const validator = new QuranValidator();
+      const warshText = 'مَلِكِ يَوْمِ اِ۬لدِّينِۖ';
+      expect(validator.validate(warshText).isValid).toBe(false);
+
+      await validator.addRiwaya('warsh');
+
+      expect(validator.validate(warshText).isValid).toBe(true);
+      expect(validator.getVerseRiwayat(1, 1).some((t) => t.riwayaId === 'warsh')).toBe(true);
+    });
+
+    it('should not load a riwaya twice', async () => {
+      let calls = 0;
+      const loader = (riwaya: Parameters<typeof bundledRiwayaLoader>[0]) => {
+        calls++;
+        return bundledRiwayaLoader(riwaya);
+      };
+      const validator = new QuranValidator();
+
+      await validator.addRiwaya('warsh', loader);
+      await validator.addRiwaya('warsh', loader);
+
+      expect(calls).toBe(1);
+      expect(validator.getLoadedRiwayat().length).toBe(2);
+    });
+
+    it('should fetch packs over HTTP with createFetchRiwayaLoader', async () => {
+      const warsh = await bundledRiwayaLoader('warsh');
+      const urls: string[] = [];
+      const loader = createFetchRiwayaLoader('https://cdn.example.com/riwayat/', async (url) => {
+        urls.push(url);
+        return { ok: true, status: 200, json: async () => warsh };
+      });
+
+      const validator = await QuranValidator.create({
+        riwayat: ['hafs', 'warsh'],
+        riwayaLoader: loader,
+      });
+
+      expect(urls).toEqual(['https://cdn.example.com/riwayat/warsh.min.json']);
+      expect(validator.getLoadedRiwayat().length).toBe(2);
+    });
+
+    it('should reject when a pack cannot be fetched', async () => {
+      const loader = createFetchRiwayaLoader('https://cdn.example.com/riwayat', async () => ({
+        ok: false,
+        status: 404,
+        json: async () => null,
+      }));
+
+      await expect(
+        QuranValidator.create({ riwayat: ['hafs', 'susi'], riwayaLoader: loader })
+      ).rejects.toThrow('Failed to load riwaya "susi": HTTP 404');
     });
   });
 });
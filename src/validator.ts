@@ -2,20 +2,48 @@ import type {
   QuranVerse,
   QuranSurah,
   ValidationResult,
+  VerseSuggestion,
   DetectionResult,
   ValidatorOptions,
   MatchType,
+  PartialMatch,
   FabricationAnalysis,
   WordAnalysis,
+  VerseDiff,
+  TashkeelAnalysis,
+  AyahMarker,
+  SearchOptions,
+  SearchResult,
   RiwayaId,
   RiwayaInfo,
   RiwayaMatch,
+  RiwayaVerse,
+  RiwayaLoader,
+  TranslationInfo,
+  TranslationPack,
+  TranslationValidation,
+  TransliterationValidation,
+  VerseTranslation,
 } from './types';
 import {
   normalizeArabic,
   containsArabic,
   extractArabicSegments,
+  wordEditDistance,
+  normalizeWithMap,
+  toOriginalSpan,
 } from './normalizer';
+import { NgramIndex } from './ngram-index';
+import { diffWords } from './word-diff';
+import { DEFAULT_CONFUSIONS, classifyWordError, weightedSimilarity } from './confusion';
+import { diffTashkeel, hasTashkeel } from './tashkeel';
+import { hasAyahMarkers, splitAtAyahMarkers } from './ayah-markers';
+import { SearchIndex, type SearchDocument } from './search';
+import { bundledRiwayaLoader } from './riwaya-loader';
+import { parseSingleReference } from './reference-parser';
+import { TranslationIndex, translationTerms } from './translation-match';
+import { TransliterationIndex, normalizeTransliteration } from './transliteration';
+import { toImlaei, toScript } from './script';
 
 /**
  * Aggressive normalization for fabrication checking using stripHamza option.
@@ -30,42 +58,25 @@ function normalizeFabrication(text: string): string {
 import versesData from '../data/quran-verses.min.json';
 import surahsData from '../data/quran-surahs.min.json';
 
-// Import all riwayat data (static imports for bundler compatibility)
-import hafsRiwayaData from '../data/riwayat/hafs.min.json';
-import warshRiwayaData from '../data/riwayat/warsh.min.json';
-import qalunRiwayaData from '../data/riwayat/qalun.min.json';
-import shubaRiwayaData from '../data/riwayat/shuba.min.json';
-import duriRiwayaData from '../data/riwayat/duri.min.json';
-import susiRiwayaData from '../data/riwayat/susi.min.json';
-import bazziRiwayaData from '../data/riwayat/bazzi.min.json';
-import qunbulRiwayaData from '../data/riwayat/qunbul.min.json';
+// Riwayat other than Hafs are loaded on demand (see riwaya-loader.ts)
 import riwayatMetadata from '../data/riwayat/metadata.json';
 
-interface MinimalVerse {
-  id: number;
-  surah: number;
-  ayah: number;
-  text: string;
-}
-
-const RIWAYA_DATA_MAP: Record<RiwayaId, MinimalVerse[]> = {
-  hafs: hafsRiwayaData as MinimalVerse[],
-  warsh: warshRiwayaData as MinimalVerse[],
-  qalun: qalunRiwayaData as MinimalVerse[],
-  shuba: shubaRiwayaData as MinimalVerse[],
-  duri: duriRiwayaData as MinimalVerse[],
-  susi: susiRiwayaData as MinimalVerse[],
-  bazzi: bazziRiwayaData as MinimalVerse[],
-  qunbul: qunbulRiwayaData as MinimalVerse[],
-};
-
 /**
  * Default validator options
  */
-const DEFAULT_OPTIONS: Required<ValidatorOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<ValidatorOptions, 'translation'>> = {
   maxSuggestions: 3,
   minDetectionLength: 10,
   riwayat: ['hafs'],
+  minPartialWords: 3,
+  minSuggestionSimilarity: 0.5,
+  confusions: DEFAULT_CONFUSIONS,
+  riwayaData: {},
+  riwayaLoader: bundledRiwayaLoader,
+  translations: [],
+  minTranslationSimilarity: 0.6,
+  minTransliterationSimilarity: 0.85,
+  script: 'uthmani',
 };
 
 interface RiwayaVerseEntry {
@@ -93,12 +104,15 @@ interface RiwayaVerseEntry {
  * for (const segment of detection.segments) {
  *   console.log(segment.text, segment.validation?.isValid);
  * }
+ *
+ * // Riwayat other than Hafs are loaded asynchronously
+ * const multi = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
  * ```
  */
 export class QuranValidator {
   private verses: QuranVerse[];
   private surahs: QuranSurah[];
-  private options: Required<ValidatorOptions>;
+  private options: typeof DEFAULT_OPTIONS & Pick<ValidatorOptions, 'translation'>;
 
   // Pre-computed normalized data for faster lookups
   private normalizedVerseMap: Map<string, QuranVerse[]>;
@@ -106,20 +120,52 @@ export class QuranValidator {
   private verseBySurahAyah: Map<string, QuranVerse>;
   private exactVerseMap: Map<string, QuranVerse>;
 
+  // Word-level data for partial (sub-ayah) matching
+  private normalizedWordsById: Map<number, string[]>;
+  private verseIdsByWord: Map<string, number[]>;
+
+  // Character n-gram index over normalized verses, for closest-verse suggestions
+  private ngramIndex: NgramIndex;
+
+  // Full-text search index, built on first search
+  private searchIndex?: SearchIndex;
+
   // Multi-riwaya maps (only populated when multiple riwayat loaded)
   private exactTextMap: Map<string, RiwayaVerseEntry[]>;
   private normalizedRiwayaMap: Map<string, RiwayaVerseEntry[]>;
-  private riwayaVerses: Map<RiwayaId, MinimalVerse[]>;
+  private riwayaVerses: Map<RiwayaId, RiwayaVerse[]>;
+  private indexedRiwayat: Set<RiwayaId>;
   private loadedRiwayat: RiwayaId[];
   private multiRiwaya: boolean;
 
   // Concatenated normalized corpus for fabrication detection
   private normalizedCorpus: string;
 
+  // Registered translation packs by id
+  private translations: Map<string, TranslationPack>;
+  // Word indexes over translation packs, built on first translated-quote check
+  private translationIndexes: Map<string, TranslationIndex>;
+
+  // Consonant-skeleton index over the verses, built on first transliteration check
+  private transliterationIndex?: TransliterationIndex;
+
+  // Verses by the lookup key of their Imlaei spelling, where it differs from
+  // the Uthmani one (ذلك, not ذالك); built on first miss of normalizedVerseMap
+  private imlaeiVerseMap?: Map<string, QuranVerse[]>;
+
+  /**
+   * Create a validator synchronously
+   *
+   * Hafs is always available. Any other riwaya in `options.riwayat` must
+   * already be loaded and passed in `options.riwayaData`; use
+   * `QuranValidator.create()` to load riwaya packs on demand instead.
+   *
+   * @throws Error if a requested riwaya has no data
+   */
   constructor(options: ValidatorOptions = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
-    this.loadedRiwayat = this.options.riwayat;
-    this.multiRiwaya = this.loadedRiwayat.length > 1;
+    this.loadedRiwayat = [];
+    this.multiRiwaya = false;
 
     // Load verses and surahs from bundled data (Hafs base for backward compat)
     this.verses = versesData as QuranVerse[];
@@ -130,9 +176,14 @@ export class QuranValidator {
     this.verseBySurahAyah = new Map();
     this.exactVerseMap = new Map();
     this.normalizedVerseMap = new Map();
+    this.normalizedWordsById = new Map();
+    this.verseIdsByWord = new Map();
     this.exactTextMap = new Map();
     this.normalizedRiwayaMap = new Map();
     this.riwayaVerses = new Map();
+    this.indexedRiwayat = new Set();
+    this.translations = new Map();
+    this.translationIndexes = new Map();
 
     const corpusTexts: string[] = [];
 
@@ -147,55 +198,119 @@ export class QuranValidator {
       existing.push(verse);
       this.normalizedVerseMap.set(normalized, existing);
 
+      const words = normalized.split(' ').filter(Boolean);
+      this.normalizedWordsById.set(verse.id, words);
+      for (const word of new Set(words)) {
+        const ids = this.verseIdsByWord.get(word) || [];
+        ids.push(verse.id);
+        this.verseIdsByWord.set(word, ids);
+      }
+
       corpusTexts.push(normalized);
     }
 
+    // Build concatenated corpus for fabrication detection
+    this.normalizedCorpus = corpusTexts.join(' ');
+    this.ngramIndex = new NgramIndex(corpusTexts);
+
     // Load riwayat data
-    for (const riwayaId of this.loadedRiwayat) {
-      const data = RIWAYA_DATA_MAP[riwayaId];
-      this.riwayaVerses.set(riwayaId, data);
+    for (const riwayaId of this.options.riwayat) {
+      const data =
+        riwayaId === 'hafs' ? this.verses : this.options.riwayaData[riwayaId];
+      if (!data) {
+        throw new Error(
+          `Riwaya "${riwayaId}" is not loaded. Use QuranValidator.create() ` +
+            `to load it on demand, or pass its data in options.riwayaData.`
+        );
+      }
+      this.addRiwayaData(riwayaId, data);
+    }
 
-      if (this.multiRiwaya) {
-        for (const rv of data) {
-          // Create a QuranVerse-compatible object for the entry
-          const verseRef: QuranVerse = {
-            id: rv.id,
-            surah: rv.surah,
-            ayah: rv.ayah,
-            text: rv.text,
-            textSimple: '',
-            page: 0,
-            juz: 0,
-          };
-
-          const entry: RiwayaVerseEntry = {
-            verse: verseRef,
-            riwayaId,
-            originalText: rv.text,
-          };
-
-          // Exact text map
-          const exactKey = rv.text;
-          const exactList = this.exactTextMap.get(exactKey) || [];
-          exactList.push(entry);
-          this.exactTextMap.set(exactKey, exactList);
-
-          // Normalized text map
-          const normalizedKey = normalizeFabrication(rv.text);
-          const normList = this.normalizedRiwayaMap.get(normalizedKey) || [];
-          normList.push(entry);
-          this.normalizedRiwayaMap.set(normalizedKey, normList);
-
-          // Add non-hafs texts to corpus for fabrication detection
-          if (riwayaId !== 'hafs') {
-            corpusTexts.push(normalizedKey);
-          }
-        }
+    for (const pack of this.options.translations) {
+      this.registerTranslation(pack);
+    }
+  }
+
+  /**
+   * Create a validator, loading any riwaya packs it needs on demand
+   *
+   * Only the riwayat listed in `options.riwayat` are loaded, so consumers
+   * that only use Hafs never download or bundle the other packs.
+   *
+   * @param options - Validator options; `riwayaLoader` controls how packs are fetched
+   * @returns A ready-to-use validator
+   *
+   * @example
+   * ```ts
+   * const validator = await QuranValidator.create({ riwayat: ['hafs', 'warsh'] });
+   *
+   * // Or fetch packs from your own CDN
+   * const remote = await QuranValidator.create({
+   *   riwayat: ['hafs', 'qalun'],
+   *   riwayaLoader: createFetchRiwayaLoader('https://cdn.example.com/riwayat'),
+   * });
+   * ```
+   */
+  static async create(options: ValidatorOptions = {}): Promise<QuranValidator> {
+    const loader = options.riwayaLoader ?? DEFAULT_OPTIONS.riwayaLoader;
+    const riwayaData = { ...options.riwayaData };
+    const missing = (options.riwayat ?? DEFAULT_OPTIONS.riwayat).filter(
+      (id) => id !== 'hafs' && !riwayaData[id]
+    );
+
+    await Promise.all(
+      missing.map(async (id) => {
+        riwayaData[id] = await loader(id);
+      })
+    );
+
+    return new QuranValidator({ ...options, riwayaData });
+  }
+
+  /**
+   * Load a riwaya pack and add it to this validator
+   *
+   * @param riwayaId - Riwaya to add
+   * @param loader - Loader to fetch the pack with (default: options.riwayaLoader)
+   *
+   * @example
+   * ```ts
+   * const validator = new QuranValidator();
+   * await validator.addRiwaya('warsh');
+   * validator.validate(warshText).riwayaMatches; // now includes Warsh
+   * ```
+   */
+  async addRiwaya(
+    riwayaId: RiwayaId,
+    loader: RiwayaLoader = this.options.riwayaLoader
+  ): Promise<void> {
+    if (this.riwayaVerses.has(riwayaId)) return;
+    const data = riwayaId === 'hafs' ? this.verses : await loader(riwayaId);
+    this.addRiwayaData(riwayaId, data);
+  }
+
+  /**
+   * Add already-loaded riwaya data to this validator
+   *
+   * @param riwayaId - Riwaya the data belongs to
+   * @param data - Verses of the riwaya
+   */
+  addRiwayaData(riwayaId: RiwayaId, data: RiwayaVerse[]): void {
+    if (this.riwayaVerses.has(riwayaId)) return;
+
+    this.riwayaVerses.set(riwayaId, data);
+    this.loadedRiwayat.push(riwayaId);
+    this.multiRiwaya = this.loadedRiwayat.length > 1;
+
+    // Multi-riwaya maps are only needed (and built) once a second riwaya arrives
+    if (this.multiRiwaya) {
+      for (const id of this.loadedRiwayat) {
+        this.indexRiwaya(id);
       }
     }
 
-    // Build concatenated corpus for fabrication detection
-    this.normalizedCorpus = corpusTexts.join(' ');
+    // Search results include every loaded riwaya, so rebuild on next search
+    this.searchIndex = undefined;
   }
 
   /**
@@ -211,9 +326,25 @@ export class QuranValidator {
    *   console.log(`Found: ${result.reference}`); // "1:1"
    *   console.log(`Match type: ${result.matchType}`); // "exact"
    * }
+   *
+   * // Excerpts of a verse are reported as partial matches
+   * const excerpt = validator.validate("لَا تَأْخُذُهُۥ سِنَةٌۭ وَلَا نَوْمٌۭ");
+   * console.log(excerpt.matchType); // "partial"
+   * console.log(excerpt.reference); // "2:255"
+   * console.log(excerpt.partialMatch?.startWord); // 7
+   *
+   * // Consecutive verses quoted together are split back into ayat
+   * const range = validator.validate("قُلْ هُوَ ٱللَّهُ أَحَدٌ ٱللَّهُ ٱلصَّمَدُ");
+   * console.log(range.reference); // "112:1-2"
+   * console.log(range.verseMatches?.length); // 2
    * ```
    */
   validate(text: string): ValidationResult {
+    const result = this.withCanonicalText(this.withTranslation(this.validateText(text)), text);
+    return this.withAyahMarkers(result, text, result.isValid ? result.reference : undefined);
+  }
+
+  private validateText(text: string): ValidationResult {
     const trimmedText = text.trim();
     const normalizedInput = normalizeArabic(trimmedText);
     // Use aggressive normalization for lookup (handles ى/ي and hamza variations)
@@ -226,7 +357,10 @@ export class QuranValidator {
 
     // Multi-riwaya path
     if (this.multiRiwaya) {
-      return this.validateMultiRiwaya(trimmedText, normalizedInput, lookupKey);
+      const result = this.validateMultiRiwaya(trimmedText, normalizedInput, lookupKey);
+      return result.isValid
+        ? result
+        : this.validateFragments(trimmedText, lookupKey, normalizedInput);
     }
 
     // Single-riwaya (Hafs only) path — original behavior
@@ -237,7 +371,8 @@ export class QuranValidator {
     }
 
     // Step 2: Try normalized match (handles script variations)
-    const normalizedMatches = this.normalizedVerseMap.get(lookupKey);
+    const normalizedMatches =
+      this.normalizedVerseMap.get(lookupKey) ?? this.getImlaeiVerseMap().get(lookupKey);
 
     if (normalizedMatches && normalizedMatches.length > 0) {
       const primary = normalizedMatches[0];
@@ -255,15 +390,15 @@ export class QuranValidator {
       return result;
     }
 
-    // No match found
-    return this.noMatch(normalizedInput);
+    // Step 3: Try consecutive verses, then an excerpt of a single verse
+    return this.validateFragments(trimmedText, lookupKey, normalizedInput);
   }
 
   /**
    * Validate text against a specific verse reference
    *
    * @param text - The Arabic text to validate
-   * @param reference - The expected verse reference (e.g., "1:1" or "2:255-257")
+   * @param reference - The expected verse reference (e.g., "1:1", "2:255-257" or "Al-Baqarah 255")
    * @returns Validation result with diff information
    *
    * @example
@@ -277,18 +412,25 @@ export class QuranValidator {
    * ```
    */
   validateAgainst(text: string, reference: string): ValidationResult {
+    const result = this.withCanonicalText(
+      this.withTranslation(this.validateAgainstReference(text, reference)),
+      text
+    );
+    return this.withAyahMarkers(result, text, reference);
+  }
+
+  private validateAgainstReference(text: string, reference: string): ValidationResult {
     const trimmedText = text.trim();
     const normalizedInput = normalizeArabic(trimmedText);
 
     // Parse the reference
-    const rangeMatch = reference.match(/^(\d+):(\d+)(?:-(\d+))?$/);
-    if (!rangeMatch) {
+    const parsed = parseSingleReference(reference);
+    if (!parsed) {
       return this.noMatch(normalizedInput);
     }
 
-    const surah = parseInt(rangeMatch[1], 10);
-    const startAyah = parseInt(rangeMatch[2], 10);
-    const endAyah = rangeMatch[3] ? parseInt(rangeMatch[3], 10) : startAyah;
+    const { surah, startAyah } = parsed;
+    const endAyah = parsed.endAyah ?? startAyah;
 
     // Get the expected verse(s)
     let expectedText: string;
@@ -319,7 +461,7 @@ export class QuranValidator {
         isValid: true,
         matchType: 'exact',
         matchedVerse,
-        reference,
+        reference: parsed.reference,
         normalizedInput,
         expectedNormalized,
       };
@@ -332,12 +474,15 @@ export class QuranValidator {
     // Check for normalized match (use aggressive normalization for ى/ي and hamza variations)
     const inputLookup = normalizeFabrication(trimmedText);
     const expectedLookup = normalizeFabrication(expectedText);
-    if (inputLookup === expectedLookup) {
+    if (
+      inputLookup === expectedLookup ||
+      inputLookup === normalizeFabrication(toImlaei(expectedText))
+    ) {
       const result: ValidationResult = {
         isValid: true,
         matchType: 'normalized',
         matchedVerse,
-        reference,
+        reference: parsed.reference,
         normalizedInput,
         expectedNormalized,
       };
@@ -356,7 +501,7 @@ export class QuranValidator {
           isValid: true,
           matchType: bestMatch.matchType,
           matchedVerse: bestMatch.verse,
-          reference,
+          reference: parsed.reference,
           normalizedInput,
           expectedNormalized,
           riwayaMatches,
@@ -365,18 +510,139 @@ export class QuranValidator {
     }
 
     // No match - find where the mismatch starts
-    const mismatchIndex = this.findMismatchIndex(inputLookup, expectedLookup);
+    const normalizedMismatch = this.findMismatchIndex(inputLookup, expectedLookup);
+    const mismatchIndex =
+      normalizedMismatch >= 0
+        ? normalizeWithMap(text, { stripHamza: true }).map[normalizedMismatch]
+        : -1;
 
     return {
       isValid: false,
       matchType: 'none',
-      reference,
+      reference: parsed.reference,
       normalizedInput,
       expectedNormalized,
       mismatchIndex,
     };
   }
 
+  /**
+   * Compare a quote word-by-word against the verse(s) it cites
+   *
+   * Unlike `validateAgainst`, which reports a single mismatch index in
+   * normalized text, this aligns whole words so one inserted or missing
+   * word doesn't make everything after it look wrong.
+   *
+   * @param text - The Arabic text as quoted
+   * @param reference - The cited verse reference (e.g., "1:1", "112:1-4" or "Al-Ikhlas 1-4")
+   * @returns Word-level diff, or undefined if the reference doesn't exist
+   *
+   * @example
+   * ```ts
+   * const diff = validator.diffAgainstVerse("قل هو الله واحد", "112:1");
+   * for (const op of diff!.operations) {
+   *   if (op.op === 'substitute') {
+   *     console.log(`Word ${op.inputWordIndex + 1} should be ${op.expected}`);
+   *   }
+   * }
+   * ```
+   */
+  diffAgainstVerse(text: string, reference: string): VerseDiff | undefined {
+    const parsed = parseSingleReference(reference);
+    if (!parsed) return undefined;
+
+    const { surah, startAyah } = parsed;
+    const endAyah = parsed.endAyah ?? startAyah;
+
+    const range = this.getVerseRange(surah, startAyah, endAyah);
+    if (!range) return undefined;
+
+    const operations = diffWords(text, range.text, this.options.confusions);
+
+    return {
+      reference: parsed.reference,
+      verseText: range.text,
+      operations,
+      editCount: operations.filter((op) => op.op !== 'equal').length,
+    };
+  }
+
+  /**
+   * Compare the tashkeel of a quote letter by letter with the verse(s) it cites
+   *
+   * Reports missing shadda and sukun, wrong harakat, tanween errors and
+   * dagger alif differences, with an accuracy score for the vowelling as a
+   * whole. Words the quote gets wrong are left to `diffAgainstVerse`.
+   *
+   * @param text - The Arabic text as quoted
+   * @param reference - The cited verse reference (e.g., "1:1" or "112:1-4")
+   * @returns Tashkeel comparison, or undefined if the reference doesn't exist
+   *
+   * @example
+   * ```ts
+   * const analysis = validator.analyzeTashkeel('قُلْ هُوَ اللَهُ أَحَدٌ', '112:1');
+   * analysis!.errors[0].type; // 'missing-shadda'
+   * ```
+   */
+  analyzeTashkeel(text: string, reference: string): TashkeelAnalysis | undefined {
+    const parsed = parseSingleReference(reference);
+    if (!parsed) return undefined;
+
+    const { surah, startAyah } = parsed;
+    const range = this.getVerseRange(surah, startAyah, parsed.endAyah ?? startAyah);
+    return range ? diffTashkeel(text, range.text) : undefined;
+  }
+
+  /**
+   * Check the ayah numbers written inside a quote against the verses they close
+   *
+   * Each marker (﴿٢﴾, ۝٢, a bare ٢ or an unnumbered ۝) ends the text before
+   * it. A numbered marker is correct when that text ends the ayah it names
+   * in the quote's surah; an unnumbered one when the text ends any verse.
+   * The surah comes from the reference, or else from the text itself.
+   *
+   * @param text - The Arabic text as quoted, markers included
+   * @param reference - The verse reference cited for the quote, if any
+   * @returns One entry per marker, in reading order
+   *
+   * @example
+   * ```ts
+   * const markers = validator.checkAyahMarkers('قل هو الله أحد ﴿١﴾ الله الصمد ﴿٣﴾');
+   * markers[1].impliedReference; // "112:3"
+   * markers[1].actualReference; // "112:2"
+   * markers[1].isCorrect; // false
+   * ```
+   */
+  checkAyahMarkers(text: string, reference?: string): AyahMarker[] {
+    // Without a reference, the first marker that resolves sets the surah
+    let surah = reference ? parseSingleReference(reference)?.surah : undefined;
+    const markers: AyahMarker[] = [];
+
+    for (const segment of splitAtAyahMarkers(text)) {
+      if (!segment.marker) continue;
+      const { ayah, start, end } = segment.marker;
+
+      const actual = this.markedVerses(segment.text, surah, ayah);
+      const parsed = actual && parseSingleReference(actual.reference);
+      surah ??= parsed?.surah;
+
+      markers.push({
+        ayah,
+        impliedReference: surah && ayah !== undefined ? `${surah}:${ayah}` : undefined,
+        actualReference: actual?.reference,
+        isCorrect:
+          !!parsed &&
+          actual.endsVerse &&
+          parsed.surah === surah &&
+          (ayah === undefined || (parsed.endAyah ?? parsed.startAyah) === ayah),
+        startIndex: start,
+        endIndex: end,
+      });
+    }
+
+    return markers;
+  }
+
   /**
    * Detect and validate all potential Quran quotes in text
    *
@@ -497,36 +763,72 @@ export class QuranValidator {
   }
 
   /**
-   * Search verses by text (containment-based matching)
+   * Search verses by text
+   *
+   * Uses an inverted index (built on the first call) with BM25 ranking.
+   * Words are matched after normalization; all words must match unless
+   * `operator: 'or'` is set. Quote a phrase to require adjacent words,
+   * and separate alternatives with OR.
    *
    * @param query - Search query (Arabic text)
-   * @param limit - Maximum results to return
-   * @returns Matching verses sorted by relevance
+   * @param options - Maximum results, or full search options
+   * @returns Matching verses sorted by relevance, with highlighted spans
+   *
+   * @example
+   * ```ts
+   * validator.search('الرحمن الرحيم', 5);
+   * validator.search('"رب العالمين" OR الصمد', { surah: [1, 112] });
+   * validator.search('الصلاة', { juz: 1, operator: 'or' });
+   * ```
    */
-  search(
-    query: string,
-    limit: number = 10
-  ): { verse: QuranVerse; similarity: number }[] {
-    const normalizedQuery = normalizeArabic(query.trim());
-    if (!normalizedQuery) return [];
-    const results: { verse: QuranVerse; similarity: number }[] = [];
-
-    for (const verse of this.verses) {
-      const normalizedVerse = normalizeArabic(verse.text);
-
-      // Query contained in verse
-      if (normalizedVerse.includes(normalizedQuery)) {
-        const ratio = normalizedQuery.length / normalizedVerse.length;
-        results.push({ verse, similarity: 0.7 + ratio * 0.3 });
-      }
-      // Verse contained in query
-      else if (normalizedQuery.includes(normalizedVerse)) {
-        const ratio = normalizedVerse.length / normalizedQuery.length;
-        results.push({ verse, similarity: 0.5 + ratio * 0.3 });
-      }
+  search(query: string, options: number | SearchOptions = 10): SearchResult[] {
+    const searchOptions = typeof options === 'number' ? { limit: options } : options;
+    if (!this.searchIndex) {
+      this.searchIndex = new SearchIndex(this.getSearchDocuments());
     }
+    return this.searchIndex.search(query, searchOptions);
+  }
 
-    return results
+  /**
+   * Find the verses closest to a (possibly misquoted) text
+   *
+   * Candidates are shortlisted with a character n-gram index, then ranked
+   * by `weightedSimilarity` on the normalized text, so spelling variants
+   * (ة for ه, a dropped alif) rank above real misquotes.
+   *
+   * @param text - The Arabic text to compare
+   * @param limit - Maximum number of verses to return (default: maxSuggestions)
+   * @returns Closest verses, most similar first
+   *
+   * @example
+   * ```ts
+   * // One word changed in 112:1
+   * const [closest] = validator.findClosestVerses('قل هو الله واحد');
+   * console.log(closest.reference); // "112:1"
+   * console.log(closest.wordEdits); // 1
+   * ```
+   */
+  findClosestVerses(
+    text: string,
+    limit: number = this.options.maxSuggestions
+  ): VerseSuggestion[] {
+    const lookupKey = normalizeFabrication(text.trim());
+    if (!lookupKey) return [];
+
+    // Shortlist generously: n-gram overlap and edit distance rank differently
+    const candidates = this.ngramIndex.search(lookupKey, Math.max(limit * 4, 10));
+
+    return candidates
+      .map(({ index }) => {
+        const verse = this.verses[index];
+        const verseKey = this.normalizedWordsById.get(verse.id)!.join(' ');
+        return {
+          verse,
+          reference: `${verse.surah}:${verse.ayah}`,
+          similarity: weightedSimilarity(lookupKey, verseKey, this.options.confusions),
+          wordEdits: wordEditDistance(lookupKey, verseKey),
+        };
+      })
       .sort((a, b) => b.similarity - a.similarity)
       .slice(0, limit);
   }
@@ -550,10 +852,21 @@ export class QuranValidator {
    * ```
    */
   analyzeFabrication(text: string): FabricationAnalysis {
-    const normalizedInput = normalizeArabic(text);
+    const mapped = normalizeWithMap(text);
+    const normalizedInput = mapped.text;
     // Use aggressive normalization for matching against corpus
     const fabricationNormalized = normalizeFabrication(text);
     const words = normalizedInput.split(/\s+/).filter(Boolean);
+    // Where each word is in the text as written
+    const spans = Array.from(normalizedInput.matchAll(/\S+/g), (match) =>
+      toOriginalSpan(mapped, match.index!, match.index! + match[0].length)
+    );
+    const wordAt = (j: number): WordAnalysis => ({
+      word: words[j],
+      isFabricated: false,
+      startIndex: spans[j]?.start ?? text.length,
+      endIndex: spans[j]?.end ?? text.length,
+    });
     const fabricationWords = fabricationNormalized.split(/\s+/).filter(Boolean);
     const results: WordAnalysis[] = [];
 
@@ -593,12 +906,12 @@ export class QuranValidator {
         // Found contiguous match — mark words [i, i+best) as valid
         // Use original normalized words for display
         for (let j = i; j < i + best; j++) {
-          results.push({ word: words[j], isFabricated: false });
+          results.push(wordAt(j));
         }
         i += best;
       } else {
         // No match at all — word doesn't exist even alone
-        results.push({ word: words[i], isFabricated: true });
+        results.push({ ...wordAt(i), isFabricated: true });
         i++;
       }
     }
@@ -651,8 +964,457 @@ export class QuranValidator {
     return results;
   }
 
+  /**
+   * Register a translation pack
+   *
+   * A pack with the same id replaces the one registered before it.
+   *
+   * @param pack - Translation in the local JSON format, keyed by verse id
+   *
+   * @example
+   * ```ts
+   * import sahih from './translations/sahih-international.json';
+   *
+   * validator.registerTranslation(sahih);
+   * validator.getTranslation(1, 1, 'sahih-international')?.text;
+   * ```
+   */
+  registerTranslation(pack: TranslationPack): void {
+    if (!pack.id || typeof pack.verses !== 'object' || pack.verses === null) {
+      throw new Error('Translation pack must have an id and a verses object');
+    }
+    this.translations.set(pack.id, pack);
+    this.translationIndexes.delete(pack.id);
+  }
+
+  /**
+   * Get metadata for all registered translation packs
+   */
+  getTranslations(): TranslationInfo[] {
+    return Array.from(this.translations.values()).map(({ id, name, language }) => ({
+      id,
+      name,
+      language,
+    }));
+  }
+
+  /**
+   * Get the translation of a verse
+   *
+   * @param surah - Surah number (1-114)
+   * @param ayah - Ayah number
+   * @param translationId - Pack to use (default: options.translation, else the first registered pack)
+   * @returns The translated verse, or undefined if the pack or verse is missing
+   */
+  getTranslation(
+    surah: number,
+    ayah: number,
+    translationId?: string
+  ): VerseTranslation | undefined {
+    const verse = this.getVerse(surah, ayah);
+    return verse ? this.translateVerses([verse], translationId) : undefined;
+  }
+
+  /**
+   * Get the translation of a cited verse or verse range
+   *
+   * @param reference - Any form parseQuranReference accepts (e.g., "2:255-257", "Al-Ikhlas 1-4")
+   * @param translationId - Pack to use (default: options.translation, else the first registered pack)
+   * @returns The translated text, or undefined if the reference, pack or any verse is missing
+   */
+  getReferenceTranslation(
+    reference: string,
+    translationId?: string
+  ): VerseTranslation | undefined {
+    const parsed = parseSingleReference(reference);
+    if (!parsed) return undefined;
+
+    const { surah, startAyah } = parsed;
+    const range = this.getVerseRange(surah, startAyah, parsed.endAyah ?? startAyah);
+    return range ? this.translateVerses(range.verses, translationId) : undefined;
+  }
+
+  /**
+   * Check a translated (e.g. English) quote against the verse it cites
+   *
+   * The quote is scored against every registered translation of the cited
+   * verse. If none match, the packs are searched for the verse it does
+   * match, to tell a wrong reference apart from an invented quote.
+   *
+   * @param text - The translated quote
+   * @param reference - The cited reference (any form parseQuranReference accepts)
+   * @param translationId - Only compare against this pack (default: all registered packs)
+   * @returns Match status and similarity scores
+   *
+   * @example
+   * ```ts
+   * const result = validator.validateTranslation(
+   *   'Allah - there is no deity except Him, the Ever-Living',
+   *   '2:255'
+   * );
+   * result.status; // "matched"
+   * ```
+   */
+  validateTranslation(
+    text: string,
+    reference: string,
+    translationId?: string
+  ): TranslationValidation {
+    const parsed = parseSingleReference(reference);
+    const range =
+      parsed &&
+      this.getVerseRange(parsed.surah, parsed.startAyah, parsed.endAyah ?? parsed.startAyah);
+    const unavailable: TranslationValidation = {
+      isValid: false,
+      status: 'unavailable',
+      reference: parsed?.reference ?? reference,
+      similarity: 0,
+    };
+    if (!parsed || !range) return unavailable;
+
+    const packIds =
+      translationId !== undefined ? [translationId] : Array.from(this.translations.keys());
+    const verseIds = range.verses.map((verse) => verse.id);
+    const terms = translationTerms(text);
+
+    let best: { id: string; similarity: number } | undefined;
+    for (const id of packIds) {
+      const index = this.getTranslationIndex(id);
+      if (!index?.covers(verseIds)) continue;
+      const similarity = index.similarity(terms, verseIds);
+      if (!best || similarity > best.similarity) best = { id, similarity };
+    }
+    if (!best) return unavailable;
+
+    const result: TranslationValidation = {
+      isValid: best.similarity >= this.options.minTranslationSimilarity,
+      status: 'matched',
+      reference: parsed.reference,
+      similarity: best.similarity,
+      expected: this.translateVerses(range.verses, best.id),
+    };
+    if (result.isValid) return result;
+
+    // Not the cited verse - is it another one?
+    let actual: { verseId: number; similarity: number } | undefined;
+    for (const id of packIds) {
+      const candidate = this.getTranslationIndex(id)?.best(terms);
+      if (candidate && (!actual || candidate.similarity > actual.similarity)) {
+        actual = candidate;
+      }
+    }
+
+    const actualVerse = actual && this.verseById.get(actual.verseId);
+    if (
+      actual &&
+      actualVerse &&
+      actual.similarity >= this.options.minTranslationSimilarity &&
+      !verseIds.includes(actual.verseId)
+    ) {
+      result.status = 'wrong-reference';
+      result.actualReference = `${actualVerse.surah}:${actualVerse.ayah}`;
+      result.actualSimilarity = actual.similarity;
+    } else {
+      result.status = 'unmatched';
+    }
+
+    return result;
+  }
+
+  /**
+   * Match a transliterated (Latin-script) quote to a verse
+   *
+   * Accepts scholarly romanization ("al-raḥmān"), everyday spelling
+   * ("Bismillahir rahmanir rahim") and chat spelling ("a7ad"). The quote
+   * must cover a whole verse.
+   *
+   * @param text - The transliterated quote
+   * @param reference - The cited verse, if any (any form parseQuranReference accepts)
+   * @returns The matched verse with its canonical Arabic text
+   *
+   * @example
+   * ```ts
+   * const result = validator.validateTransliteration('Qul huwa Allahu ahad');
+   * result.reference;         // "112:1"
+   * result.matchedVerse?.text; // "قُلْ هُوَ ٱللَّهُ أَحَدٌ"
+   * ```
+   */
+  validateTransliteration(text: string, reference?: string): TransliterationValidation {
+    this.transliterationIndex ??= new TransliterationIndex(this.verses);
+    const index = this.transliterationIndex;
+    const key = normalizeTransliteration(text);
+    const minSimilarity = this.options.minTransliterationSimilarity;
+
+    if (reference !== undefined) {
+      const parsed = parseSingleReference(reference);
+      const verse = parsed && !parsed.isRange ? this.getVerse(parsed.surah, parsed.startAyah) : undefined;
+      if (!parsed || !verse) {
+        return { isValid: false, reference, similarity: 0, normalizedInput: key };
+      }
+      const { similarity, isMatch } = index.compare(key, verse.id, minSimilarity);
+      return {
+        isValid: isMatch,
+        reference: parsed.reference,
+        similarity,
+        matchedVerse: verse,
+        normalizedInput: key,
+      };
+    }
+
+    const best = key ? index.best(key, minSimilarity) : undefined;
+    const verse = best && this.verseById.get(best.verseId);
+    if (!best || !verse) {
+      return { isValid: false, similarity: 0, normalizedInput: key };
+    }
+    return {
+      isValid: true,
+      reference: `${verse.surah}:${verse.ayah}`,
+      similarity: best.similarity,
+      matchedVerse: verse,
+      normalizedInput: key,
+    };
+  }
+
   // Private helper methods
 
+  private getTranslationIndex(translationId: string): TranslationIndex | undefined {
+    let index = this.translationIndexes.get(translationId);
+    if (!index) {
+      const pack = this.translations.get(translationId);
+      if (!pack) return undefined;
+      index = new TranslationIndex(pack);
+      this.translationIndexes.set(translationId, index);
+    }
+    return index;
+  }
+
+  /**
+   * Join the translations of one or more verses from a single pack
+   */
+  private translateVerses(
+    verses: QuranVerse[],
+    translationId: string | undefined = this.options.translation
+  ): VerseTranslation | undefined {
+    const pack =
+      translationId !== undefined
+        ? this.translations.get(translationId)
+        : this.translations.values().next().value;
+    if (!pack) return undefined;
+
+    const texts = verses.map((verse) => pack.verses[verse.id]);
+    if (texts.some((text) => text === undefined)) return undefined;
+
+    return { translationId: pack.id, language: pack.language, text: texts.join(' ') };
+  }
+
+  /**
+   * Verses by the lookup key of their Imlaei spelling. Normalization writes a
+   * dagger alif out (ذَٰلِكَ becomes ذالك), so modern spellings that leave it
+   * out (ذلك, الرحمن, على) need keys of their own.
+   */
+  private getImlaeiVerseMap(): Map<string, QuranVerse[]> {
+    if (!this.imlaeiVerseMap) {
+      this.imlaeiVerseMap = new Map();
+      for (const verse of this.verses) {
+        const key = normalizeFabrication(toImlaei(verse.text));
+        if (this.normalizedVerseMap.has(key)) continue;
+        const existing = this.imlaeiVerseMap.get(key) || [];
+        existing.push(verse);
+        this.imlaeiVerseMap.set(key, existing);
+      }
+    }
+    return this.imlaeiVerseMap;
+  }
+
+  /**
+   * Attach the default translation to a result and its per-verse matches
+   */
+  private withTranslation(result: ValidationResult): ValidationResult {
+    if (this.translations.size === 0 || !result.matchedVerse) return result;
+
+    if (result.verseMatches) {
+      for (const match of result.verseMatches) this.withTranslation(match);
+      const verses = result.verseMatches.map((match) => match.matchedVerse!);
+      result.translation = this.translateVerses(verses);
+    } else if (result.reference && parseSingleReference(result.reference)?.isRange) {
+      // validateAgainst() with a range reference
+      result.translation = this.getReferenceTranslation(result.reference);
+    } else {
+      result.translation = this.translateVerses([result.matchedVerse]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Attach the text of the matched verse(s) in the configured script
+   */
+  private withCanonicalText(result: ValidationResult, input: string): ValidationResult {
+    if (!result.matchedVerse) return result;
+
+    let text = result.matchedVerse.text;
+    if (result.verseMatches) {
+      text = result.verseMatches.map((match) => match.matchedVerse!.text).join(' ');
+    } else if (result.reference) {
+      // validateAgainst() with a range reference
+      const parsed = parseSingleReference(result.reference);
+      if (parsed?.isRange) {
+        text = this.getVerseRange(parsed.surah, parsed.startAyah, parsed.endAyah!)?.text ?? text;
+      }
+    }
+
+    result.canonicalText = toScript(text, this.options.script, input);
+    // Same letters, different vowelling: say which letters
+    if (result.matchType === 'normalized' && hasTashkeel(input)) {
+      result.tashkeel = diffTashkeel(input, text);
+    }
+    return result;
+  }
+
+  /**
+   * Attach the ayah markers of the input, checked against its text
+   */
+  private withAyahMarkers(
+    result: ValidationResult,
+    input: string,
+    reference: string | undefined
+  ): ValidationResult {
+    if (hasAyahMarkers(input)) {
+      result.ayahMarkers = this.checkAyahMarkers(input, reference);
+    }
+    return result;
+  }
+
+  /**
+   * The verse(s) the text before an ayah marker is, trying the ayah the
+   * marker names first (in every surah, if the surah isn't known yet).
+   * `endsVerse` is false for an excerpt that stops short of its verse's end.
+   */
+  private markedVerses(
+    text: string,
+    surah: number | undefined,
+    ayah: number | undefined
+  ): { reference: string; endsVerse: boolean } | undefined {
+    if (ayah !== undefined) {
+      const surahs = surah ? [surah] : this.surahs.map((s) => s.number);
+      for (const number of surahs) {
+        const verse = this.getVerse(number, ayah);
+        if (verse && this.isEndOfVerse(text, verse.text)) {
+          return { reference: `${verse.surah}:${verse.ayah}`, endsVerse: true };
+        }
+      }
+    }
+
+    const validation = this.validate(text);
+    if (validation.isValid) {
+      return { reference: validation.reference!, endsVerse: true };
+    }
+    if (validation.partialMatch) {
+      const { endWord, verseWordCount } = validation.partialMatch;
+      return { reference: validation.reference!, endsVerse: endWord === verseWordCount };
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether text is the last words of a verse, allowing spelling variants
+   * (الرحمن for ٱلرَّحْمَٰنِ)
+   */
+  private isEndOfVerse(text: string, verseText: string): boolean {
+    const quoted = normalizeFabrication(text).split(' ').filter(Boolean);
+    const verseWords = normalizeFabrication(verseText).split(' ').filter(Boolean);
+    if (quoted.length === 0 || quoted.length > verseWords.length) return false;
+
+    const tail = verseWords.slice(-quoted.length);
+    return quoted.every(
+      (word, i) =>
+        word === tail[i] ||
+        classifyWordError(word, tail[i], this.options.confusions) === 'orthographic-variant'
+    );
+  }
+
+  /**
+   * Add a riwaya's verses to the multi-riwaya lookup maps and the
+   * fabrication corpus
+   */
+  private indexRiwaya(riwayaId: RiwayaId): void {
+    if (this.indexedRiwayat.has(riwayaId)) return;
+    this.indexedRiwayat.add(riwayaId);
+
+    const corpusTexts: string[] = [];
+
+    for (const rv of this.riwayaVerses.get(riwayaId)!) {
+      // Create a QuranVerse-compatible object for the entry
+      const verseRef: QuranVerse = {
+        id: rv.id,
+        surah: rv.surah,
+        ayah: rv.ayah,
+        text: rv.text,
+        textSimple: '',
+        page: 0,
+        juz: 0,
+      };
+
+      const entry: RiwayaVerseEntry = {
+        verse: verseRef,
+        riwayaId,
+        originalText: rv.text,
+      };
+
+      // Exact text map
+      const exactKey = rv.text;
+      const exactList = this.exactTextMap.get(exactKey) || [];
+      exactList.push(entry);
+      this.exactTextMap.set(exactKey, exactList);
+
+      // Normalized text map
+      const normalizedKey = normalizeFabrication(rv.text);
+      const normList = this.normalizedRiwayaMap.get(normalizedKey) || [];
+      normList.push(entry);
+      this.normalizedRiwayaMap.set(normalizedKey, normList);
+
+      // Add non-hafs texts to corpus for fabrication detection
+      if (riwayaId !== 'hafs') {
+        corpusTexts.push(normalizedKey);
+      }
+    }
+
+    if (corpusTexts.length > 0) {
+      this.normalizedCorpus += ' ' + corpusTexts.join(' ');
+    }
+  }
+
+  /**
+   * All verse texts to index for search: the Hafs base verses plus every
+   * other loaded riwaya
+   */
+  private getSearchDocuments(): SearchDocument[] {
+    const documents: SearchDocument[] = this.verses.map((verse) => ({
+      verse,
+      riwaya: 'hafs',
+    }));
+
+    for (const riwayaId of this.loadedRiwayat) {
+      if (riwayaId === 'hafs') continue;
+      for (const rv of this.riwayaVerses.get(riwayaId) ?? []) {
+        documents.push({
+          verse: {
+            id: rv.id,
+            surah: rv.surah,
+            ayah: rv.ayah,
+            text: rv.text,
+            textSimple: '',
+            page: 0,
+            juz: 0,
+          },
+          riwaya: riwayaId,
+        });
+      }
+    }
+
+    return documents;
+  }
+
   private validateMultiRiwaya(
     trimmedText: string,
     normalizedInput: string,
@@ -788,6 +1550,265 @@ export class QuranValidator {
     return matches;
   }
 
+  /**
+   * Fallback for input that is not a single whole verse: try a run of
+   * consecutive verses first, then an excerpt of one verse.
+   */
+  private validateFragments(
+    trimmedText: string,
+    lookupKey: string,
+    normalizedInput: string
+  ): ValidationResult {
+    return (
+      this.findConsecutiveVerses(trimmedText, lookupKey, normalizedInput) ??
+      this.partialOrNoMatch(lookupKey, normalizedInput)
+    );
+  }
+
+  /**
+   * Split the input into two or more consecutive whole verses.
+   *
+   * Verse ids are sequential across the mushaf, so a range is walked by
+   * `id + 1` from its starting verse. It stops at the end of the surah: a
+   * reference names one surah, so no range can cite verses from two.
+   */
+  private findConsecutiveVerses(
+    trimmedText: string,
+    lookupKey: string,
+    normalizedInput: string
+  ): ValidationResult | undefined {
+    const words = lookupKey.split(' ').filter(Boolean);
+    const starts = words.length > 0 ? this.verseIdsByWord.get(words[0]) : undefined;
+    if (!starts) return undefined;
+
+    for (const startId of starts) {
+      const verses: QuranVerse[] = [];
+      let position = 0;
+      let id = startId;
+
+      const surah = this.verseById.get(startId)!.surah;
+
+      while (position < words.length) {
+        const verseWords = this.normalizedWordsById.get(id);
+        if (!verseWords || this.verseById.get(id)!.surah !== surah) break;
+        if (!this.isWordRunAt(words, verseWords, position)) break;
+        verses.push(this.verseById.get(id)!);
+        position += verseWords.length;
+        id++;
+      }
+
+      if (position === words.length && verses.length > 1) {
+        return this.createRangeResult(trimmedText, verses, normalizedInput);
+      }
+    }
+
+    return undefined;
+  }
+
+  private createRangeResult(
+    trimmedText: string,
+    verses: QuranVerse[],
+    normalizedInput: string
+  ): ValidationResult {
+    const segments = this.splitInputByVerses(trimmedText, verses);
+    const verseMatches = verses.map((verse, i) => {
+      const segment = segments?.[i];
+      const matchType: MatchType = segment === verse.text ? 'exact' : 'normalized';
+      return this.createResult(
+        verse,
+        matchType,
+        normalizeArabic(segment ?? verse.text)
+      );
+    });
+
+    const first = verses[0];
+    const last = verses[verses.length - 1];
+    const reference = `${first.surah}:${first.ayah}-${last.ayah}`;
+
+    return {
+      isValid: true,
+      matchType: verseMatches.every((m) => m.matchType === 'exact')
+        ? 'exact'
+        : 'normalized',
+      matchedVerse: first,
+      reference,
+      normalizedInput,
+      verseMatches,
+    };
+  }
+
+  /**
+   * Cut the original input into one segment per verse by counting words.
+   * Returns undefined if the input's words don't line up with the verses.
+   */
+  private splitInputByVerses(
+    trimmedText: string,
+    verses: QuranVerse[]
+  ): string[] | undefined {
+    const tokens = trimmedText.split(/\s+/);
+    const segments: string[] = [];
+    let tokenIndex = 0;
+
+    for (const verse of verses) {
+      const expected = this.normalizedWordsById.get(verse.id)!.length;
+      const segmentTokens: string[] = [];
+      let count = 0;
+
+      while (tokenIndex < tokens.length && count < expected) {
+        const token = tokens[tokenIndex++];
+        count += normalizeFabrication(token).split(' ').filter(Boolean).length;
+        segmentTokens.push(token);
+      }
+      // Trailing pause marks or ayah numbers belong to the verse they follow
+      while (
+        tokenIndex < tokens.length &&
+        normalizeFabrication(tokens[tokenIndex]).length === 0
+      ) {
+        segmentTokens.push(tokens[tokenIndex++]);
+      }
+
+      if (count !== expected) return undefined;
+      segments.push(segmentTokens.join(' '));
+    }
+
+    return segments;
+  }
+
+  /**
+   * Build a partial-match result if the input is a contiguous excerpt of
+   * one or more verses, otherwise a no-match result carrying the closest
+   * verses as suggestions.
+   *
+   * Partial matches are not complete verses, so they are reported with
+   * `isValid: false` — the caller can tell an accurate excerpt apart from
+   * fabricated text via `matchType` and `partialMatch`.
+   */
+  private partialOrNoMatch(
+    lookupKey: string,
+    normalizedInput: string
+  ): ValidationResult {
+    const matches = this.findPartialMatches(lookupKey);
+    if (matches.length === 0) {
+      const result = this.noMatch(normalizedInput);
+      const closest = this.findClosestVerses(lookupKey).filter(
+        (s) => s.similarity! >= this.options.minSuggestionSimilarity
+      );
+      if (closest.length > 0) {
+        result.suggestions = closest;
+      }
+      return result;
+    }
+
+    const primary = matches[0];
+    const result: ValidationResult = {
+      isValid: false,
+      matchType: 'partial',
+      matchedVerse: primary.verse,
+      reference: `${primary.verse.surah}:${primary.verse.ayah}`,
+      normalizedInput,
+      partialMatch: primary.partialMatch,
+    };
+
+    if (matches.length > 1) {
+      result.suggestions = matches
+        .slice(0, this.options.maxSuggestions)
+        .map((m) => ({
+          verse: m.verse,
+          reference: `${m.verse.surah}:${m.verse.ayah}`,
+        }));
+    }
+
+    return result;
+  }
+
+  /**
+   * Find every verse that contains the input words as a contiguous run
+   */
+  private findPartialMatches(
+    lookupKey: string
+  ): { verse: QuranVerse; partialMatch: PartialMatch }[] {
+    const words = lookupKey.split(' ').filter(Boolean);
+    if (words.length < this.options.minPartialWords) return [];
+
+    // Cheap rejection before touching the word index
+    if (!this.normalizedCorpus.includes(words.join(' '))) return [];
+
+    // Only verses containing the rarest input word can match
+    let candidates: number[] | undefined;
+    for (const word of words) {
+      const ids = this.verseIdsByWord.get(word);
+      if (!ids) return [];
+      if (!candidates || ids.length < candidates.length) {
+        candidates = ids;
+      }
+    }
+
+    const matches: { verse: QuranVerse; partialMatch: PartialMatch }[] = [];
+
+    for (const id of candidates!) {
+      const verseWords = this.normalizedWordsById.get(id)!;
+      const start = this.findWordRun(verseWords, words);
+      if (start === -1) continue;
+
+      const verse = this.verseById.get(id)!;
+      matches.push({
+        verse,
+        partialMatch: {
+          startWord: start,
+          endWord: start + words.length,
+          verseWordCount: verseWords.length,
+          text: this.sliceVerseWords(verse, start, start + words.length),
+        },
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Find the index where `needle` occurs as a contiguous run in `haystack`
+   */
+  private findWordRun(haystack: string[], needle: string[]): number {
+    for (let i = 0; i + needle.length <= haystack.length; i++) {
+      if (this.isWordRunAt(haystack, needle, i)) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Check whether `needle` occurs in `haystack` starting at `position`
+   */
+  private isWordRunAt(haystack: string[], needle: string[], position: number): boolean {
+    if (position + needle.length > haystack.length) return false;
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[position + j] !== needle[j]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Slice a verse's Uthmani text by word index, keeping any pause marks
+   * that sit between the selected words
+   */
+  private sliceVerseWords(verse: QuranVerse, startWord: number, endWord: number): string {
+    const tokens = verse.text.split(/\s+/);
+    const selected: string[] = [];
+    let wordIndex = 0;
+
+    for (const token of tokens) {
+      const isWord = normalizeFabrication(token).length > 0;
+      if (isWord) {
+        if (wordIndex >= endWord) break;
+        if (wordIndex >= startWord) selected.push(token);
+        wordIndex++;
+      } else if (wordIndex > startWord && wordIndex < endWord) {
+        selected.push(token);
+      }
+    }
+
+    return selected.join(' ');
+  }
+
   private findExactMatch(text: string): QuranVerse | undefined {
     return this.exactVerseMap.get(text);
   }
@@ -0,0 +1,174 @@
+/**
+ * Word-level alignment between a quote and the text it should match
+ */
+
+import { normalizeArabic } from './normalizer';
+import { DEFAULT_CONFUSIONS, classifyWordError } from './confusion';
+import type { Confusion, WordDiff } from './types';
+
+export interface WordToken {
+  /** Normalized form used for comparison */
+  key: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into words with their character offsets.
+ * Tokens that normalize to nothing (pause marks, ayah numbers) are skipped.
+ */
+export function tokenizeWords(text: string): WordToken[] {
+  const tokens: WordToken[] = [];
+  const pattern = /\S+/g;
+  let match;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const key = normalizeArabic(match[0], { stripHamza: true });
+    if (!key) continue;
+    tokens.push({
+      key,
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Align the words of an input text against an expected text
+ *
+ * Words are compared after normalization, so diacritic differences count
+ * as equal. The alignment minimises edits, with a swap of two adjacent
+ * words counted as a single transpose.
+ *
+ * - `insert`: a word in the input that the expected text doesn't have
+ * - `delete`: a word of the expected text missing from the input
+ *
+ * Substitutions also say whether the quoted word is a spelling variant of
+ * the verse's word or a different word.
+ *
+ * @param input - The text as quoted
+ * @param expected - The authentic text
+ * @param confusions - Letter confusions that count as spelling variants (default: DEFAULT_CONFUSIONS)
+ * @returns Word operations in reading order
+ *
+ * @example
+ * ```ts
+ * diffWords('قل هو الله واحد', 'قُلْ هُوَ ٱللَّهُ أَحَدٌ');
+ * // [equal, equal, equal, { op: 'substitute', input: 'واحد', expected: 'أَحَدٌ', errorKind: 'different-word', ... }]
+ * ```
+ */
+export function diffWords(
+  input: string,
+  expected: string,
+  confusions: readonly Confusion[] = DEFAULT_CONFUSIONS
+): WordDiff[] {
+  const a = tokenizeWords(input);
+  const b = tokenizeWords(expected);
+  const m = a.length;
+  const n = b.length;
+
+  // Optimal string alignment distance over words
+  const dp: number[][] = Array(m + 1)
+    .fill(null)
+    .map(() => Array(n + 1).fill(0));
+
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const cost = a[i - 1].key === b[j - 1].key ? 0 : 1;
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + cost
+      );
+      if (isTransposition(a, b, i, j)) {
+        dp[i][j] = Math.min(dp[i][j], dp[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  // Walk back from the end to recover the operations
+  const operations: WordDiff[] = [];
+  const texts = { input, expected };
+  let i = m;
+  let j = n;
+
+  while (i > 0 || j > 0) {
+    if (isTransposition(a, b, i, j) && dp[i][j] === dp[i - 2][j - 2] + 1) {
+      operations.push(span('transpose', a, b, i - 2, i, j - 2, j, texts));
+      i -= 2;
+      j -= 2;
+    } else if (i > 0 && j > 0 && a[i - 1].key === b[j - 1].key && dp[i][j] === dp[i - 1][j - 1]) {
+      operations.push(span('equal', a, b, i - 1, i, j - 1, j, texts));
+      i--;
+      j--;
+    } else if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + 1) {
+      const substitution = span('substitute', a, b, i - 1, i, j - 1, j, texts);
+      substitution.errorKind = classifyWordError(a[i - 1].key, b[j - 1].key, confusions);
+      operations.push(substitution);
+      i--;
+      j--;
+    } else if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
+      operations.push(span('insert', a, b, i - 1, i, j, j, texts));
+      i--;
+    } else {
+      operations.push(span('delete', a, b, i, i, j - 1, j, texts));
+      j--;
+    }
+  }
+
+  return operations.reverse();
+}
+
+function isTransposition(a: WordToken[], b: WordToken[], i: number, j: number): boolean {
+  return (
+    i > 1 &&
+    j > 1 &&
+    a[i - 1].key !== b[j - 1].key &&
+    a[i - 1].key === b[j - 2].key &&
+    a[i - 2].key === b[j - 1].key
+  );
+}
+
+/**
+ * Build an operation covering words [aFrom, aTo) of the input and
+ * [bFrom, bTo) of the expected text. An empty side is reported as a
+ * zero-width range at the point where the words would go.
+ */
+function span(
+  op: WordDiff['op'],
+  a: WordToken[],
+  b: WordToken[],
+  aFrom: number,
+  aTo: number,
+  bFrom: number,
+  bTo: number,
+  texts: { input: string; expected: string }
+): WordDiff {
+  const [inputStart, inputEnd] = charRange(a, aFrom, aTo);
+  const [verseStart, verseEnd] = charRange(b, bFrom, bTo);
+
+  return {
+    op,
+    input: texts.input.slice(inputStart, inputEnd),
+    expected: texts.expected.slice(verseStart, verseEnd),
+    inputWordIndex: aFrom,
+    verseWordIndex: bFrom,
+    inputStart,
+    inputEnd,
+    verseStart,
+    verseEnd,
+  };
+}
+
+function charRange(tokens: WordToken[], from: number, to: number): [number, number] {
+  if (to > from) {
+    return [tokens[from].start, tokens[to - 1].end];
+  }
+  const at = from > 0 ? tokens[from - 1].end : tokens.length > 0 ? tokens[0].start : 0;
+  return [at, at];
+}